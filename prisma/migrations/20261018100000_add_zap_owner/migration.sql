@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "Zap" ADD COLUMN "ownerId" TEXT;
+
+-- CreateIndex
+CREATE INDEX "Zap_ownerId_createdAt_idx" ON "Zap"("ownerId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "Zap" ADD CONSTRAINT "Zap_ownerId_fkey" FOREIGN KEY ("ownerId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,18 @@
+-- CreateTable
+CREATE TABLE "ZapAuditLog" (
+    "id" TEXT NOT NULL,
+    "zapId" TEXT NOT NULL,
+    "action" TEXT NOT NULL,
+    "actorType" TEXT NOT NULL,
+    "actorId" TEXT,
+    "changes" JSONB NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ZapAuditLog_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ZapAuditLog_zapId_createdAt_idx" ON "ZapAuditLog"("zapId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "ZapAuditLog" ADD CONSTRAINT "ZapAuditLog_zapId_fkey" FOREIGN KEY ("zapId") REFERENCES "Zap"("id") ON DELETE CASCADE ON UPDATE CASCADE;
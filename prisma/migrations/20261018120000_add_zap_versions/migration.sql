@@ -0,0 +1,23 @@
+-- AlterTable
+ALTER TABLE "Zap" ADD COLUMN "currentVersion" INTEGER;
+
+-- CreateTable
+CREATE TABLE "ZapVersion" (
+    "id" TEXT NOT NULL,
+    "zapId" TEXT NOT NULL,
+    "version" INTEGER NOT NULL,
+    "cloudUrl" TEXT NOT NULL,
+    "originalUrl" TEXT,
+    "checksum" TEXT,
+    "fileName" TEXT,
+    "size" INTEGER,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ZapVersion_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ZapVersion_zapId_version_key" ON "ZapVersion"("zapId", "version");
+
+-- AddForeignKey
+ALTER TABLE "ZapVersion" ADD CONSTRAINT "ZapVersion_zapId_fkey" FOREIGN KEY ("zapId") REFERENCES "Zap"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "Zap" ADD COLUMN "fileKey" TEXT;
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "Zap" ADD COLUMN "e2eEncrypted" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN "e2eMetadata" TEXT;
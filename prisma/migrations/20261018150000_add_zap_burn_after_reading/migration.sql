@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "Zap" ADD COLUMN "burnAfterReading" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN "burnedAt" TIMESTAMP(3);
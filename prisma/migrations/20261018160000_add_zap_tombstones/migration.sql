@@ -0,0 +1,16 @@
+-- CreateEnum
+CREATE TYPE "ZapTombstoneReason" AS ENUM ('EXPIRED', 'VIEW_LIMIT', 'DELETED', 'BURNED');
+
+-- CreateTable
+CREATE TABLE "ZapTombstone" (
+    "id" TEXT NOT NULL,
+    "shortId" TEXT NOT NULL,
+    "reason" "ZapTombstoneReason" NOT NULL,
+    "expiresAt" TIMESTAMP(3),
+    "deletedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ZapTombstone_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ZapTombstone_shortId_key" ON "ZapTombstone"("shortId");
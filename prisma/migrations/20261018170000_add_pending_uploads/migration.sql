@@ -0,0 +1,17 @@
+-- CreateEnum
+CREATE TYPE "PendingUploadStatus" AS ENUM ('PENDING', 'COMMITTED', 'ROLLED_BACK');
+
+-- CreateTable
+CREATE TABLE "PendingUpload" (
+    "id" TEXT NOT NULL,
+    "status" "PendingUploadStatus" NOT NULL DEFAULT 'PENDING',
+    "fileName" TEXT NOT NULL,
+    "storageUrl" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "committedAt" TIMESTAMP(3),
+
+    CONSTRAINT "PendingUpload_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "PendingUpload_status_createdAt_idx" ON "PendingUpload"("status", "createdAt");
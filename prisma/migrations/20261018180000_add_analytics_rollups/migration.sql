@@ -0,0 +1,32 @@
+-- CreateEnum
+CREATE TYPE "AnalyticsGranularity" AS ENUM ('HOUR', 'DAY');
+
+-- AlterTable
+ALTER TABLE "ZapAnalytics" ADD COLUMN "browser" TEXT;
+
+-- CreateTable
+CREATE TABLE "ZapAnalyticsRollup" (
+    "id" TEXT NOT NULL,
+    "zapId" TEXT NOT NULL,
+    "granularity" "AnalyticsGranularity" NOT NULL,
+    "bucketStart" TIMESTAMP(3) NOT NULL,
+    "views" INTEGER NOT NULL,
+    "uniqueVisitors" INTEGER NOT NULL,
+    "devices" JSONB NOT NULL,
+    "browsers" JSONB NOT NULL,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ZapAnalyticsRollup_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ZapAnalytics_accessedAt_idx" ON "ZapAnalytics"("accessedAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ZapAnalyticsRollup_zapId_granularity_bucketStart_key" ON "ZapAnalyticsRollup"("zapId", "granularity", "bucketStart");
+
+-- CreateIndex
+CREATE INDEX "ZapAnalyticsRollup_granularity_bucketStart_idx" ON "ZapAnalyticsRollup"("granularity", "bucketStart");
+
+-- AddForeignKey
+ALTER TABLE "ZapAnalyticsRollup" ADD CONSTRAINT "ZapAnalyticsRollup_zapId_fkey" FOREIGN KEY ("zapId") REFERENCES "Zap"("id") ON DELETE CASCADE ON UPDATE CASCADE;
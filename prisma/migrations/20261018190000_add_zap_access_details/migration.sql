@@ -0,0 +1,8 @@
+-- CreateEnum
+CREATE TYPE "ZapAccessOutcome" AS ENUM ('SUCCESS', 'WRONG_PASSWORD', 'WRONG_QUIZ', 'LOCKED', 'EXPIRED', 'LIMIT_REACHED');
+
+-- AlterTable
+ALTER TABLE "ZapAnalytics" ADD COLUMN     "language" TEXT,
+ADD COLUMN     "os" TEXT,
+ADD COLUMN     "outcome" "ZapAccessOutcome" NOT NULL DEFAULT 'SUCCESS',
+ADD COLUMN     "referrerHost" TEXT;
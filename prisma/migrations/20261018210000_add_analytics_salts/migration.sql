@@ -0,0 +1,8 @@
+-- CreateTable
+CREATE TABLE "AnalyticsSalt" (
+    "day" DATE NOT NULL,
+    "salt" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "AnalyticsSalt_pkey" PRIMARY KEY ("day")
+);
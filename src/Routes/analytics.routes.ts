@@ -1,6 +1,18 @@
 import express from "express";
-import { getZapAnalytics } from "../controllers/analytics.controller";
+import {
+    exportZapAnalytics,
+    getZapAnalytics,
+    getZapAnalyticsTimeSeries,
+    streamZapAccessEvents,
+} from "../controllers/analytics.controller";
 import { downloadLimiter } from "../middlewares/rateLimiter";
+import { validate } from "../middlewares/validate.middleware";
+import { optionalAuthenticate } from "../middlewares/auth.middleware";
+import {
+    analyticsEventsSchema,
+    analyticsExportSchema,
+    analyticsTimeSeriesSchema,
+} from "../validations/analytics.validation";
 
 const router = express.Router();
 
@@ -69,4 +81,197 @@ const router = express.Router();
  */
 router.get("/:shortId", downloadLimiter, getZapAnalytics);
 
+/**
+ * @swagger
+ * /api/analytics/{shortId}/timeseries:
+ *   get:
+ *     summary: Get a Zap's analytics as a time series
+ *     description: |
+ *       Returns views, unique visitors, device types and browsers per hour or day (UTC).
+ *       Read from rollups refreshed every few minutes, so the latest bucket may lag slightly.
+ *       Buckets without views are returned with zero counts.
+ *       Requires the `deletionToken` (returned when the Zap was created) for authorization.
+ *     tags: [Analytics]
+ *     parameters:
+ *       - in: path
+ *         name: shortId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         example: abc12345
+ *       - in: query
+ *         name: token
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: The deletionToken returned at Zap creation time
+ *       - in: query
+ *         name: granularity
+ *         required: false
+ *         schema:
+ *           type: string
+ *           enum: [hour, day]
+ *           default: day
+ *       - in: query
+ *         name: from
+ *         required: false
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *         description: Start of the range (default 24 hours or 30 days before `to`)
+ *       - in: query
+ *         name: to
+ *         required: false
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *         description: End of the range (default now). At most 744 hourly or 366 daily buckets.
+ *     responses:
+ *       200:
+ *         description: Time series retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/AnalyticsTimeSeriesResponse'
+ *       400:
+ *         description: Invalid granularity or range
+ *       401:
+ *         description: Missing authorization token
+ *       403:
+ *         description: Invalid authorization token
+ *       404:
+ *         description: Zap not found
+ *       500:
+ *         description: Server error
+ */
+router.get(
+    "/:shortId/timeseries",
+    downloadLimiter,
+    validate(analyticsTimeSeriesSchema),
+    getZapAnalyticsTimeSeries
+);
+
+/**
+ * @swagger
+ * /api/analytics/{shortId}/export:
+ *   get:
+ *     summary: Export a Zap's access log
+ *     description: |
+ *       Streams every access attempt (including refused ones) as a CSV or NDJSON download,
+ *       oldest first, with every recorded field plus a derived `uniqueVisitor` flag
+ *       (a visitor's first successful view of the day).
+ *       Requires the `deletionToken` (returned when the Zap was created) for authorization.
+ *     tags: [Analytics]
+ *     parameters:
+ *       - in: path
+ *         name: shortId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         example: abc12345
+ *       - in: query
+ *         name: token
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: The deletionToken returned at Zap creation time
+ *       - in: query
+ *         name: format
+ *         required: false
+ *         schema:
+ *           type: string
+ *           enum: [csv, ndjson]
+ *           default: csv
+ *       - in: query
+ *         name: from
+ *         required: false
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *       - in: query
+ *         name: to
+ *         required: false
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *     responses:
+ *       200:
+ *         description: The access log
+ *         content:
+ *           text/csv:
+ *             schema:
+ *               type: string
+ *           application/x-ndjson:
+ *             schema:
+ *               type: string
+ *       400:
+ *         description: Invalid format or range
+ *       401:
+ *         description: Missing authorization token
+ *       403:
+ *         description: Invalid authorization token
+ *       404:
+ *         description: Zap not found
+ *       500:
+ *         description: Server error
+ */
+router.get(
+    "/:shortId/export",
+    downloadLimiter,
+    validate(analyticsExportSchema),
+    exportZapAnalytics
+);
+
+/**
+ * @swagger
+ * /api/analytics/{shortId}/events:
+ *   get:
+ *     summary: Live stream of a Zap's access attempts
+ *     description: |
+ *       Server-Sent Events stream that pushes an `access` event whenever the Zap is viewed
+ *       or an attempt is refused (wrong password or quiz answer, locked, expired, limit reached).
+ *       Each event's `data` is a JSON object with `id`, `outcome`, `deviceType`, `browser`, `os`,
+ *       `referrerHost`, `language` and `accessedAt`.
+ *       Authorized by the owner's access token or the deletionToken (`?token=`, since
+ *       `EventSource` cannot send headers, or the `X-Deletion-Token` header).
+ *     tags: [Analytics]
+ *     parameters:
+ *       - in: path
+ *         name: shortId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         example: abc12345
+ *       - in: query
+ *         name: token
+ *         required: false
+ *         schema:
+ *           type: string
+ *         description: The deletionToken returned at Zap creation time
+ *     security:
+ *       - {}
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Event stream
+ *         content:
+ *           text/event-stream:
+ *             schema:
+ *               type: string
+ *       401:
+ *         description: No deletion token or access token provided
+ *       403:
+ *         description: Not authorized for this Zap
+ *       404:
+ *         description: Zap not found
+ *       429:
+ *         description: Too many live streams open for this Zap
+ */
+router.get(
+    "/:shortId/events",
+    optionalAuthenticate,
+    validate(analyticsEventsSchema),
+    streamZapAccessEvents
+);
+
 export default router;
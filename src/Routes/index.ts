@@ -2,9 +2,15 @@ import express from "express";
 //import individual routes here ---
 import zapRoute from "./zap.routes";
 import analyticsRoute from "./analytics.routes";
+import authRoute from "./auth.routes";
+import uploadRoute from "./upload.routes";
+import webhookRoute from "./webhook.routes";
 
 const router = express.Router();
 
 router.use("/zaps", zapRoute);
 router.use("/analytics", analyticsRoute);
+router.use("/auth", authRoute);
+router.use("/uploads", uploadRoute);
+router.use("/webhooks", webhookRoute);
 export default router;
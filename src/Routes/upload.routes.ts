@@ -0,0 +1,220 @@
+import express from "express";
+import { sanitizeBody, sanitizeParams } from "../middlewares/sanitizeInput";
+import {
+  initiateUpload,
+  uploadChunk,
+  getUploadStatus,
+  completeUpload,
+  cancelUpload,
+} from "../controllers/upload.controller";
+import {
+  uploadLimiter,
+  chunkUploadLimiter,
+} from "../middlewares/rateLimiter";
+import { validate } from "../middlewares/validate.middleware";
+import { optionalAuthenticate } from "../middlewares/auth.middleware";
+import {
+  initiateUploadSchema,
+  uploadSessionSchema,
+  uploadChunkSchema,
+  completeUploadSchema,
+} from "../validations/upload.validation";
+
+const router = express.Router();
+
+/**
+ * @swagger
+ * /api/uploads:
+ *   post:
+ *     summary: Start a resumable upload
+ *     description: |
+ *       For files larger than the 10MB `POST /api/zaps/upload` limit. Send the file
+ *       as numbered chunks of `chunkSize` bytes (only the last may be shorter), then
+ *       complete the upload to create the Zap. Uploads started while signed in can
+ *       only be continued by the same user.
+ *     tags: [Uploads]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [fileName, size]
+ *             properties:
+ *               fileName:
+ *                 type: string
+ *                 example: holiday.mp4
+ *               size:
+ *                 type: integer
+ *                 description: Total file size in bytes
+ *               mimeType:
+ *                 type: string
+ *               chunkSize:
+ *                 type: integer
+ *                 description: Bytes per chunk (256KB-10MB, default 5MB)
+ *     responses:
+ *       201:
+ *         description: Upload started; the Location header points at the upload
+ *       400:
+ *         description: Invalid request
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       413:
+ *         description: File exceeds RESUMABLE_UPLOAD_MAX_SIZE
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.post(
+  "/",
+  uploadLimiter,
+  optionalAuthenticate,
+  sanitizeBody,
+  validate(initiateUploadSchema),
+  initiateUpload,
+);
+
+/**
+ * @swagger
+ * /api/uploads/{uploadId}:
+ *   get:
+ *     summary: Get which chunks of a resumable upload have been received
+ *     description: |
+ *       Returns received and missing chunk indexes and the received byte ranges.
+ *       `HEAD` returns only the tus-style `Upload-Offset` and `Upload-Length` headers.
+ *     tags: [Uploads]
+ *     parameters:
+ *       - in: path
+ *         name: uploadId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Upload status
+ *       404:
+ *         description: Upload not found
+ *       410:
+ *         description: Upload expired
+ *   delete:
+ *     summary: Cancel a resumable upload and discard its chunks
+ *     tags: [Uploads]
+ *     parameters:
+ *       - in: path
+ *         name: uploadId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Upload cancelled
+ *       404:
+ *         description: Upload not found
+ */
+router.get(
+  "/:uploadId",
+  sanitizeParams,
+  optionalAuthenticate,
+  validate(uploadSessionSchema),
+  getUploadStatus,
+);
+
+router.delete(
+  "/:uploadId",
+  sanitizeParams,
+  optionalAuthenticate,
+  validate(uploadSessionSchema),
+  cancelUpload,
+);
+
+/**
+ * @swagger
+ * /api/uploads/{uploadId}/chunks/{index}:
+ *   put:
+ *     summary: Upload one chunk of a resumable upload
+ *     description: |
+ *       The body is the raw chunk bytes. Chunks may be sent in any order and in
+ *       parallel; re-sending an index replaces the earlier copy.
+ *     tags: [Uploads]
+ *     parameters:
+ *       - in: path
+ *         name: uploadId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: index
+ *         required: true
+ *         schema:
+ *           type: integer
+ *           minimum: 0
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/octet-stream:
+ *           schema:
+ *             type: string
+ *             format: binary
+ *     responses:
+ *       200:
+ *         description: Chunk stored; returns the updated upload status
+ *       400:
+ *         description: Chunk length does not match the expected size
+ *       404:
+ *         description: Upload not found
+ *       416:
+ *         description: Chunk index out of range
+ */
+router.put(
+  "/:uploadId/chunks/:index",
+  chunkUploadLimiter,
+  sanitizeParams,
+  optionalAuthenticate,
+  validate(uploadChunkSchema),
+  uploadChunk,
+);
+
+/**
+ * @swagger
+ * /api/uploads/{uploadId}/complete:
+ *   post:
+ *     summary: Finish a resumable upload and create the Zap
+ *     description: |
+ *       Accepts the same settings as `POST /api/zaps/upload` (type, name, password,
+ *       viewLimit, expiresAt, quiz, delayedAccessTime). The assembled file goes
+ *       through the same magic-byte check and storage upload.
+ *     tags: [Uploads]
+ *     parameters:
+ *       - in: path
+ *         name: uploadId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       201:
+ *         description: Zap created
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ZapResponse'
+ *       400:
+ *         description: File signature does not match its extension
+ *       409:
+ *         description: Chunks are missing or the upload is already being completed
+ *       415:
+ *         description: Unknown file signature
+ */
+router.post(
+  "/:uploadId/complete",
+  uploadLimiter,
+  sanitizeParams,
+  optionalAuthenticate,
+  sanitizeBody,
+  validate(completeUploadSchema),
+  completeUpload,
+);
+
+export default router;
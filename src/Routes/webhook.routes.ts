@@ -0,0 +1,239 @@
+import express from "express";
+import { sanitizeBody } from "../middlewares/sanitizeInput";
+import {
+  createWebhook,
+  deleteWebhook,
+  listDeadLetters,
+  listWebhooks,
+  redeliverWebhook,
+} from "../controllers/webhook.controller";
+import { webhookLimiter } from "../middlewares/rateLimiter";
+import { validate } from "../middlewares/validate.middleware";
+import { authenticate, optionalAuthenticate } from "../middlewares/auth.middleware";
+import {
+  createWebhookSchema,
+  redeliverWebhookSchema,
+  webhookIdSchema,
+} from "../validations/webhook.validation";
+
+const router = express.Router();
+
+/**
+ * @swagger
+ * /api/webhooks:
+ *   post:
+ *     summary: Subscribe to Zap lifecycle events
+ *     description: |
+ *       Registers a URL that receives a signed POST for each event
+ *       (`zap.created`, `zap.viewed`, `zap.exhausted`, `zap.expired`, `zap.deleted`).
+ *       With a `shortId` the subscription covers that Zap only and requires its owner
+ *       or its `deletionToken` in the `X-Deletion-Token` header. Without one it covers
+ *       every Zap of the signed-in user. The signing secret is returned once.
+ *     tags: [Webhooks]
+ *     security:
+ *       - bearerAuth: []
+ *       - {}
+ *     parameters:
+ *       - in: header
+ *         name: X-Deletion-Token
+ *         required: false
+ *         schema:
+ *           type: string
+ *         description: The Zap's deletionToken, for per-Zap subscriptions without an account
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [url]
+ *             properties:
+ *               url:
+ *                 type: string
+ *                 description: An HTTPS URL on a public address
+ *                 example: https://example.com/hooks/zaplink
+ *               events:
+ *                 type: array
+ *                 description: Events to receive; all of them when omitted
+ *                 items:
+ *                   type: string
+ *                   enum: [zap.created, zap.viewed, zap.exhausted, zap.expired, zap.deleted]
+ *               shortId:
+ *                 type: string
+ *                 example: abc12345
+ *     responses:
+ *       201:
+ *         description: Subscription created; `data.secret` is not shown again
+ *       400:
+ *         description: Invalid request, or a url that is not on a public address
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       401:
+ *         description: Not signed in and no X-Deletion-Token
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       403:
+ *         description: Not allowed to manage this Zap
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       404:
+ *         description: Zap not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *   get:
+ *     summary: List your webhook subscriptions
+ *     description: Returns the signed-in user's subscriptions, including those on their Zaps. Secrets are not included.
+ *     tags: [Webhooks]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Subscriptions retrieved
+ *       401:
+ *         description: Not signed in
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.post(
+  "/",
+  webhookLimiter,
+  optionalAuthenticate,
+  sanitizeBody,
+  validate(createWebhookSchema),
+  createWebhook,
+);
+router.get("/", authenticate, listWebhooks);
+
+/**
+ * @swagger
+ * /api/webhooks/{id}:
+ *   delete:
+ *     summary: Delete a webhook subscription
+ *     description: Also drops its queued deliveries and dead letters.
+ *     tags: [Webhooks]
+ *     security:
+ *       - bearerAuth: []
+ *       - {}
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: header
+ *         name: X-Deletion-Token
+ *         required: false
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Subscription deleted
+ *       401:
+ *         description: Not signed in and no X-Deletion-Token
+ *       403:
+ *         description: Not allowed to manage this subscription
+ *       404:
+ *         description: Subscription not found
+ */
+router.delete(
+  "/:id",
+  webhookLimiter,
+  optionalAuthenticate,
+  validate(webhookIdSchema),
+  deleteWebhook,
+);
+
+/**
+ * @swagger
+ * /api/webhooks/{id}/dead-letters:
+ *   get:
+ *     summary: List failed deliveries
+ *     description: Events that could not be delivered after every retry, newest first (at most 100).
+ *     tags: [Webhooks]
+ *     security:
+ *       - bearerAuth: []
+ *       - {}
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: header
+ *         name: X-Deletion-Token
+ *         required: false
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Dead letters retrieved
+ *       401:
+ *         description: Not signed in and no X-Deletion-Token
+ *       403:
+ *         description: Not allowed to manage this subscription
+ *       404:
+ *         description: Subscription not found
+ */
+router.get(
+  "/:id/dead-letters",
+  webhookLimiter,
+  optionalAuthenticate,
+  validate(webhookIdSchema),
+  listDeadLetters,
+);
+
+/**
+ * @swagger
+ * /api/webhooks/{id}/dead-letters/{deadLetterId}/redeliver:
+ *   post:
+ *     summary: Redeliver a failed event
+ *     description: Queues the event again, to the subscription's current URL, with a fresh set of retries.
+ *     tags: [Webhooks]
+ *     security:
+ *       - bearerAuth: []
+ *       - {}
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: deadLetterId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: header
+ *         name: X-Deletion-Token
+ *         required: false
+ *         schema:
+ *           type: string
+ *     responses:
+ *       202:
+ *         description: Redelivery queued
+ *       401:
+ *         description: Not signed in and no X-Deletion-Token
+ *       403:
+ *         description: Not allowed to manage this subscription
+ *       404:
+ *         description: Subscription or dead letter not found
+ */
+router.post(
+  "/:id/dead-letters/:deadLetterId/redeliver",
+  webhookLimiter,
+  optionalAuthenticate,
+  validate(redeliverWebhookSchema),
+  redeliverWebhook,
+);
+
+export default router;
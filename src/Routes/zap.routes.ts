@@ -11,18 +11,40 @@ import {
   getZapMetadata,
   verifyQuizForZap,
   shortenUrl,
+  listMyZaps,
+  deleteZap,
+  updateZap,
 } from "../controllers/zap.controller";
+import {
+  uploadZapVersion,
+  listZapVersions,
+  restoreZapVersion,
+} from "../controllers/zapVersion.controller";
+import { getZapContent } from "../controllers/zapContent.controller";
+import { getZapQrCode } from "../controllers/zapQr.controller";
+import { requireSignedContentUrl } from "../middlewares/signedContent.middleware";
 import rateLimit from "express-rate-limit";
 import {
   uploadLimiter,
   downloadLimiter,
 } from "../middlewares/rateLimiter";
 import { validate } from "../middlewares/validate.middleware";
+import {
+  authenticate,
+  optionalAuthenticate,
+} from "../middlewares/auth.middleware";
 import {
   createZapSchema,
   getZapMetadataSchema,
   verifyQuizForZapSchema,
   getZapByShortIdSchema,
+  listZapsSchema,
+  deleteZapSchema,
+  updateZapSchema,
+  zapVersionsSchema,
+  restoreZapVersionSchema,
+  getZapContentSchema,
+  getZapQrCodeSchema,
 } from "../validations/zap.validation";
 
 const notFoundLimiter = rateLimit({
@@ -42,6 +64,25 @@ const notFoundLimiter = rateLimit({
   },
 });
 
+// Editing or deleting requires guessing a deletionToken, so throttle failed
+// attempts the same way notFoundLimiter throttles shortId probing.
+const manageLimiter = rateLimit({
+  windowMs: 5 * 60 * 1000, // 5 minutes
+  max: 20, // allow 20 failed edits/deletions per IP per window
+  standardHeaders: true,
+  legacyHeaders: false,
+  keyGenerator: (req) => req.ip ?? "unknown",
+
+  // Count ONLY rejected (401/403/404) responses
+  requestWasSuccessful: (_req, res) => {
+    return ![401, 403, 404].includes(res.statusCode);
+  },
+
+  message: {
+    error: "Too many failed attempts to manage this Zap. Slow down.",
+  },
+});
+
 const router = express.Router();
 
 /**
@@ -76,6 +117,30 @@ const router = express.Router();
  *               expiresAt:
  *                 type: string
  *                 format: date-time
+ *               encryptFile:
+ *                 type: string
+ *                 enum: ["true", "false"]
+ *                 description: Encrypt the file at rest; storage only ever holds ciphertext
+ *               e2e:
+ *                 type: string
+ *                 enum: ["true", "false"]
+ *                 description: |
+ *                   The file or textContent was encrypted by the client, which keeps the key
+ *                   (e.g. in the share link's URL fragment). The server skips file-type
+ *                   detection and stores the ciphertext as-is; textContent must be base64.
+ *               e2eMetadata:
+ *                 type: string
+ *                 maxLength: 2048
+ *                 description: Opaque client data returned with the Zap (e.g. algorithm, IV)
+ *               burnAfterReading:
+ *                 type: string
+ *                 enum: ["true", "false"]
+ *                 description: |
+ *                   Destroy the content on the first successful view, leaving a "burned"
+ *                   tombstone (410 afterwards). Cannot be combined with viewLimit.
+ *     description: |
+ *       Anonymous uploads are allowed. When a valid `Authorization: Bearer <token>`
+ *       header is sent, the Zap is owned by that user and shows up in `GET /api/zaps`.
  *     responses:
  *       201:
  *         description: Zap created
@@ -99,6 +164,7 @@ const router = express.Router();
 router.post(
   "/upload",
   uploadLimiter,
+  optionalAuthenticate,
   upload.single("file"),
   sanitizeBody,
   validate(createZapSchema),
@@ -199,7 +265,72 @@ router.post(
  *       500:
  *         description: Server error
  */
-router.post("/shorten", downloadLimiter, shortenUrl);
+router.post("/shorten", downloadLimiter, optionalAuthenticate, shortenUrl);
+
+/**
+ * @swagger
+ * /api/zaps:
+ *   get:
+ *     summary: List the authenticated user's Zaps
+ *     tags: [Zaps]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 20
+ *           maximum: 100
+ *       - in: query
+ *         name: type
+ *         schema:
+ *           type: string
+ *           enum: [PDF, IMAGE, VIDEO, AUDIO, ZIP, URL, TEXT, WORD, PPT, UNIVERSAL]
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [active, expired, exhausted, burned]
+ *       - in: query
+ *         name: search
+ *         description: Case-insensitive match on the Zap name
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: sortBy
+ *         schema:
+ *           type: string
+ *           enum: [createdAt, name, viewCount, expiresAt]
+ *           default: createdAt
+ *       - in: query
+ *         name: order
+ *         schema:
+ *           type: string
+ *           enum: [asc, desc]
+ *           default: desc
+ *     responses:
+ *       200:
+ *         description: Paginated list of Zaps without secrets
+ *       400:
+ *         description: Invalid query parameters
+ *       401:
+ *         description: Missing or invalid access token
+ *       500:
+ *         description: Server error
+ */
+router.get(
+  "/",
+  authenticate,
+  sanitizeQuery,
+  validate(listZapsSchema),
+  listMyZaps,
+);
 
 /**
  * @swagger
@@ -234,8 +365,10 @@ router.post("/shorten", downloadLimiter, shortenUrl);
  *                   type: string
  *                 name:
  *                   type: string
- *                 cloudUrl:
+ *                 contentUrl:
  *                   type: string
+ *                   nullable: true
+ *                   description: Short-lived signed link to the file (file Zaps only)
  *                 originalUrl:
  *                   type: string
  *                 viewCount:
@@ -250,7 +383,9 @@ router.post("/shorten", downloadLimiter, shortenUrl);
  *       404:
  *         description: Not found
  *       410:
- *         description: Expired or view limit exceeded
+ *         description: |
+ *           Expired, view limit exceeded, burned or deleted. Deleted Zaps report the
+ *           reason, deletedAt and expiresAt in `errors`.
  *       500:
  *         description: Server error
  */
@@ -264,4 +399,442 @@ router.get(
   getZapByShortId,
 );
 
+/**
+ * @swagger
+ * /api/zaps/{shortId}/content:
+ *   get:
+ *     summary: Stream a file Zap's contents through a signed link
+ *     description: |
+ *       Only reachable through the `contentUrl` returned by `GET /api/zaps/{shortId}`
+ *       after the viewer passed the password/quiz/view-limit checks. Links expire after
+ *       `CONTENT_URL_TTL_SECONDS` and stop working as soon as the Zap expires, is deleted,
+ *       or its view limit is used up by someone else. Supports `Range` requests for
+ *       video/audio seeking. Encrypted Zaps are decrypted on the fly.
+ *     tags: [Zaps]
+ *     parameters:
+ *       - in: path
+ *         name: shortId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: view
+ *         required: true
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: expires
+ *         required: true
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: signature
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: download
+ *         description: "Send `1` to get `Content-Disposition: attachment` instead of inline"
+ *         schema:
+ *           type: string
+ *       - in: header
+ *         name: Range
+ *         schema:
+ *           type: string
+ *         example: bytes=0-1048575
+ *     responses:
+ *       200:
+ *         description: The whole file
+ *       206:
+ *         description: The requested byte range
+ *       400:
+ *         description: URL and text Zaps have no file to stream
+ *       401:
+ *         description: No signed link parameters
+ *       403:
+ *         description: Invalid or expired link
+ *       404:
+ *         description: Not found
+ *       410:
+ *         description: Zap expired, deleted or view limit exceeded
+ *       416:
+ *         description: Requested range not satisfiable
+ */
+router.get(
+  "/:shortId/content",
+  sanitizeParams,
+  sanitizeQuery,
+  downloadLimiter,
+  notFoundLimiter,
+  validate(getZapContentSchema),
+  requireSignedContentUrl,
+  getZapContent,
+);
+
+/**
+ * @swagger
+ * /api/zaps/{shortId}/qr:
+ *   get:
+ *     summary: Render the QR code of a Zap's short link
+ *     description: |
+ *       Public: the code only carries the link. Responses have an `ETag` and may be
+ *       cached for a day; send `If-None-Match` to get a 304 for an unchanged code.
+ *       With a `logo`, error correction defaults to H so the code still scans.
+ *     tags: [Zaps]
+ *     parameters:
+ *       - in: path
+ *         name: shortId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: format
+ *         schema:
+ *           type: string
+ *           enum: [png, svg, pdf]
+ *           default: png
+ *       - in: query
+ *         name: size
+ *         description: Width and height in pixels (points for PDF)
+ *         schema:
+ *           type: integer
+ *           minimum: 64
+ *           maximum: 2048
+ *           default: 512
+ *       - in: query
+ *         name: margin
+ *         description: Quiet zone in modules
+ *         schema:
+ *           type: integer
+ *           minimum: 0
+ *           maximum: 16
+ *           default: 4
+ *       - in: query
+ *         name: ecc
+ *         description: Error correction level
+ *         schema:
+ *           type: string
+ *           enum: [L, M, Q, H]
+ *           default: M
+ *       - in: query
+ *         name: fg
+ *         description: Foreground color, RRGGBB or RRGGBBAA (URL-encode a leading `#`)
+ *         schema:
+ *           type: string
+ *           default: "000000"
+ *       - in: query
+ *         name: bg
+ *         description: Background color, RRGGBB or RRGGBBAA
+ *         schema:
+ *           type: string
+ *           default: ffffff
+ *       - in: query
+ *         name: logo
+ *         description: HTTPS URL of a PNG (at most 512KB) drawn in the middle
+ *         schema:
+ *           type: string
+ *           format: uri
+ *     responses:
+ *       200:
+ *         description: The code
+ *         content:
+ *           image/png: {}
+ *           image/svg+xml: {}
+ *           application/pdf: {}
+ *       304:
+ *         description: Not modified
+ *       400:
+ *         description: Invalid options, or a logo on a private address
+ *       404:
+ *         description: Not found
+ *       410:
+ *         description: Zap deleted
+ *       413:
+ *         description: Logo too large
+ *       415:
+ *         description: Logo is not a PNG
+ *       422:
+ *         description: Logo could not be downloaded
+ */
+router.get(
+  "/:shortId/qr",
+  sanitizeParams,
+  downloadLimiter,
+  notFoundLimiter,
+  validate(getZapQrCodeSchema),
+  getZapQrCode,
+);
+
+/**
+ * @swagger
+ * /api/zaps/{shortId}:
+ *   delete:
+ *     summary: Delete a Zap using its deletionToken
+ *     description: |
+ *       Permanently deletes the Zap, its analytics and its uploaded file.
+ *       The owner may also delete with their access token instead of the header.
+ *       Failed attempts are rate limited per IP.
+ *     tags: [Zaps]
+ *     parameters:
+ *       - in: path
+ *         name: shortId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         example: abc123
+ *       - in: header
+ *         name: X-Deletion-Token
+ *         required: false
+ *         schema:
+ *           type: string
+ *         description: The deletionToken returned at Zap creation time
+ *     responses:
+ *       200:
+ *         description: Zap deleted
+ *       401:
+ *         description: No deletion token or access token provided
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       403:
+ *         description: Invalid deletion token
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       404:
+ *         description: Zap not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       429:
+ *         description: Too many failed delete attempts
+ *       500:
+ *         description: Server error
+ */
+router.delete(
+  "/:shortId",
+  sanitizeParams,
+  manageLimiter,
+  optionalAuthenticate,
+  validate(deleteZapSchema),
+  deleteZap,
+);
+
+/**
+ * @swagger
+ * /api/zaps/{shortId}:
+ *   patch:
+ *     summary: Edit the settings of a live Zap
+ *     description: |
+ *       Authorized by the `X-Deletion-Token` header or by the owner's access token.
+ *       Send only the settings to change; `null` clears a setting.
+ *       Every change is recorded in the Zap's audit trail (secrets are never logged).
+ *     tags: [Zaps]
+ *     parameters:
+ *       - in: path
+ *         name: shortId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         example: abc123
+ *       - in: header
+ *         name: X-Deletion-Token
+ *         required: false
+ *         schema:
+ *           type: string
+ *         description: The deletionToken returned at Zap creation time
+ *     security:
+ *       - {}
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               name:
+ *                 type: string
+ *               expiresAt:
+ *                 type: string
+ *                 format: date-time
+ *                 nullable: true
+ *               viewLimit:
+ *                 type: integer
+ *                 nullable: true
+ *               password:
+ *                 type: string
+ *                 nullable: true
+ *               quizQuestion:
+ *                 type: string
+ *                 nullable: true
+ *               quizAnswer:
+ *                 type: string
+ *                 nullable: true
+ *     responses:
+ *       200:
+ *         description: Zap updated
+ *       400:
+ *         description: Validation error, weak password, or a viewLimit on a burnAfterReading Zap
+ *       401:
+ *         description: No deletion token or access token provided
+ *       403:
+ *         description: Not authorized to edit this Zap
+ *       404:
+ *         description: Zap not found
+ *       410:
+ *         description: Zap was burned after reading
+ *       500:
+ *         description: Server error
+ */
+router.patch(
+  "/:shortId",
+  sanitizeParams,
+  manageLimiter,
+  optionalAuthenticate,
+  sanitizeBody,
+  validate(updateZapSchema),
+  updateZap,
+);
+
+/**
+ * @swagger
+ * /api/zaps/{shortId}/versions:
+ *   post:
+ *     summary: Upload new content for an existing Zap
+ *     description: |
+ *       The shortId (and any printed QR code) stays the same. The file goes through
+ *       the same MIME-spoofing check as uploads and becomes the current version.
+ *       Authorized by `X-Deletion-Token` or the owner's access token.
+ *     tags: [Zaps]
+ *     parameters:
+ *       - in: path
+ *         name: shortId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: header
+ *         name: X-Deletion-Token
+ *         required: false
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         multipart/form-data:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               file:
+ *                 type: string
+ *                 format: binary
+ *     responses:
+ *       201:
+ *         description: New version uploaded and made current
+ *       400:
+ *         description: Missing file, spoofed file or not a file Zap
+ *       401:
+ *         description: No deletion token or access token provided
+ *       403:
+ *         description: Not authorized to manage this Zap
+ *       404:
+ *         description: Zap not found
+ *       409:
+ *         description: Concurrent version upload
+ *       410:
+ *         description: Zap was burned after reading
+ *       415:
+ *         description: Unknown file signature
+ *   get:
+ *     summary: List all versions of a Zap
+ *     tags: [Zaps]
+ *     parameters:
+ *       - in: path
+ *         name: shortId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: header
+ *         name: X-Deletion-Token
+ *         required: false
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Versions, newest first, with checksums
+ *       401:
+ *         description: No deletion token or access token provided
+ *       403:
+ *         description: Not authorized to manage this Zap
+ *       404:
+ *         description: Zap not found
+ *       410:
+ *         description: Zap was burned after reading
+ */
+router.post(
+  "/:shortId/versions",
+  sanitizeParams,
+  uploadLimiter,
+  manageLimiter,
+  optionalAuthenticate,
+  upload.single("file"),
+  validate(zapVersionsSchema),
+  uploadZapVersion,
+);
+
+router.get(
+  "/:shortId/versions",
+  sanitizeParams,
+  manageLimiter,
+  optionalAuthenticate,
+  validate(zapVersionsSchema),
+  listZapVersions,
+);
+
+/**
+ * @swagger
+ * /api/zaps/{shortId}/versions/{version}/restore:
+ *   post:
+ *     summary: Make an older version current again
+ *     tags: [Zaps]
+ *     parameters:
+ *       - in: path
+ *         name: shortId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: version
+ *         required: true
+ *         schema:
+ *           type: integer
+ *       - in: header
+ *         name: X-Deletion-Token
+ *         required: false
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Version restored
+ *       401:
+ *         description: No deletion token or access token provided
+ *       403:
+ *         description: Not authorized to manage this Zap
+ *       404:
+ *         description: Zap or version not found
+ *       410:
+ *         description: Zap was burned after reading
+ */
+router.post(
+  "/:shortId/versions/:version/restore",
+  sanitizeParams,
+  manageLimiter,
+  optionalAuthenticate,
+  validate(restoreZapVersionSchema),
+  restoreZapVersion,
+);
+
 export default router;
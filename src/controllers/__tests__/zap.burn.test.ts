@@ -0,0 +1,223 @@
+import { Request } from "express";
+import prisma from "../../utils/prismClient";
+import { deleteStoredObject } from "../../services/storage";
+import { deleteZapRows, deleteZaps } from "../../services/zapDeletion.service";
+import { logAccess } from "../../services/analytics.service";
+
+jest.mock("../../utils/prismClient", () => ({
+  __esModule: true,
+  default: {
+    $transaction: jest.fn((callback: (tx: unknown) => unknown) => callback(prisma)),
+    zap: {
+      findUnique: jest.fn(),
+      findMany: jest.fn(),
+      update: jest.fn(),
+      updateMany: jest.fn(),
+    },
+    zapVersion: {
+      findMany: jest.fn(),
+      deleteMany: jest.fn(),
+    },
+    webhookSubscription: {
+      findMany: jest.fn(() => Promise.resolve([])),
+    },
+  },
+}));
+jest.mock("../../services/storage", () => ({
+  __esModule: true,
+  getStorage: jest.fn(),
+  getStorageForUrl: jest.fn((url: string | null) =>
+    url?.startsWith("local://") ? { name: "local" } : null
+  ),
+  getZapFileUrl: jest.fn((zap: { type: string; cloudUrl: string | null }) =>
+    zap.type !== "URL" && zap.cloudUrl?.startsWith("local://") ? zap.cloudUrl : null
+  ),
+  deleteStoredObject: jest.fn(),
+}));
+jest.mock("../../services/zapDeletion.service", () => ({
+  __esModule: true,
+  deleteZapRows: jest.fn(async () => ({ deleted: [], webhooksQueued: 0 })),
+  deleteZaps: jest.fn(async (shortIds: string[]) => ({
+    deleted: shortIds,
+    assetsDeleted: 0,
+    assetErrors: 0,
+  })),
+}));
+jest.mock("../../services/analytics.service", () => ({
+  __esModule: true,
+  logAccess: jest.fn(() => Promise.resolve()),
+}));
+
+process.env.URL_SIGNING_SECRET = "test-url-signing-secret";
+
+// Import after mocks
+import { getZapByShortId } from "../zap.controller";
+import { purgeBurnedContent, purgeBurnedZaps } from "../../services/burnAfterReading.service";
+
+const textZap = {
+  id: "cuid1",
+  shortId: "abc12345",
+  type: "TEXT",
+  name: "One-time secret",
+  cloudUrl: null,
+  originalUrl: "TEXT_CONTENT:ciphertext",
+  passwordHash: null,
+  quizQuestion: null,
+  quizAnswerHash: null,
+  unlockAt: null,
+  viewLimit: null,
+  viewCount: 0,
+  expiresAt: null,
+  fileKey: null,
+  e2eEncrypted: false,
+  e2eMetadata: null,
+  burnAfterReading: true,
+  burnedAt: null,
+};
+
+const buildRequest = () =>
+  ({
+    params: { shortId: "abc12345" },
+    query: {},
+    get: jest.fn(),
+  }) as unknown as Request;
+
+describe("getZapByShortId - burn after reading", () => {
+  let mockResponse: any;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockResponse = {
+      status: jest.fn().mockReturnThis(),
+      json: jest.fn().mockReturnThis(),
+    };
+    (prisma.zap.findUnique as jest.Mock).mockResolvedValue(textZap);
+    (prisma.zap.updateMany as jest.Mock).mockResolvedValue({ count: 1 });
+    (prisma.zapVersion.findMany as jest.Mock).mockResolvedValue([]);
+  });
+
+  it("should return the content once and delete the Zap in the view transaction", async () => {
+    await getZapByShortId(buildRequest(), mockResponse);
+
+    const payload = mockResponse.json.mock.calls[0][0];
+    expect(payload.statusCode).toBe(200);
+    expect(payload.data.originalUrl).toBe("TEXT_CONTENT:ciphertext");
+    expect(prisma.zap.updateMany).toHaveBeenCalledWith({
+      where: { id: "cuid1", burnedAt: null },
+      data: expect.objectContaining({
+        viewCount: { increment: 1 },
+        burnedAt: expect.any(Date),
+        originalUrl: null,
+        cloudUrl: null,
+      }),
+    });
+    expect(prisma.zap.update).not.toHaveBeenCalled();
+    // Nothing is left to download, so only the tombstone remains
+    expect(deleteZapRows).toHaveBeenCalledWith(prisma, ["abc12345"], "BURNED");
+    expect(logAccess).not.toHaveBeenCalled();
+  });
+
+  it("should answer 410 when another viewer burned it first", async () => {
+    (prisma.zap.updateMany as jest.Mock).mockResolvedValue({ count: 0 });
+
+    await getZapByShortId(buildRequest(), mockResponse);
+
+    expect(mockResponse.status).toHaveBeenCalledWith(410);
+  });
+
+  it("should answer 410 for an already burned Zap", async () => {
+    (prisma.zap.findUnique as jest.Mock).mockResolvedValue({
+      ...textZap,
+      originalUrl: null,
+      viewCount: 1,
+      burnedAt: new Date(),
+    });
+
+    await getZapByShortId(buildRequest(), mockResponse);
+
+    expect(mockResponse.status).toHaveBeenCalledWith(410);
+    expect(prisma.$transaction).not.toHaveBeenCalled();
+    expect(logAccess).toHaveBeenCalledWith("cuid1", expect.anything(), "LIMIT_REACHED");
+  });
+
+  it("should keep only the current file for its download and delete older versions", async () => {
+    (prisma.zap.findUnique as jest.Mock).mockResolvedValue({
+      ...textZap,
+      type: "PDF",
+      originalUrl: null,
+      cloudUrl: "local://zaplink_folders/v2.pdf",
+    });
+    (prisma.zapVersion.findMany as jest.Mock).mockResolvedValue([
+      { cloudUrl: "local://zaplink_folders/v1.pdf" },
+      { cloudUrl: "local://zaplink_folders/v2.pdf" },
+    ]);
+
+    await getZapByShortId(buildRequest(), mockResponse);
+
+    const payload = mockResponse.json.mock.calls[0][0];
+    expect(payload.data.contentUrl).toContain("/api/zaps/abc12345/content?view=1");
+    expect(prisma.zapVersion.deleteMany).toHaveBeenCalledWith({ where: { zapId: "cuid1" } });
+    expect(deleteStoredObject).toHaveBeenCalledTimes(1);
+    expect(deleteStoredObject).toHaveBeenCalledWith("local://zaplink_folders/v1.pdf");
+    expect(deleteZapRows).not.toHaveBeenCalled();
+    expect(logAccess).toHaveBeenCalledWith("cuid1", expect.anything(), undefined);
+  });
+
+  it("should not treat a URL Zap's target as a stored file", async () => {
+    (prisma.zap.findUnique as jest.Mock).mockResolvedValue({
+      ...textZap,
+      type: "URL",
+      originalUrl: null,
+      cloudUrl: "local://zaplink_folders/someone-elses.pdf",
+    });
+
+    await getZapByShortId(buildRequest(), mockResponse);
+
+    const payload = mockResponse.json.mock.calls[0][0];
+    expect(payload.data.contentUrl).toBeNull();
+    expect(prisma.zap.updateMany).toHaveBeenCalledWith({
+      where: { id: "cuid1", burnedAt: null },
+      data: expect.objectContaining({ cloudUrl: null }),
+    });
+  });
+});
+
+describe("burnAfterReading.service - purgeBurnedContent", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it("should delete the file and the Zap only once across concurrent downloads", async () => {
+    (prisma.zap.updateMany as jest.Mock)
+      .mockResolvedValueOnce({ count: 1 })
+      .mockResolvedValueOnce({ count: 0 });
+    const burned = { id: "cuid1", shortId: "abc12345", cloudUrl: "local://zaplink_folders/v2.pdf" };
+
+    expect(await purgeBurnedContent(burned)).toBe(true);
+    expect(await purgeBurnedContent(burned)).toBe(false);
+    expect(deleteStoredObject).toHaveBeenCalledTimes(1);
+    expect(deleteZaps).toHaveBeenCalledTimes(1);
+    expect(deleteZaps).toHaveBeenCalledWith(["abc12345"], "BURNED");
+  });
+});
+
+describe("burnAfterReading.service - purgeBurnedZaps", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it("should delete burned Zaps once their content link has expired", async () => {
+    (prisma.zap.findMany as jest.Mock).mockResolvedValueOnce([
+      { id: "cuid1", shortId: "text1234", cloudUrl: null },
+      { id: "cuid2", shortId: "file1234", cloudUrl: "local://zaplink_folders/v2.pdf" },
+    ]);
+    (prisma.zap.updateMany as jest.Mock).mockResolvedValueOnce({ count: 1 });
+
+    expect(await purgeBurnedZaps()).toEqual({ filesPurged: 1, zapsDeleted: 2 });
+    const { where } = (prisma.zap.findMany as jest.Mock).mock.calls[0][0];
+    expect(where.burnedAt.lt.getTime()).toBeLessThan(Date.now());
+    expect(deleteZaps).toHaveBeenCalledWith(["file1234"], "BURNED");
+    expect(deleteZaps).toHaveBeenCalledWith(["text1234"], "BURNED");
+    expect(deleteStoredObject).toHaveBeenCalledWith("local://zaplink_folders/v2.pdf");
+  });
+});
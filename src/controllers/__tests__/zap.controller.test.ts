@@ -9,6 +9,20 @@ jest.mock("../../utils/prismClient", () => ({
       findUnique: jest.fn(),
       create: jest.fn(),
     },
+    webhookSubscription: {
+      findMany: jest.fn(() => Promise.resolve([])),
+    },
+    zapTombstone: {
+      findUnique: jest.fn(),
+    },
+    pendingUpload: {
+      create: jest.fn(() => Promise.resolve({ id: "pending1" })),
+      update: jest.fn(),
+      updateMany: jest.fn(() => Promise.resolve({ count: 1 })),
+      findUnique: jest.fn(),
+      delete: jest.fn(),
+    },
+    $transaction: jest.fn((callback: (tx: unknown) => unknown) => callback(prisma)),
   },
 }));
 
@@ -36,7 +50,9 @@ jest.mock("../../middlewares/cloudinary", () => ({
           end: jest.fn(),
         };
       }),
+      destroy: jest.fn().mockResolvedValue({ result: "ok" }),
     },
+    config: () => ({ cloud_name: "demo" }),
   },
 }));
 jest.mock("../../utils/encryption", () => ({
@@ -156,6 +172,26 @@ describe("createZap - Collision Detection Tests", () => {
       expect(mockResponse.status).toHaveBeenCalledWith(201);
     });
 
+    it("should never reissue the shortId of a deleted Zap", async () => {
+      (prisma.zap.findUnique as jest.Mock).mockResolvedValue(null);
+      (prisma.zapTombstone.findUnique as jest.Mock)
+        .mockResolvedValueOnce({ id: "tombstone1" }) // shortId was retired
+        .mockResolvedValueOnce(null); // shortId retry succeeds
+
+      (prisma.zap.create as jest.Mock).mockResolvedValue({
+        id: "cuid123",
+        shortId: "test02",
+        qrId: "test03",
+        type: "TEXT",
+        name: "Test Zap",
+      });
+
+      await createZap(mockRequest as Request, mockResponse);
+
+      expect(prisma.zapTombstone.findUnique).toHaveBeenCalledTimes(2);
+      expect(mockResponse.status).toHaveBeenCalledWith(201);
+    });
+
     it("should retry once when first qrId collides, then succeed", async () => {
       (prisma.zap.findUnique as jest.Mock)
         .mockResolvedValueOnce(null) // shortId succeeds
@@ -270,6 +306,30 @@ describe("createZap - Collision Detection Tests", () => {
       );
     });
 
+    it("should roll back the uploaded file when the Zap row cannot be created", async () => {
+      mockRequest.file = {
+        originalname: "test-image.jpg",
+        buffer: Buffer.from("fake-image-data"),
+      } as any;
+      mockRequest.body = { type: "image", name: "Test Image" };
+      (fileTypeFromBuffer as jest.Mock).mockResolvedValueOnce({ ext: "jpg", mime: "image/jpeg" });
+      (prisma.zap.findUnique as jest.Mock).mockResolvedValue(null);
+      (prisma.zap.create as jest.Mock).mockRejectedValueOnce(new Error("Database unavailable"));
+      (prisma.pendingUpload.findUnique as jest.Mock).mockResolvedValueOnce({
+        id: "pending1",
+        storageUrl: "https://res.cloudinary.com/demo/image/upload/v1/zaplink_folders/test-image.jpg",
+      });
+
+      await createZap(mockRequest as Request, mockResponse);
+
+      expect(mockResponse.status).toHaveBeenCalledWith(500);
+      expect(prisma.pendingUpload.updateMany).toHaveBeenCalledWith({
+        where: { id: "pending1", status: "PENDING" },
+        data: { status: "ROLLED_BACK" },
+      });
+      expect(prisma.pendingUpload.delete).toHaveBeenCalledWith({ where: { id: "pending1" } });
+    });
+
     it("should return 400 when no file, URL, or text content provided", async () => {
       mockRequest.body = {
         type: "text",
@@ -382,4 +442,59 @@ describe("createZap - Collision Detection Tests", () => {
       expect(createCall.data).toHaveProperty("passwordHash");
     });
   });
+
+  describe("End-to-end encrypted Zaps", () => {
+    beforeEach(() => {
+      (prisma.zap.findUnique as jest.Mock).mockResolvedValue(null);
+      (prisma.zap.create as jest.Mock).mockResolvedValue({ id: "cuid123" });
+    });
+
+    it("should store client ciphertext as-is without server-side encryption", async () => {
+      mockRequest.body = {
+        type: "text",
+        textContent: "q83vEjRWeJA=.c2VjcmV0LWNpcGhlcnRleHQ",
+        e2e: "true",
+        e2eMetadata: '{"alg":"AES-GCM"}',
+      };
+
+      await createZap(mockRequest as Request, mockResponse);
+
+      expect(mockResponse.status).toHaveBeenCalledWith(201);
+      const createCall = (prisma.zap.create as jest.Mock).mock.calls[0][0];
+      expect(createCall.data).toMatchObject({
+        originalUrl: "E2E_CONTENT:q83vEjRWeJA=.c2VjcmV0LWNpcGhlcnRleHQ",
+        e2eEncrypted: true,
+        e2eMetadata: '{"alg":"AES-GCM"}',
+      });
+    });
+
+    it("should reject E2E text that is not ciphertext", async () => {
+      mockRequest.body = {
+        type: "text",
+        textContent: "plain text with spaces",
+        e2e: "true",
+      };
+
+      await createZap(mockRequest as Request, mockResponse);
+
+      expect(mockResponse.status).toHaveBeenCalledWith(400);
+      expect(prisma.zap.create).not.toHaveBeenCalled();
+    });
+
+    it("should skip MIME sniffing for E2E files", async () => {
+      mockRequest.file = {
+        originalname: "secret.pdf.enc",
+        mimetype: "application/octet-stream",
+        buffer: Buffer.from("opaque-ciphertext"),
+        size: 17,
+      } as any;
+      mockRequest.body = { type: "pdf", e2e: "true" };
+
+      await createZap(mockRequest as Request, mockResponse);
+
+      expect(fileTypeFromBuffer).not.toHaveBeenCalled();
+      expect(mockResponse.status).toHaveBeenCalledWith(201);
+      expect((prisma.zap.create as jest.Mock).mock.calls[0][0].data.e2eEncrypted).toBe(true);
+    });
+  });
 });
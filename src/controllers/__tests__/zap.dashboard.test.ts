@@ -0,0 +1,144 @@
+import { Request } from "express";
+import prisma from "../../utils/prismClient";
+
+jest.mock("../../utils/prismClient", () => ({
+  __esModule: true,
+  default: {
+    zap: {
+      findMany: jest.fn(),
+      count: jest.fn(),
+      fields: { viewLimit: "viewLimitFieldRef" },
+    },
+  },
+}));
+jest.mock("../../middlewares/cloudinary", () => ({
+  __esModule: true,
+  default: { uploader: {}, config: () => ({ cloud_name: "demo" }) },
+}));
+jest.mock("../../services/analytics.service", () => ({
+  __esModule: true,
+  logAccess: jest.fn(),
+}));
+
+// Import after mocks
+import { listMyZaps } from "../zap.controller";
+
+const buildZap = (overrides: Record<string, any> = {}) => ({
+  id: "cuid1",
+  shortId: "abc12345",
+  qrId: "qr123456",
+  type: "PDF",
+  name: "Report",
+  cloudUrl: "https://cloudinary.com/report.pdf",
+  originalUrl: null,
+  passwordHash: "$2b$10$hash",
+  viewLimit: null,
+  viewCount: 0,
+  expiresAt: null,
+  quizQuestion: null,
+  quizAnswerHash: "$2b$10$quiz",
+  unlockAt: null,
+  deletionToken: "secret-token",
+  ownerId: "user_1",
+  createdAt: new Date(),
+  updatedAt: new Date(),
+  ...overrides,
+});
+
+describe("listMyZaps - dashboard listing", () => {
+  let mockResponse: any;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockResponse = {
+      status: jest.fn().mockReturnThis(),
+      json: jest.fn().mockReturnThis(),
+    };
+  });
+
+  it("should return 401 when the request is not authenticated", async () => {
+    await listMyZaps({ query: {} } as Request, mockResponse);
+
+    expect(mockResponse.status).toHaveBeenCalledWith(401);
+    expect(prisma.zap.findMany).not.toHaveBeenCalled();
+  });
+
+  it("should list only the caller's Zaps without secrets", async () => {
+    (prisma.zap.findMany as jest.Mock).mockResolvedValue([
+      buildZap(),
+      buildZap({ id: "cuid2", viewLimit: 1, viewCount: 1 }),
+      buildZap({ id: "cuid3", expiresAt: new Date(Date.now() - 1000) }),
+    ]);
+    (prisma.zap.count as jest.Mock).mockResolvedValue(3);
+
+    await listMyZaps(
+      { query: {}, user: { id: "user_1" } } as unknown as Request,
+      mockResponse
+    );
+
+    const findCall = (prisma.zap.findMany as jest.Mock).mock.calls[0][0];
+    expect(findCall.where).toEqual({ ownerId: "user_1" });
+    expect(findCall.take).toBe(20);
+    expect(findCall.skip).toBe(0);
+
+    const body = mockResponse.json.mock.calls[0][0];
+    expect(body.success).toBe(true);
+    expect(body.data.pagination).toEqual({ page: 1, limit: 20, total: 3, totalPages: 1 });
+    expect(body.data.zaps.map((zap: any) => zap.status)).toEqual([
+      "active",
+      "exhausted",
+      "expired",
+    ]);
+    for (const zap of body.data.zaps) {
+      expect(zap).not.toHaveProperty("passwordHash");
+      expect(zap).not.toHaveProperty("quizAnswerHash");
+      expect(zap).not.toHaveProperty("deletionToken");
+    }
+  });
+
+  it("should apply type, status, search, sort and pagination filters", async () => {
+    (prisma.zap.findMany as jest.Mock).mockResolvedValue([]);
+    (prisma.zap.count as jest.Mock).mockResolvedValue(45);
+
+    await listMyZaps(
+      {
+        query: {
+          page: "3",
+          limit: "10",
+          type: "PDF",
+          status: "exhausted",
+          search: "report",
+          sortBy: "viewCount",
+          order: "asc",
+        },
+        user: { id: "user_1" },
+      } as unknown as Request,
+      mockResponse
+    );
+
+    const findCall = (prisma.zap.findMany as jest.Mock).mock.calls[0][0];
+    expect(findCall.where).toEqual({
+      ownerId: "user_1",
+      AND: [
+        { type: "PDF" },
+        {
+          AND: [
+            // Expired Zaps are reported as expired, not exhausted
+            { OR: [{ expiresAt: null }, { expiresAt: { gte: expect.any(Date) } }] },
+            {
+              viewLimit: { not: null },
+              viewCount: { gte: "viewLimitFieldRef" },
+            },
+          ],
+        },
+        { name: { contains: "report", mode: "insensitive" } },
+      ],
+    });
+    expect(findCall.orderBy).toEqual([{ viewCount: "asc" }, { id: "asc" }]);
+    expect(findCall.skip).toBe(20);
+    expect(findCall.take).toBe(10);
+
+    const body = mockResponse.json.mock.calls[0][0];
+    expect(body.data.pagination.totalPages).toBe(5);
+  });
+});
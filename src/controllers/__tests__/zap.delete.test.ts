@@ -0,0 +1,200 @@
+import { Request } from "express";
+import prisma from "../../utils/prismClient";
+import { deleteFromCloudinary } from "../../utils/cloudinaryHelper";
+
+jest.mock("../../utils/prismClient", () => ({
+  __esModule: true,
+  default: {
+    $transaction: jest.fn((callback: (tx: unknown) => unknown) => callback(prisma)),
+    zap: {
+      findUnique: jest.fn(),
+      findMany: jest.fn(),
+      deleteMany: jest.fn(),
+    },
+    webhookSubscription: {
+      findMany: jest.fn(() => Promise.resolve([])),
+    },
+    zapTombstone: {
+      createMany: jest.fn(),
+    },
+  },
+}));
+jest.mock("../../middlewares/cloudinary", () => ({
+  __esModule: true,
+  default: { uploader: {}, config: () => ({ cloud_name: "demo" }) },
+}));
+jest.mock("../../utils/cloudinaryHelper", () => ({
+  __esModule: true,
+  deleteFromCloudinary: jest.fn(),
+}));
+jest.mock("../../services/analytics.service", () => ({
+  __esModule: true,
+  logAccess: jest.fn(),
+}));
+
+// Import after mocks
+import { deleteZap } from "../zap.controller";
+
+const buildRequest = (token?: string, userId?: string) =>
+  ({
+    params: { shortId: "abc12345" },
+    user: userId ? { id: userId } : undefined,
+    get: jest.fn((header: string) =>
+      header.toLowerCase() === "x-deletion-token" ? token : undefined
+    ),
+  }) as unknown as Request;
+
+describe("deleteZap - deletion by token", () => {
+  let mockResponse: any;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockResponse = {
+      status: jest.fn().mockReturnThis(),
+      json: jest.fn().mockReturnThis(),
+    };
+    (prisma.zap.findMany as jest.Mock).mockResolvedValue([
+      { id: "cuid1", shortId: "abc12345", expiresAt: null, burnedAt: null, cloudUrl: null, versions: [] },
+    ]);
+  });
+
+  it("should return 401 when no token header is sent", async () => {
+    await deleteZap(buildRequest(), mockResponse);
+
+    expect(mockResponse.status).toHaveBeenCalledWith(401);
+    expect(prisma.zap.findUnique).not.toHaveBeenCalled();
+  });
+
+  it("should return 404 when the Zap does not exist", async () => {
+    (prisma.zap.findUnique as jest.Mock).mockResolvedValue(null);
+
+    await deleteZap(buildRequest("token123"), mockResponse);
+
+    expect(mockResponse.status).toHaveBeenCalledWith(404);
+    expect(prisma.zap.deleteMany).not.toHaveBeenCalled();
+  });
+
+  it("should return 403 for a wrong token", async () => {
+    (prisma.zap.findUnique as jest.Mock).mockResolvedValue({
+      id: "cuid1",
+      deletionToken: "token123",
+      cloudUrl: null,
+    });
+
+    await deleteZap(buildRequest("wrong999"), mockResponse);
+
+    expect(mockResponse.status).toHaveBeenCalledWith(403);
+    expect(prisma.zap.deleteMany).not.toHaveBeenCalled();
+  });
+
+  it("should delete the row and the Cloudinary asset for a valid token", async () => {
+    const cloudUrl =
+      "https://res.cloudinary.com/demo/raw/upload/v123/zaplink_folders/report.pdf";
+    (prisma.zap.findUnique as jest.Mock).mockResolvedValue({
+      id: "cuid1",
+      deletionToken: "token123",
+      cloudUrl,
+    });
+    (prisma.zap.findMany as jest.Mock).mockResolvedValue([
+      { id: "cuid1", shortId: "abc12345", expiresAt: null, burnedAt: null, cloudUrl, versions: [] },
+    ]);
+
+    await deleteZap(buildRequest("token123"), mockResponse);
+
+    expect(prisma.zap.deleteMany).toHaveBeenCalledWith({ where: { id: { in: ["cuid1"] } } });
+    expect(deleteFromCloudinary).toHaveBeenCalledWith(cloudUrl);
+    expect(mockResponse.json).toHaveBeenCalledWith(
+      expect.objectContaining({ success: true, statusCode: 200 })
+    );
+  });
+
+  it("should let the authenticated owner delete without a token", async () => {
+    (prisma.zap.findUnique as jest.Mock).mockResolvedValue({
+      id: "cuid1",
+      deletionToken: "token123",
+      ownerId: "user_1",
+      cloudUrl: null,
+    });
+
+    await deleteZap(buildRequest(undefined, "user_1"), mockResponse);
+
+    expect(prisma.zap.deleteMany).toHaveBeenCalledWith({ where: { id: { in: ["cuid1"] } } });
+  });
+
+  it("should return 403 for a signed-in user who does not own the Zap", async () => {
+    (prisma.zap.findUnique as jest.Mock).mockResolvedValue({
+      id: "cuid1",
+      deletionToken: "token123",
+      ownerId: "user_1",
+      cloudUrl: null,
+    });
+
+    await deleteZap(buildRequest(undefined, "user_2"), mockResponse);
+
+    expect(mockResponse.status).toHaveBeenCalledWith(403);
+    expect(prisma.zap.deleteMany).not.toHaveBeenCalled();
+  });
+
+  it("should not touch Cloudinary for URL Zaps", async () => {
+    (prisma.zap.findUnique as jest.Mock).mockResolvedValue({
+      id: "cuid1",
+      deletionToken: "token123",
+      cloudUrl: "https://example.com",
+    });
+    (prisma.zap.findMany as jest.Mock).mockResolvedValue([
+      {
+        id: "cuid1",
+        shortId: "abc12345",
+        expiresAt: null,
+        burnedAt: null,
+        cloudUrl: "https://example.com",
+        versions: [],
+      },
+    ]);
+
+    await deleteZap(buildRequest("token123"), mockResponse);
+
+    expect(prisma.zap.deleteMany).toHaveBeenCalled();
+    expect(deleteFromCloudinary).not.toHaveBeenCalled();
+  });
+
+  it("should not delete a Cloudinary asset a URL Zap links to", async () => {
+    const target = "https://res.cloudinary.com/demo/raw/upload/v1/zaplink_folders/someone-elses.pdf";
+    (prisma.zap.findUnique as jest.Mock).mockResolvedValue({
+      id: "cuid1",
+      deletionToken: "token123",
+      cloudUrl: target,
+    });
+    (prisma.zap.findMany as jest.Mock).mockResolvedValue([
+      {
+        id: "cuid1",
+        shortId: "abc12345",
+        type: "URL",
+        expiresAt: null,
+        burnedAt: null,
+        cloudUrl: target,
+        versions: [{ cloudUrl: target }],
+      },
+    ]);
+
+    await deleteZap(buildRequest("token123"), mockResponse);
+
+    expect(prisma.zap.deleteMany).toHaveBeenCalled();
+    expect(deleteFromCloudinary).not.toHaveBeenCalled();
+  });
+
+  it("should leave a tombstone so the link answers 410", async () => {
+    (prisma.zap.findUnique as jest.Mock).mockResolvedValue({
+      id: "cuid1",
+      deletionToken: "token123",
+      cloudUrl: null,
+    });
+
+    await deleteZap(buildRequest("token123"), mockResponse);
+
+    expect(prisma.zapTombstone.createMany).toHaveBeenCalledWith({
+      data: [{ shortId: "abc12345", reason: "DELETED", expiresAt: null }],
+      skipDuplicates: true,
+    });
+  });
+});
@@ -0,0 +1,205 @@
+import { Request } from "express";
+import prisma from "../../utils/prismClient";
+
+jest.mock("../../utils/prismClient", () => ({
+  __esModule: true,
+  default: {
+    zap: {
+      findUnique: jest.fn(),
+      update: jest.fn((args) => ({ op: "update", args })),
+    },
+    zapAuditLog: {
+      create: jest.fn((args) => ({ op: "audit", args })),
+    },
+    $transaction: jest.fn(),
+  },
+}));
+jest.mock("bcrypt", () => ({
+  __esModule: true,
+  default: {
+    hash: jest.fn(() => Promise.resolve("$2b$10$newhash")),
+  },
+}));
+jest.mock("../../middlewares/cloudinary", () => ({
+  __esModule: true,
+  default: { uploader: {}, config: () => ({ cloud_name: "demo" }) },
+}));
+jest.mock("../../services/analytics.service", () => ({
+  __esModule: true,
+  logAccess: jest.fn(),
+}));
+jest.mock("../../utils/accessControl", () => ({
+  ...jest.requireActual("../../utils/accessControl"),
+  hashQuizAnswer: jest.fn((answer) => Promise.resolve(`hashed_${answer}`)),
+}));
+
+// Import after mocks
+import { updateZap } from "../zap.controller";
+
+const existingZap = {
+  id: "cuid1",
+  shortId: "abc12345",
+  name: "Report",
+  passwordHash: "$2b$10$oldhash",
+  viewLimit: 5,
+  viewCount: 2,
+  expiresAt: null,
+  quizQuestion: "Favourite colour?",
+  quizAnswerHash: "$2b$10$quiz",
+  deletionToken: "token123",
+  ownerId: "user_1",
+};
+
+const buildRequest = (
+  body: Record<string, unknown>,
+  { token, userId }: { token?: string; userId?: string } = {}
+) =>
+  ({
+    params: { shortId: "abc12345" },
+    body,
+    user: userId ? { id: userId } : undefined,
+    get: jest.fn((header: string) =>
+      header.toLowerCase() === "x-deletion-token" ? token : undefined
+    ),
+  }) as unknown as Request;
+
+describe("updateZap - editing Zap settings", () => {
+  let mockResponse: any;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockResponse = {
+      status: jest.fn().mockReturnThis(),
+      json: jest.fn().mockReturnThis(),
+    };
+    (prisma.zap.findUnique as jest.Mock).mockResolvedValue(existingZap);
+    (prisma.$transaction as jest.Mock).mockImplementation(async (ops: any[]) => [
+      { ...existingZap, ...ops[0].args.data },
+      { id: "audit1" },
+    ]);
+  });
+
+  it("should return 401 without a token or session", async () => {
+    await updateZap(buildRequest({ viewLimit: 10 }), mockResponse);
+
+    expect(mockResponse.status).toHaveBeenCalledWith(401);
+    expect(prisma.zap.findUnique).not.toHaveBeenCalled();
+  });
+
+  it("should return 403 for a different user without a token", async () => {
+    await updateZap(
+      buildRequest({ viewLimit: 10 }, { userId: "user_2" }),
+      mockResponse
+    );
+
+    expect(mockResponse.status).toHaveBeenCalledWith(403);
+    expect(prisma.$transaction).not.toHaveBeenCalled();
+  });
+
+  it("should let the deletion token holder extend expiry and clear the view limit", async () => {
+    const expiresAt = new Date(Date.now() + 86_400_000).toISOString();
+
+    await updateZap(
+      buildRequest({ expiresAt, viewLimit: null }, { token: "token123" }),
+      mockResponse
+    );
+
+    expect(prisma.zap.update).toHaveBeenCalledWith({
+      where: { id: "cuid1" },
+      data: { expiresAt: new Date(expiresAt), viewLimit: null },
+    });
+    expect(prisma.zapAuditLog.create).toHaveBeenCalledWith({
+      data: {
+        zapId: "cuid1",
+        action: "update",
+        actorType: "deletion_token",
+        actorId: null,
+        changes: {
+          expiresAt: { from: null, to: expiresAt },
+          viewLimit: { from: 5, to: null },
+        },
+      },
+    });
+
+    const body = mockResponse.json.mock.calls[0][0];
+    expect(body.statusCode).toBe(200);
+    expect(body.data).not.toHaveProperty("passwordHash");
+    expect(body.data).not.toHaveProperty("deletionToken");
+  });
+
+  it("should re-hash a new password and never log it", async () => {
+    await updateZap(
+      buildRequest({ password: "N3w!Password" }, { userId: "user_1" }),
+      mockResponse
+    );
+
+    const updateArgs = (prisma.zap.update as jest.Mock).mock.calls[0][0];
+    expect(updateArgs.data.passwordHash).toBe("$2b$10$newhash");
+
+    const auditArgs = (prisma.zapAuditLog.create as jest.Mock).mock.calls[0][0];
+    expect(auditArgs.data.actorType).toBe("owner");
+    expect(auditArgs.data.actorId).toBe("user_1");
+    expect(auditArgs.data.changes.password).toEqual({ from: "set", to: "set" });
+    expect(JSON.stringify(auditArgs.data.changes)).not.toContain("N3w!Password");
+  });
+
+  it("should reject a weak replacement password", async () => {
+    await updateZap(
+      buildRequest({ password: "weak" }, { token: "token123" }),
+      mockResponse
+    );
+
+    expect(mockResponse.status).toHaveBeenCalledWith(400);
+    expect(prisma.$transaction).not.toHaveBeenCalled();
+  });
+
+  it("should swap only the quiz answer while keeping the question", async () => {
+    await updateZap(
+      buildRequest({ quizAnswer: "blue" }, { token: "token123" }),
+      mockResponse
+    );
+
+    const updateArgs = (prisma.zap.update as jest.Mock).mock.calls[0][0];
+    expect(updateArgs.data).toEqual({
+      quizQuestion: "Favourite colour?",
+      quizAnswerHash: "hashed_blue",
+    });
+  });
+
+  it("should remove the quiz when quizQuestion is null", async () => {
+    await updateZap(
+      buildRequest({ quizQuestion: null }, { token: "token123" }),
+      mockResponse
+    );
+
+    const updateArgs = (prisma.zap.update as jest.Mock).mock.calls[0][0];
+    expect(updateArgs.data).toEqual({ quizQuestion: null, quizAnswerHash: null });
+  });
+
+  it("should return 410 for a Zap burned after reading", async () => {
+    (prisma.zap.findUnique as jest.Mock).mockResolvedValue({
+      ...existingZap,
+      burnAfterReading: true,
+      burnedAt: new Date(),
+    });
+
+    await updateZap(buildRequest({ name: "Renamed" }, { token: "token123" }), mockResponse);
+
+    expect(mockResponse.status).toHaveBeenCalledWith(410);
+    expect(prisma.$transaction).not.toHaveBeenCalled();
+  });
+
+  it("should reject a view limit on a burn-after-reading Zap", async () => {
+    (prisma.zap.findUnique as jest.Mock).mockResolvedValue({
+      ...existingZap,
+      viewLimit: null,
+      burnAfterReading: true,
+      burnedAt: null,
+    });
+
+    await updateZap(buildRequest({ viewLimit: 3 }, { token: "token123" }), mockResponse);
+
+    expect(mockResponse.status).toHaveBeenCalledWith(400);
+    expect(prisma.$transaction).not.toHaveBeenCalled();
+  });
+});
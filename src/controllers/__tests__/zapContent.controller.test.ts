@@ -0,0 +1,211 @@
+import { Request } from "express";
+import { PassThrough, Readable } from "stream";
+import prisma from "../../utils/prismClient";
+
+const fileContents = Buffer.from("0123456789abcdefghij");
+
+jest.mock("../../utils/prismClient", () => ({
+  __esModule: true,
+  default: {
+    zap: { findUnique: jest.fn() },
+  },
+}));
+jest.mock("../../services/storage", () => ({
+  __esModule: true,
+  getZapFileUrl: jest.fn((zap: { type: string; cloudUrl: string | null }) =>
+    zap.type !== "URL" && zap.cloudUrl?.startsWith("local://") ? zap.cloudUrl : null
+  ),
+  getStorageForUrl: jest.fn((url: string | null) =>
+    url?.startsWith("local://")
+      ? {
+          name: "local",
+          stream: jest.fn((_url: string, range?: { start: number; end?: number }) =>
+            Promise.resolve({
+              stream: Readable.from([
+                range
+                  ? fileContents.subarray(range.start, (range.end ?? fileContents.length - 1) + 1)
+                  : fileContents,
+              ]),
+              size: fileContents.length,
+            })
+          ),
+        }
+      : null
+  ),
+}));
+
+process.env.URL_SIGNING_SECRET = "test-url-signing-secret";
+
+// Import after mocks
+import { getZapContent } from "../zapContent.controller";
+import { requireSignedContentUrl } from "../../middlewares/signedContent.middleware";
+import { buildSignedContentUrl } from "../../utils/contentLink";
+
+const fileZap = {
+  id: "cuid1",
+  shortId: "abc12345",
+  type: "PDF",
+  name: "Quarterly report",
+  cloudUrl: "local://zaplink_folders/1-abc.pdf",
+  viewCount: 1,
+  viewLimit: 2,
+  expiresAt: null,
+  currentVersion: 1,
+  versions: [{ version: 1, fileName: "report €.pdf", size: fileContents.length }],
+};
+
+const buildRequest = (range?: string, zap: any = fileZap) =>
+  ({
+    method: "GET",
+    params: { shortId: "abc12345" },
+    query: {},
+    zap,
+    get: jest.fn((header: string) => (header.toLowerCase() === "range" ? range : undefined)),
+  }) as unknown as Request;
+
+// Query params of a freshly issued link for the given view
+const signedQuery = (view = fileZap.viewCount) => {
+  const url = new URL(buildSignedContentUrl({ ...fileZap, viewCount: view }));
+  return Object.fromEntries(url.searchParams.entries());
+};
+
+const buildResponse = () => {
+  const res: any = new PassThrough();
+  const chunks: Buffer[] = [];
+  res.on("data", (chunk: Buffer) => chunks.push(chunk));
+  res.headers = {} as Record<string, string>;
+  res.statusCode = 200;
+  res.status = jest.fn((code: number) => {
+    res.statusCode = code;
+    return res;
+  });
+  res.set = jest.fn((name: string, value: string) => {
+    res.headers[name.toLowerCase()] = value;
+    return res;
+  });
+  res.type = jest.fn((type: string) => res.set("Content-Type", type));
+  res.json = jest.fn(() => res);
+  res.body = () => Buffer.concat(chunks).toString();
+  return res;
+};
+
+describe("zapContent.controller - streaming download proxy", () => {
+  it("should stream the whole file inline with its stored name", async () => {
+    const res = buildResponse();
+
+    await getZapContent(buildRequest(), res);
+
+    expect(res.statusCode).toBe(200);
+    expect(res.body()).toBe(fileContents.toString());
+    expect(res.headers["content-length"]).toBe("20");
+    expect(res.headers["accept-ranges"]).toBe("bytes");
+    expect(res.type).toHaveBeenCalledWith("pdf");
+    expect(res.headers["content-disposition"]).toBe(
+      "inline; filename=\"report _.pdf\"; filename*=UTF-8''report%20%E2%82%AC.pdf"
+    );
+  });
+
+  it("should answer a Range request with 206", async () => {
+    const res = buildResponse();
+
+    await getZapContent(buildRequest("bytes=10-14"), res);
+
+    expect(res.statusCode).toBe(206);
+    expect(res.body()).toBe("abcde");
+    expect(res.headers["content-range"]).toBe("bytes 10-14/20");
+    expect(res.headers["content-length"]).toBe("5");
+  });
+
+  it("should reject a range beyond the end of the file with 416", async () => {
+    const res = buildResponse();
+
+    await getZapContent(buildRequest("bytes=50-"), res);
+
+    expect(res.statusCode).toBe(416);
+    expect(res.headers["content-range"]).toBe("bytes */20");
+  });
+
+  it("should refuse URL Zaps", async () => {
+    const res = buildResponse();
+
+    await getZapContent(
+      buildRequest(undefined, { ...fileZap, type: "URL", cloudUrl: "https://example.com" }),
+      res
+    );
+
+    expect(res.statusCode).toBe(400);
+
+    // Even when the target looks like one of our stored objects
+    const proxied = buildResponse();
+    await getZapContent(
+      buildRequest(undefined, { ...fileZap, type: "URL", cloudUrl: "local://zaplink_folders/other.pdf" }),
+      proxied
+    );
+    expect(proxied.statusCode).toBe(400);
+  });
+});
+
+describe("signedContent.middleware - requireSignedContentUrl", () => {
+  const run = async (query: Record<string, string>) => {
+    const req = { params: { shortId: "abc12345" }, query } as unknown as Request;
+    const res = buildResponse();
+    const next = jest.fn();
+    await requireSignedContentUrl(req, res, next);
+    return { req, res, next };
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (prisma.zap.findUnique as jest.Mock).mockResolvedValue(fileZap);
+  });
+
+  it("should accept a freshly issued link and attach the Zap", async () => {
+    const { req, next } = await run(signedQuery());
+
+    expect(next).toHaveBeenCalled();
+    expect((req as any).zap).toBe(fileZap);
+  });
+
+  it("should require the signed link parameters", async () => {
+    const { res, next } = await run({});
+
+    expect(res.statusCode).toBe(401);
+    expect(next).not.toHaveBeenCalled();
+  });
+
+  it("should reject a tampered or expired link", async () => {
+    const tampered = await run({ ...signedQuery(), view: "0" });
+    expect(tampered.res.statusCode).toBe(403);
+
+    const expired = await run({ ...signedQuery(), expires: "1" });
+    expect(expired.res.statusCode).toBe(403);
+  });
+
+  it("should reject links for a Zap that was deleted and recreated", async () => {
+    (prisma.zap.findUnique as jest.Mock).mockResolvedValue({ ...fileZap, id: "cuid2" });
+
+    const { res } = await run(signedQuery());
+
+    expect(res.statusCode).toBe(403);
+  });
+
+  it("should stop older links once the view limit is used up", async () => {
+    const olderLink = signedQuery(1);
+    const lastLink = signedQuery(2);
+    (prisma.zap.findUnique as jest.Mock).mockResolvedValue({ ...fileZap, viewCount: 2 });
+
+    expect((await run(olderLink)).res.statusCode).toBe(410);
+    expect((await run(lastLink)).next).toHaveBeenCalled();
+  });
+
+  it("should stop links once the Zap has expired", async () => {
+    (prisma.zap.findUnique as jest.Mock).mockResolvedValue({
+      ...fileZap,
+      expiresAt: new Date(Date.now() - 1000),
+    });
+
+    const { res } = await run(signedQuery());
+
+    expect(res.statusCode).toBe(410);
+  });
+});
@@ -0,0 +1,206 @@
+import crypto from "crypto";
+import { Request } from "express";
+import { Readable } from "stream";
+import prisma from "../../utils/prismClient";
+import { uploadToCloudinary } from "../../utils/cloudinaryHelper";
+import { fromBuffer as fileTypeFromBuffer } from "file-type";
+
+jest.mock("../../utils/prismClient", () => {
+  const tx = {
+    zapVersion: { findFirst: jest.fn(), create: jest.fn() },
+    zap: { update: jest.fn() },
+    zapAuditLog: { create: jest.fn() },
+    pendingUpload: { updateMany: jest.fn(() => Promise.resolve({ count: 1 })) },
+  };
+  return {
+    __esModule: true,
+    default: {
+      zap: { findUnique: jest.fn(), update: jest.fn() },
+      zapVersion: { findUnique: jest.fn(), findMany: jest.fn() },
+      zapAuditLog: { create: jest.fn() },
+      pendingUpload: {
+        create: jest.fn(() => Promise.resolve({ id: "pending1" })),
+        update: jest.fn(),
+      },
+      $transaction: jest.fn((arg) =>
+        typeof arg === "function" ? arg(tx) : Promise.all(arg)
+      ),
+      __tx: tx,
+    },
+  };
+});
+jest.mock("../../middlewares/cloudinary", () => ({
+  __esModule: true,
+  default: { uploader: {}, config: () => ({ cloud_name: "demo" }) },
+}));
+jest.mock("../../utils/cloudinaryHelper", () => ({
+  __esModule: true,
+  uploadToCloudinary: jest.fn(() =>
+    Promise.resolve({ secure_url: "https://res.cloudinary.com/demo/raw/upload/v2/zaplink_folders/report-v2.pdf" })
+  ),
+  deleteFromCloudinary: jest.fn(),
+}));
+// The file of a Zap created before versioning, read to checksum version 1
+jest.mock("../../services/storage", () => ({
+  ...jest.requireActual("../../services/storage"),
+  getStorageForUrl: jest.fn(() => ({
+    stream: jest.fn(() => Promise.resolve({ stream: Readable.from([Buffer.from("%PDF-1.7 legacy")]) })),
+  })),
+}));
+jest.mock("../../services/analytics.service", () => ({
+  __esModule: true,
+  logAccess: jest.fn(),
+}));
+
+// Import after mocks
+import { listZapVersions, uploadZapVersion, restoreZapVersion } from "../zapVersion.controller";
+
+const tx = (prisma as any).__tx;
+
+const existingZap = {
+  id: "cuid1",
+  shortId: "abc12345",
+  type: "PDF",
+  name: "report.pdf",
+  cloudUrl: "https://res.cloudinary.com/demo/raw/upload/v1/zaplink_folders/report.pdf",
+  originalUrl: null,
+  deletionToken: "token123",
+  ownerId: null,
+  currentVersion: null,
+};
+
+const buildRequest = (overrides: Record<string, unknown> = {}) =>
+  ({
+    params: { shortId: "abc12345" },
+    file: {
+      originalname: "report.pdf",
+      buffer: Buffer.from("%PDF-1.7 new revision"),
+      size: 21,
+    },
+    get: jest.fn((header: string) =>
+      header.toLowerCase() === "x-deletion-token" ? "token123" : undefined
+    ),
+    ...overrides,
+  }) as unknown as Request;
+
+describe("zapVersion.controller - content versioning", () => {
+  let mockResponse: any;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockResponse = {
+      status: jest.fn().mockReturnThis(),
+      json: jest.fn().mockReturnThis(),
+    };
+    (prisma.zap.findUnique as jest.Mock).mockResolvedValue(existingZap);
+    (fileTypeFromBuffer as jest.Mock).mockResolvedValue({ ext: "pdf", mime: "application/pdf" });
+    tx.zapVersion.create.mockImplementation(({ data }: any) =>
+      Promise.resolve({ ...data, createdAt: new Date() })
+    );
+  });
+
+  it("should record the legacy file as version 1 before adding version 2", async () => {
+    tx.zapVersion.findFirst.mockResolvedValue(null);
+
+    await uploadZapVersion(buildRequest(), mockResponse);
+
+    expect(tx.zapVersion.create).toHaveBeenNthCalledWith(1, {
+      data: expect.objectContaining({
+        version: 1,
+        cloudUrl: existingZap.cloudUrl,
+        checksum: crypto.createHash("sha256").update("%PDF-1.7 legacy").digest("hex"),
+        size: 15,
+      }),
+    });
+    expect(tx.zapVersion.create).toHaveBeenNthCalledWith(2, {
+      data: expect.objectContaining({
+        version: 2,
+        checksum: expect.stringMatching(/^[a-f0-9]{64}$/),
+      }),
+    });
+    expect(tx.zap.update).toHaveBeenCalledWith({
+      where: { id: "cuid1" },
+      data: expect.objectContaining({ currentVersion: 2 }),
+    });
+    expect(mockResponse.status).toHaveBeenCalledWith(201);
+  });
+
+  it("should reject a spoofed file before uploading it", async () => {
+    (fileTypeFromBuffer as jest.Mock).mockResolvedValue({ ext: "exe", mime: "application/x-msdownload" });
+
+    await uploadZapVersion(buildRequest(), mockResponse);
+
+    expect(mockResponse.status).toHaveBeenCalledWith(400);
+    expect(uploadToCloudinary).not.toHaveBeenCalled();
+  });
+
+  it("should refuse to version URL Zaps", async () => {
+    (prisma.zap.findUnique as jest.Mock).mockResolvedValue({
+      ...existingZap,
+      type: "URL",
+      cloudUrl: "https://example.com",
+    });
+
+    await uploadZapVersion(buildRequest(), mockResponse);
+
+    expect(mockResponse.status).toHaveBeenCalledWith(400);
+    expect(uploadToCloudinary).not.toHaveBeenCalled();
+  });
+
+  it("should refuse new versions and restores for a burned Zap", async () => {
+    (prisma.zap.findUnique as jest.Mock).mockResolvedValue({ ...existingZap, burnedAt: new Date() });
+
+    await uploadZapVersion(buildRequest(), mockResponse);
+    await restoreZapVersion(
+      buildRequest({ params: { shortId: "abc12345", version: "1" } }),
+      mockResponse
+    );
+
+    expect(mockResponse.status).toHaveBeenNthCalledWith(1, 410);
+    expect(mockResponse.status).toHaveBeenNthCalledWith(2, 410);
+    expect(uploadToCloudinary).not.toHaveBeenCalled();
+    expect(prisma.zap.update).not.toHaveBeenCalled();
+  });
+
+  it("should list versions without their storage URLs", async () => {
+    (prisma.zapVersion.findMany as jest.Mock).mockResolvedValue([
+      {
+        version: 1,
+        cloudUrl: existingZap.cloudUrl,
+        checksum: null,
+        fileName: "report.pdf",
+        size: null,
+        createdAt: new Date(),
+      },
+    ]);
+
+    await listZapVersions(buildRequest(), mockResponse);
+
+    const { versions } = mockResponse.json.mock.calls[0][0].data;
+    expect(versions).toHaveLength(1);
+    expect(versions[0]).not.toHaveProperty("cloudUrl");
+  });
+
+  it("should restore an older version as current", async () => {
+    (prisma.zapVersion.findUnique as jest.Mock).mockResolvedValue({
+      version: 1,
+      cloudUrl: existingZap.cloudUrl,
+      originalUrl: null,
+      checksum: "abc",
+      createdAt: new Date(),
+    });
+
+    await restoreZapVersion(
+      buildRequest({ params: { shortId: "abc12345", version: "1" } }),
+      mockResponse
+    );
+
+    expect(prisma.zap.update).toHaveBeenCalledWith({
+      where: { id: "cuid1" },
+      data: { cloudUrl: existingZap.cloudUrl, originalUrl: null, currentVersion: 1 },
+    });
+    expect(mockResponse.json).toHaveBeenCalledWith(
+      expect.objectContaining({ success: true, message: "Version restored." })
+    );
+  });
+});
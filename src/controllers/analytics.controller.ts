@@ -1,8 +1,96 @@
 import { Request, Response } from "express";
+import { Readable } from "stream";
+import { pipeline } from "stream/promises";
 import prisma from "../utils/prismClient";
 import { ApiError } from "../utils/ApiError";
 import { ApiResponse } from "../utils/ApiResponse";
+import { AnalyticsGranularity } from "@prisma/client";
 import { getAnalytics } from "../services/analytics.service";
+import {
+    BUCKET_MS,
+    getAnalyticsTimeSeries,
+    MAX_TIME_SERIES_BUCKETS,
+} from "../services/analyticsRollup.service";
+import {
+    AccessLogExportFormat,
+    formatAccessLog,
+    iterateAccessLog,
+} from "../services/analyticsExport.service";
+import { buildContentDisposition } from "../utils/contentDelivery";
+import { getZapManagerRole } from "../utils/accessControl";
+import { AccessEvent, getAccessEventBus } from "../services/accessEvents";
+
+/** Live event streams allowed per Zap on one instance */
+const MAX_EVENT_STREAMS_PER_ZAP = 5;
+/** Comment line sent on idle streams so proxies keep them open */
+const EVENT_STREAM_HEARTBEAT_MS = 25_000;
+
+const EXPORT_CONTENT_TYPES: Record<AccessLogExportFormat, string> = {
+    csv: "text/csv; charset=utf-8",
+    ndjson: "application/x-ndjson; charset=utf-8",
+};
+
+/** Range returned when ?from is omitted, in buckets before ?to */
+const DEFAULT_TIME_SERIES_BUCKETS: Record<AnalyticsGranularity, number> = {
+    HOUR: 24,
+    DAY: 30,
+};
+
+/**
+ * Looks up a Zap and checks the deletionToken passed as ?token=.
+ * Sends the error response and returns null when access is denied.
+ */
+const findAuthorizedZap = async (
+    req: Request,
+    res: Response
+): Promise<{ id: string } | null> => {
+    const { shortId } = req.params;
+    const { token } = req.query;
+
+    // ── Validate input ──────────────────────────────────────────────────
+    if (!shortId) {
+        res.status(400).json(new ApiError(400, "shortId parameter is required."));
+        return null;
+    }
+
+    if (!token || typeof token !== "string") {
+        res
+            .status(401)
+            .json(
+                new ApiError(
+                    401,
+                    "Authorization required. Provide your deletionToken as ?token=<value>."
+                )
+            );
+        return null;
+    }
+
+    // ── Find the Zap ────────────────────────────────────────────────────
+    const zap = await prisma.zap.findUnique({
+        where: { shortId },
+        select: { id: true, deletionToken: true },
+    });
+
+    if (!zap) {
+        res.status(404).json(new ApiError(404, "Zap not found."));
+        return null;
+    }
+
+    // ── Verify authorization ────────────────────────────────────────────
+    if (!zap.deletionToken || token !== zap.deletionToken) {
+        res
+            .status(403)
+            .json(
+                new ApiError(
+                    403,
+                    "Forbidden. Invalid token — you are not authorized to view analytics for this Zap."
+                )
+            );
+        return null;
+    }
+
+    return { id: zap.id };
+};
 
 /**
  * GET /api/analytics/:shortId?token=<deletionToken>
@@ -19,31 +107,180 @@ export const getZapAnalytics = async (
     res: Response
 ): Promise<void> => {
     try {
-        const { shortId } = req.params;
-        const { token, limit } = req.query;
+        const { limit } = req.query;
+
+        const zap = await findAuthorizedZap(req, res);
+        if (!zap) return;
+
+        // ── Fetch analytics ─────────────────────────────────────────────────
+        const parsedLimit = limit ? parseInt(limit as string, 10) : 50;
+        const analyticsLimit =
+            !isNaN(parsedLimit) && parsedLimit > 0 && parsedLimit <= 200
+                ? parsedLimit
+                : 50;
+
+        const analytics = await getAnalytics(zap.id, analyticsLimit);
+
+        if (!analytics) {
+            res.status(404).json(new ApiError(404, "Analytics data not found."));
+            return;
+        }
+
+        res
+            .status(200)
+            .json(
+                new ApiResponse(200, analytics, "Analytics retrieved successfully.")
+            );
+    } catch (error) {
+        console.error("[Analytics Controller] Error:", error);
+        res.status(500).json(new ApiError(500, "Internal Server Error."));
+    }
+};
+
+/**
+ * GET /api/analytics/:shortId/timeseries?token=<deletionToken>
+ *
+ * Returns a Zap's views, unique visitors, devices and browsers per hour or
+ * day, read from the rollups (up to one job interval behind).
+ *
+ * Query params:
+ *   - token        (required) — the deletionToken for this Zap
+ *   - granularity  (optional) — "hour" or "day" (default "day")
+ *   - from, to     (optional) — ISO datetimes; default to the last 24 hours
+ *                                or 30 days ending now
+ */
+export const getZapAnalyticsTimeSeries = async (
+    req: Request,
+    res: Response
+): Promise<void> => {
+    try {
+        const zap = await findAuthorizedZap(req, res);
+        if (!zap) return;
+
+        const granularity =
+            req.query.granularity === "hour"
+                ? AnalyticsGranularity.HOUR
+                : AnalyticsGranularity.DAY;
+        const to = req.query.to ? new Date(req.query.to as string) : new Date();
+        const from = req.query.from
+            ? new Date(req.query.from as string)
+            : new Date(
+                  to.getTime() -
+                      (DEFAULT_TIME_SERIES_BUCKETS[granularity] - 1) * BUCKET_MS[granularity]
+              );
+
+        const maxBuckets = MAX_TIME_SERIES_BUCKETS[granularity];
+        if (to.getTime() - from.getTime() >= maxBuckets * BUCKET_MS[granularity]) {
+            res
+                .status(400)
+                .json(
+                    new ApiError(
+                        400,
+                        `Range too long. At most ${maxBuckets} ${granularity.toLowerCase()} buckets can be requested.`
+                    )
+                );
+            return;
+        }
+
+        const timeSeries = await getAnalyticsTimeSeries(zap.id, granularity, from, to);
+
+        res
+            .status(200)
+            .json(
+                new ApiResponse(200, timeSeries, "Analytics time series retrieved successfully.")
+            );
+    } catch (error) {
+        console.error("[Analytics Controller] Error:", error);
+        res.status(500).json(new ApiError(500, "Internal Server Error."));
+    }
+};
+
+/**
+ * GET /api/analytics/:shortId/export?token=<deletionToken>
+ *
+ * Streams a Zap's full access log (failed attempts included) as a download,
+ * with every recorded field plus a derived uniqueVisitor flag.
+ *
+ * Query params:
+ *   - token     (required) — the deletionToken for this Zap
+ *   - format    (optional) — "csv" (default) or "ndjson"
+ *   - from, to  (optional) — ISO datetimes bounding accessedAt
+ */
+export const exportZapAnalytics = async (
+    req: Request,
+    res: Response
+): Promise<void> => {
+    try {
+        const zap = await findAuthorizedZap(req, res);
+        if (!zap) return;
 
-        // ── Validate input ──────────────────────────────────────────────────
-        if (!shortId) {
-            res.status(400).json(new ApiError(400, "shortId parameter is required."));
+        const format: AccessLogExportFormat =
+            req.query.format === "ndjson" ? "ndjson" : "csv";
+        const from = req.query.from ? new Date(req.query.from as string) : undefined;
+        const to = req.query.to ? new Date(req.query.to as string) : undefined;
+
+        res.status(200);
+        res.set("Content-Type", EXPORT_CONTENT_TYPES[format]);
+        res.set(
+            "Content-Disposition",
+            buildContentDisposition("attachment", `${req.params.shortId}-analytics.${format}`)
+        );
+        res.set("Cache-Control", "private, no-store");
+
+        try {
+            await pipeline(
+                Readable.from(formatAccessLog(iterateAccessLog(zap.id, { from, to }), format)),
+                res
+            );
+        } catch (streamError: any) {
+            // The owner closing the connection mid-export is not a server error
+            if (streamError.code !== "ERR_STREAM_PREMATURE_CLOSE") {
+                console.error("[Analytics Controller] Export stream error:", streamError);
+            }
+        }
+    } catch (error) {
+        console.error("[Analytics Controller] Error:", error);
+        if (res.headersSent) {
+            res.destroy();
             return;
         }
+        res.status(500).json(new ApiError(500, "Internal Server Error."));
+    }
+};
 
-        if (!token || typeof token !== "string") {
+/**
+ * GET /api/analytics/:shortId/events
+ *
+ * Server-Sent Events stream of a Zap's access attempts as they are logged:
+ * one `access` event (JSON, with its outcome) per view or refused attempt.
+ * Authorized by the owner's access token or the deletionToken, sent as
+ * ?token= (EventSource cannot set headers) or the X-Deletion-Token header.
+ */
+export const streamZapAccessEvents = async (
+    req: Request,
+    res: Response
+): Promise<void> => {
+    try {
+        const { shortId } = req.params;
+        const token =
+            (typeof req.query.token === "string" ? req.query.token : undefined) ||
+            req.get("x-deletion-token");
+
+        if (!token && !req.user) {
             res
                 .status(401)
                 .json(
                     new ApiError(
                         401,
-                        "Authorization required. Provide your deletionToken as ?token=<value>."
+                        "Authorization required. Provide your deletionToken as ?token=<value> or sign in as the owner."
                     )
                 );
             return;
         }
 
-        // ── Find the Zap ────────────────────────────────────────────────────
         const zap = await prisma.zap.findUnique({
             where: { shortId },
-            select: { id: true, deletionToken: true },
+            select: { id: true, ownerId: true, deletionToken: true },
         });
 
         if (!zap) {
@@ -51,8 +288,7 @@ export const getZapAnalytics = async (
             return;
         }
 
-        // ── Verify authorization ────────────────────────────────────────────
-        if (!zap.deletionToken || token !== zap.deletionToken) {
+        if (!getZapManagerRole(zap, req.user?.id, token)) {
             res
                 .status(403)
                 .json(
@@ -64,27 +300,43 @@ export const getZapAnalytics = async (
             return;
         }
 
-        // ── Fetch analytics ─────────────────────────────────────────────────
-        const parsedLimit = limit ? parseInt(limit as string, 10) : 50;
-        const analyticsLimit =
-            !isNaN(parsedLimit) && parsedLimit > 0 && parsedLimit <= 200
-                ? parsedLimit
-                : 50;
-
-        const analytics = await getAnalytics(zap.id, analyticsLimit);
-
-        if (!analytics) {
-            res.status(404).json(new ApiError(404, "Analytics data not found."));
+        const bus = getAccessEventBus();
+        if (bus.countSubscribers(zap.id) >= MAX_EVENT_STREAMS_PER_ZAP) {
+            res
+                .status(429)
+                .json(new ApiError(429, "Too many live streams open for this Zap."));
             return;
         }
 
-        res
-            .status(200)
-            .json(
-                new ApiResponse(200, analytics, "Analytics retrieved successfully.")
-            );
+        res.status(200);
+        res.set({
+            "Content-Type": "text/event-stream; charset=utf-8",
+            "Cache-Control": "no-cache, no-transform",
+            Connection: "keep-alive",
+            // Stop nginx from buffering the stream
+            "X-Accel-Buffering": "no",
+        });
+        res.flushHeaders();
+        res.write(": connected\n\n");
+
+        const heartbeat = setInterval(() => res.write(": heartbeat\n\n"), EVENT_STREAM_HEARTBEAT_MS);
+        const unsubscribe = bus.subscribe(zap.id, {
+            onEvent: (event: AccessEvent) => {
+                res.write(`event: access\nid: ${event.id}\ndata: ${JSON.stringify(event)}\n\n`);
+            },
+            onClose: () => res.end(),
+        });
+
+        res.on("close", () => {
+            clearInterval(heartbeat);
+            unsubscribe();
+        });
     } catch (error) {
         console.error("[Analytics Controller] Error:", error);
+        if (res.headersSent) {
+            res.destroy();
+            return;
+        }
         res.status(500).json(new ApiError(500, "Internal Server Error."));
     }
 };
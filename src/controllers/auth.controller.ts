@@ -0,0 +1,232 @@
+import { CookieOptions, Request, Response } from "express";
+import bcrypt from "bcrypt";
+import prisma from "../utils/prismClient";
+import { ApiError } from "../utils/ApiError";
+import { ApiResponse } from "../utils/ApiResponse";
+import { validatePasswordStrength } from "../utils/passwordValidator";
+import { sanitizeEmail, sanitizeText } from "../utils/sanitizer";
+import {
+  IssuedTokens,
+  issueTokens,
+  revokeRefreshToken,
+  rotateRefreshToken,
+} from "../services/auth.service";
+
+export const REFRESH_TOKEN_COOKIE = "refreshToken";
+
+/**
+ * Cookie options for the refresh token. The cookie is httpOnly so it is
+ * never readable from JavaScript, and scoped to the auth routes only.
+ */
+const refreshCookieOptions = (): CookieOptions => ({
+  httpOnly: true,
+  secure: process.env.NODE_ENV === "production",
+  sameSite: "strict",
+  path: "/api/auth",
+});
+
+const setRefreshCookie = (res: Response, tokens: IssuedTokens): void => {
+  res.cookie(REFRESH_TOKEN_COOKIE, tokens.refreshToken, {
+    ...refreshCookieOptions(),
+    expires: tokens.refreshTokenExpiresAt,
+  });
+};
+
+const clearRefreshCookie = (res: Response): void => {
+  res.clearCookie(REFRESH_TOKEN_COOKIE, refreshCookieOptions());
+};
+
+/**
+ * Registers a new user account and signs them in.
+ *
+ * @param req - Express request with email, password and optional name in body
+ * @param res - Express response
+ *
+ * @returns 201 with the user and an access token; the refresh token is set as an httpOnly cookie
+ */
+export const register = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { email, password, name } = req.body;
+
+    const normalizedEmail = sanitizeEmail(email);
+    if (!normalizedEmail) {
+      res.status(400).json(new ApiError(400, "A valid email is required."));
+      return;
+    }
+
+    const passwordCheck = validatePasswordStrength(password);
+    if (!passwordCheck.isValid) {
+      res
+        .status(400)
+        .json(new ApiError(400, "Weak password", passwordCheck.errors));
+      return;
+    }
+
+    const existingUser = await prisma.user.findUnique({
+      where: { email: normalizedEmail },
+      select: { id: true },
+    });
+    if (existingUser) {
+      res
+        .status(409)
+        .json(new ApiError(409, "An account with this email already exists."));
+      return;
+    }
+
+    const user = await prisma.user.create({
+      data: {
+        email: normalizedEmail,
+        passwordHash: await bcrypt.hash(password, 10),
+        name: name ? sanitizeText(name) : null,
+      },
+    });
+
+    const tokens = await issueTokens(user.id);
+    setRefreshCookie(res, tokens);
+
+    res.status(201).json(
+      new ApiResponse(
+        201,
+        {
+          user: { id: user.id, email: user.email, name: user.name },
+          accessToken: tokens.accessToken,
+        },
+        "Account created.",
+      ),
+    );
+  } catch (error) {
+    console.error("Error in register:", error);
+
+    // Two concurrent registrations with the same email
+    if (error instanceof Error && "code" in error && error.code === "P2002") {
+      res
+        .status(409)
+        .json(new ApiError(409, "An account with this email already exists."));
+      return;
+    }
+
+    res.status(500).json(new ApiError(500, "Internal server error"));
+  }
+};
+
+/**
+ * Signs a user in with email and password.
+ *
+ * @returns 200 with the user and an access token; the refresh token is set as an httpOnly cookie
+ */
+export const login = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { email, password } = req.body;
+    const normalizedEmail = sanitizeEmail(email);
+
+    const user = normalizedEmail
+      ? await prisma.user.findUnique({ where: { email: normalizedEmail } })
+      : null;
+
+    // Same response for unknown email and wrong password to avoid account enumeration
+    if (
+      !user ||
+      typeof password !== "string" ||
+      !(await bcrypt.compare(password, user.passwordHash))
+    ) {
+      res.status(401).json(new ApiError(401, "Invalid email or password."));
+      return;
+    }
+
+    const tokens = await issueTokens(user.id);
+    setRefreshCookie(res, tokens);
+
+    res.status(200).json(
+      new ApiResponse(
+        200,
+        {
+          user: { id: user.id, email: user.email, name: user.name },
+          accessToken: tokens.accessToken,
+        },
+        "Logged in.",
+      ),
+    );
+  } catch (error) {
+    console.error("Error in login:", error);
+    res.status(500).json(new ApiError(500, "Internal server error"));
+  }
+};
+
+/**
+ * Rotates the refresh token from the httpOnly cookie and issues a new access token.
+ * Presenting an already-rotated token revokes the whole token family.
+ *
+ * @returns 200 with a new access token, or 401 if the refresh token is missing, invalid or reused
+ */
+export const refresh = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const refreshToken = req.cookies?.[REFRESH_TOKEN_COOKIE];
+
+    if (!refreshToken || typeof refreshToken !== "string") {
+      res.status(401).json(new ApiError(401, "Refresh token missing."));
+      return;
+    }
+
+    let tokens;
+    try {
+      tokens = await rotateRefreshToken(refreshToken);
+    } catch (rotationError: any) {
+      if (rotationError.message === "REFRESH_TOKEN_INVALID") {
+        clearRefreshCookie(res);
+        res
+          .status(401)
+          .json(new ApiError(401, "Invalid or expired refresh token."));
+        return;
+      }
+      if (rotationError.message === "REFRESH_TOKEN_REUSED") {
+        clearRefreshCookie(res);
+        res
+          .status(401)
+          .json(
+            new ApiError(
+              401,
+              "Refresh token reuse detected. All sessions for this login have been revoked.",
+            ),
+          );
+        return;
+      }
+      throw rotationError;
+    }
+
+    setRefreshCookie(res, tokens);
+
+    res
+      .status(200)
+      .json(
+        new ApiResponse(
+          200,
+          { accessToken: tokens.accessToken },
+          "Token refreshed.",
+        ),
+      );
+  } catch (error) {
+    console.error("Error in refresh:", error);
+    res.status(500).json(new ApiError(500, "Internal server error"));
+  }
+};
+
+/**
+ * Revokes the current refresh token and clears the cookie.
+ *
+ * @returns 200 even if no session was active
+ */
+export const logout = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const refreshToken = req.cookies?.[REFRESH_TOKEN_COOKIE];
+
+    if (refreshToken && typeof refreshToken === "string") {
+      await revokeRefreshToken(refreshToken);
+    }
+
+    clearRefreshCookie(res);
+    res.status(200).json(new ApiResponse(200, null, "Logged out."));
+  } catch (error) {
+    console.error("Error in logout:", error);
+    res.status(500).json(new ApiError(500, "Internal server error"));
+  }
+};
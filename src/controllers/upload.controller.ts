@@ -0,0 +1,217 @@
+import { Request, Response } from "express";
+import { ApiError } from "../utils/ApiError";
+import { ApiResponse } from "../utils/ApiResponse";
+import { createZap } from "./zap.controller";
+import {
+  assembleUpload,
+  createUploadSession,
+  deleteUploadSession,
+  getReceivedChunks,
+  getUploadOffset,
+  getUploadSession,
+  releaseUploadSession,
+  RESUMABLE_MAX_FILE_SIZE,
+  toByteRanges,
+  UploadSession,
+  writeUploadChunk,
+} from "../services/resumableUpload.service";
+
+const UPLOAD_ERROR_RESPONSES: Record<string, [number, string]> = {
+  UPLOAD_NOT_FOUND: [404, "Upload not found."],
+  UPLOAD_EXPIRED: [410, "Upload has expired. Start a new upload."],
+  UPLOAD_TOO_LARGE: [413, `File is too large. Maximum size is ${RESUMABLE_MAX_FILE_SIZE} bytes.`],
+  CHUNK_OUT_OF_RANGE: [416, "Chunk index is out of range for this upload."],
+  CHUNK_SIZE_MISMATCH: [400, "Chunk size does not match the size expected for this index."],
+  UPLOAD_INCOMPLETE: [409, "Upload is incomplete. Send the missing chunks first."],
+  UPLOAD_IN_PROGRESS: [409, "Upload is already being completed."],
+};
+
+/**
+ * Responds with the mapped status for a service error code.
+ * @returns true if the error was handled
+ */
+const sendUploadError = (res: Response, error: unknown): boolean => {
+  const mapped = error instanceof Error ? UPLOAD_ERROR_RESPONSES[error.message] : undefined;
+  if (!mapped) return false;
+  res.status(mapped[0]).json(new ApiError(mapped[0], mapped[1]));
+  return true;
+};
+
+/**
+ * Loads a session the caller may write to. Sessions started by a signed-in
+ * user can only be continued by that user; anonymous sessions are protected
+ * by their unguessable uploadId alone (as in tus).
+ * Responds itself and returns null when access is denied.
+ */
+const findWritableSession = async (
+  req: Request,
+  res: Response,
+): Promise<UploadSession | null> => {
+  const session = await getUploadSession(req.params.uploadId);
+  if (session.ownerId && session.ownerId !== req.user?.id) {
+    res
+      .status(403)
+      .json(new ApiError(403, "Forbidden. This upload belongs to another user."));
+    return null;
+  }
+  return session;
+};
+
+/**
+ * Builds the status payload shared by the status, chunk and initiate responses.
+ */
+const describeSession = async (req: Request, res: Response, session: UploadSession) => {
+  const received = await getReceivedChunks(session);
+  const offset = getUploadOffset(session, received);
+  const receivedSet = new Set(received);
+
+  res.set("Upload-Offset", String(offset));
+  res.set("Upload-Length", String(session.size));
+  res.set("Cache-Control", "no-store");
+
+  return {
+    uploadId: session.id,
+    fileName: session.fileName,
+    size: session.size,
+    chunkSize: session.chunkSize,
+    totalChunks: session.totalChunks,
+    receivedChunks: received,
+    missingChunks: Array.from({ length: session.totalChunks }, (_, index) => index).filter(
+      (index) => !receivedSet.has(index),
+    ),
+    receivedRanges: toByteRanges(session, received),
+    uploadOffset: offset,
+    expiresAt: session.expiresAt,
+  };
+};
+
+/**
+ * Starts a resumable upload for files larger than the 10MB multipart limit.
+ *
+ * @param req - Express request with fileName, size and optional mimeType/chunkSize
+ * @param res - Express response
+ *
+ * @returns 201 with uploadId, chunkSize and totalChunks; 413 if the file is too large
+ */
+export const initiateUpload = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { fileName, size, mimeType, chunkSize } = req.body;
+    const session = await createUploadSession(
+      { fileName, size, mimeType, chunkSize },
+      req.user?.id ?? null,
+    );
+
+    const domain = process.env.BASE_URL || "http://localhost:5000";
+    res.set("Location", `${domain}/api/uploads/${session.id}`);
+    res
+      .status(201)
+      .json(new ApiResponse(201, await describeSession(req, res, session), "Upload started."));
+  } catch (error) {
+    if (sendUploadError(res, error)) return;
+    console.error("Error in initiateUpload:", error);
+    res.status(500).json(new ApiError(500, "Internal server error"));
+  }
+};
+
+/**
+ * Stores one numbered chunk. The request body is the raw chunk bytes
+ * (Content-Type: application/octet-stream). Re-sending a chunk replaces it.
+ *
+ * @param req - Express request with uploadId and index params
+ * @param res - Express response
+ *
+ * @returns 200 with the upload status, 400 for a wrong chunk length, 416 for an unknown index
+ */
+export const uploadChunk = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const session = await findWritableSession(req, res);
+    if (!session) return;
+
+    await writeUploadChunk(session, Number(req.params.index), req);
+
+    res.json(new ApiResponse(200, await describeSession(req, res, session), "Chunk received."));
+  } catch (error) {
+    if (sendUploadError(res, error)) return;
+    console.error("Error in uploadChunk:", error);
+    res.status(500).json(new ApiError(500, "Internal server error"));
+  }
+};
+
+/**
+ * Reports which chunks and byte ranges have been received so an interrupted
+ * client can resume. Also answers HEAD with the tus Upload-Offset/Upload-Length headers.
+ *
+ * @returns 200 with the upload status, 404 if unknown, 410 if expired
+ */
+export const getUploadStatus = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const session = await findWritableSession(req, res);
+    if (!session) return;
+
+    res.json(new ApiResponse(200, await describeSession(req, res, session), "Success"));
+  } catch (error) {
+    if (sendUploadError(res, error)) return;
+    console.error("Error in getUploadStatus:", error);
+    res.status(500).json(new ApiError(500, "Internal server error"));
+  }
+};
+
+/**
+ * Finishes a resumable upload: assembles the chunks and creates the Zap through
+ * createZap, so the magic-byte check, storage upload and Zap settings (password,
+ * viewLimit, expiresAt, quiz, ...) behave exactly as for POST /api/zaps/upload.
+ *
+ * @param req - Express request with uploadId param and the createZap body fields
+ * @param res - Express response
+ *
+ * @returns createZap's response, or 409 while chunks are still missing
+ */
+export const completeUpload = async (req: Request, res: Response): Promise<void> => {
+  const { uploadId } = req.params;
+  let assembled = false;
+
+  try {
+    const session = await findWritableSession(req, res);
+    if (!session) return;
+
+    req.file = await assembleUpload(session);
+    req.body = req.body ?? {};
+    assembled = true;
+
+    await createZap(req, res);
+  } catch (error) {
+    if (!sendUploadError(res, error)) {
+      console.error("Error in completeUpload:", error);
+      res.status(500).json(new ApiError(500, "Internal server error"));
+    }
+  } finally {
+    if (assembled) {
+      // Keep the chunks after a server error so the client can retry completing;
+      // anything else (created, or rejected as spoofed/invalid) ends the session.
+      if (res.statusCode >= 500) {
+        await releaseUploadSession(uploadId).catch(() => undefined);
+      } else {
+        await deleteUploadSession(uploadId).catch(() => undefined);
+      }
+    }
+  }
+};
+
+/**
+ * Abandons a resumable upload and deletes its chunks (tus termination).
+ *
+ * @returns 200 on success, 404 if unknown
+ */
+export const cancelUpload = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const session = await findWritableSession(req, res);
+    if (!session) return;
+
+    await deleteUploadSession(session.id);
+    res.json(new ApiResponse(200, { uploadId: session.id }, "Upload cancelled."));
+  } catch (error) {
+    if (sendUploadError(res, error)) return;
+    console.error("Error in cancelUpload:", error);
+    res.status(500).json(new ApiError(500, "Internal server error"));
+  }
+};
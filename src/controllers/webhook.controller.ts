@@ -0,0 +1,263 @@
+import { Request, Response } from "express";
+import prisma from "../utils/prismClient";
+import { ApiError } from "../utils/ApiError";
+import { ApiResponse } from "../utils/ApiResponse";
+import { getZapManagerRole } from "../utils/accessControl";
+import { isPublicHost } from "../utils/publicAddress";
+import {
+  generateWebhookSecret,
+  redeliverDeadLetter,
+} from "../services/webhook.service";
+
+const MANAGE_WEBHOOK_AUTH_REQUIRED_MESSAGE =
+  "Authorization required. Sign in, or provide the Zap's deletionToken in the X-Deletion-Token header.";
+
+const DEAD_LETTERS_PAGE_SIZE = 100;
+
+/** Subscription fields safe to return; the secret is only shown at creation */
+const SAFE_SUBSCRIPTION_SELECT = {
+  id: true,
+  url: true,
+  events: true,
+  createdAt: true,
+  zap: { select: { shortId: true } },
+} as const;
+
+const toSafeSubscription = (subscription: {
+  id: string;
+  url: string;
+  events: string[];
+  createdAt: Date;
+  zap: { shortId: string } | null;
+}) => ({
+  id: subscription.id,
+  url: subscription.url,
+  events: subscription.events,
+  shortId: subscription.zap?.shortId ?? null,
+  createdAt: subscription.createdAt,
+});
+
+/**
+ * Loads the subscription named by the :id param and checks that the caller
+ * manages it: the owner of an owner-wide subscription, or anyone who may
+ * manage the Zap of a per-Zap subscription. Sends the error response and
+ * returns null otherwise.
+ */
+const findManagedSubscription = async (
+  req: Request,
+  res: Response,
+): Promise<{ id: string } | null> => {
+  const token = req.get("x-deletion-token");
+  if (!token && !req.user) {
+    res.status(401).json(new ApiError(401, MANAGE_WEBHOOK_AUTH_REQUIRED_MESSAGE));
+    return null;
+  }
+
+  const subscription = await prisma.webhookSubscription.findUnique({
+    where: { id: req.params.id },
+    select: {
+      id: true,
+      ownerId: true,
+      zap: { select: { ownerId: true, deletionToken: true } },
+    },
+  });
+  if (!subscription) {
+    res.status(404).json(new ApiError(404, "Webhook not found."));
+    return null;
+  }
+
+  const allowed = subscription.zap
+    ? getZapManagerRole(subscription.zap, req.user?.id, token) !== null
+    : !!req.user && subscription.ownerId === req.user.id;
+  if (!allowed) {
+    res
+      .status(403)
+      .json(new ApiError(403, "Forbidden. You are not authorized to manage this webhook."));
+    return null;
+  }
+
+  return { id: subscription.id };
+};
+
+/**
+ * Subscribes a URL to Zap lifecycle events.
+ *
+ * @param req - Express request with body { url, events?, shortId? }. The url
+ *   must be HTTPS and resolve to public addresses only. With a shortId the
+ *   subscription covers that Zap only and is authorized like editing it
+ *   (owner or `X-Deletion-Token`); without one it covers every Zap of the
+ *   signed-in user.
+ * @param res - Express response
+ *
+ * @returns 201 with the subscription and its signing secret, which is never
+ *   shown again
+ */
+export const createWebhook = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { url, events, shortId } = req.body;
+    const token = req.get("x-deletion-token");
+
+    let zapId: string | null = null;
+    if (shortId) {
+      if (!token && !req.user) {
+        res.status(401).json(new ApiError(401, MANAGE_WEBHOOK_AUTH_REQUIRED_MESSAGE));
+        return;
+      }
+      const zap = await prisma.zap.findUnique({
+        where: { shortId },
+        select: { id: true, ownerId: true, deletionToken: true },
+      });
+      if (!zap) {
+        res.status(404).json(new ApiError(404, "Zap not found."));
+        return;
+      }
+      if (!getZapManagerRole(zap, req.user?.id, token)) {
+        res
+          .status(403)
+          .json(new ApiError(403, "Forbidden. You are not authorized to manage this Zap."));
+        return;
+      }
+      zapId = zap.id;
+    } else if (!req.user) {
+      res
+        .status(401)
+        .json(new ApiError(401, "Sign in to subscribe to all your Zaps, or pass a shortId."));
+      return;
+    }
+
+    if (!(await isPublicHost(new URL(url)))) {
+      res.status(400).json(new ApiError(400, "url must be hosted on a public address."));
+      return;
+    }
+
+    const { secret, encrypted } = generateWebhookSecret();
+    const subscription = await prisma.webhookSubscription.create({
+      data: {
+        url,
+        events: events ? [...new Set<string>(events)] : [],
+        secret: encrypted,
+        ...(zapId ? { zapId } : { ownerId: req.user!.id }),
+      },
+      select: SAFE_SUBSCRIPTION_SELECT,
+    });
+
+    res
+      .status(201)
+      .json(
+        new ApiResponse(
+          201,
+          { ...toSafeSubscription(subscription), secret },
+          "Webhook created. Store the secret now; it is not shown again.",
+        ),
+      );
+  } catch (error) {
+    console.error("Error in createWebhook:", error);
+    res.status(500).json(new ApiError(500, "Internal server error"));
+  }
+};
+
+/**
+ * Lists the signed-in user's subscriptions: owner-wide ones and those on
+ * Zaps they own.
+ *
+ * @returns 200 with the subscriptions (without secrets)
+ */
+export const listWebhooks = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const user = req.user!;
+    const subscriptions = await prisma.webhookSubscription.findMany({
+      where: { OR: [{ ownerId: user.id }, { zap: { ownerId: user.id } }] },
+      orderBy: { createdAt: "desc" },
+      select: SAFE_SUBSCRIPTION_SELECT,
+    });
+
+    res.json(new ApiResponse(200, subscriptions.map(toSafeSubscription), "Success"));
+  } catch (error) {
+    console.error("Error in listWebhooks:", error);
+    res.status(500).json(new ApiError(500, "Internal server error"));
+  }
+};
+
+/**
+ * Deletes a subscription along with its queued deliveries and dead letters.
+ *
+ * @returns 200 on success, 401/403/404 as for every webhook management route
+ */
+export const deleteWebhook = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const subscription = await findManagedSubscription(req, res);
+    if (!subscription) return;
+
+    // Queued deliveries outlive their subscription otherwise (see WebhookDelivery)
+    await prisma.$transaction([
+      prisma.webhookDelivery.deleteMany({ where: { subscriptionId: subscription.id } }),
+      prisma.webhookSubscription.delete({ where: { id: subscription.id } }),
+    ]);
+
+    res.json(new ApiResponse(200, { id: subscription.id }, "Webhook deleted."));
+  } catch (error) {
+    console.error("Error in deleteWebhook:", error);
+    res.status(500).json(new ApiError(500, "Internal server error"));
+  }
+};
+
+/**
+ * Lists a subscription's dead letters, newest first.
+ *
+ * @returns 200 with up to 100 dead letters
+ */
+export const listDeadLetters = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const subscription = await findManagedSubscription(req, res);
+    if (!subscription) return;
+
+    const deadLetters = await prisma.webhookDeadLetter.findMany({
+      where: { subscriptionId: subscription.id },
+      orderBy: { failedAt: "desc" },
+      take: DEAD_LETTERS_PAGE_SIZE,
+      select: {
+        id: true,
+        event: true,
+        payload: true,
+        attempts: true,
+        lastError: true,
+        createdAt: true,
+        failedAt: true,
+      },
+    });
+
+    res.json(new ApiResponse(200, deadLetters, "Success"));
+  } catch (error) {
+    console.error("Error in listDeadLetters:", error);
+    res.status(500).json(new ApiError(500, "Internal server error"));
+  }
+};
+
+/**
+ * Queues a dead letter for delivery again, to the subscription's current URL.
+ *
+ * @returns 202 with the new delivery's id, 404 if the dead letter does not
+ *   belong to the subscription
+ */
+export const redeliverWebhook = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const subscription = await findManagedSubscription(req, res);
+    if (!subscription) return;
+
+    const deadLetter = await prisma.webhookDeadLetter.findFirst({
+      where: { id: req.params.deadLetterId, subscriptionId: subscription.id },
+      select: { id: true },
+    });
+    const deliveryId = deadLetter ? await redeliverDeadLetter(deadLetter.id) : null;
+    // Also covers a concurrent redelivery of the same dead letter
+    if (!deliveryId) {
+      res.status(404).json(new ApiError(404, "Dead letter not found."));
+      return;
+    }
+
+    res.status(202).json(new ApiResponse(202, { deliveryId }, "Redelivery queued."));
+  } catch (error) {
+    console.error("Error in redeliverWebhook:", error);
+    res.status(500).json(new ApiError(500, "Internal server error"));
+  }
+};
@@ -1,9 +1,9 @@
 import { Request, Response } from "express";
+import { Prisma, Zap, ZapAccessOutcome, ZapTombstoneReason, ZapType } from "@prisma/client";
 import bcrypt from "bcrypt";
 import { customAlphabet } from "nanoid";
 import QRCode from "qrcode";
 import prisma from "../utils/prismClient";
-import cloudinary from "../middlewares/cloudinary";
 import { ApiError } from "../utils/ApiError";
 import { ApiResponse } from "../utils/ApiResponse";
 import { encryptText, decryptText } from "../utils/encryption";
@@ -11,26 +11,40 @@ import {
   hasQuizProtection,
   verifyQuizAnswer,
   hashQuizAnswer,
+  getZapManagerRole,
 } from "../utils/accessControl";
+import { deleteStoredObject, getZapFileUrl } from "../services/storage";
+import {
+  commitPendingUpload,
+  rollBackPendingUpload,
+  uploadPending,
+} from "../services/pendingUpload.service";
+import {
+  assertFileSignatureMatches,
+  computeFileChecksum,
+  openUploadedFile,
+} from "../utils/fileValidator";
 import { clearZapPasswordAttemptCounter } from "../middlewares/rateLimiter";
+import { buildSignedContentUrl } from "../utils/contentLink";
+import {
+  ENCRYPTED_FILE_CONTENT_TYPE,
+  encryptUploadBody,
+  generateFileKey,
+  getEncryptedSize,
+} from "../services/fileEncryption.service";
 import dotenv from "dotenv";
 import mammoth from "mammoth";
-import { fromBuffer as fileTypeFromBuffer } from "file-type"; // T066 Security
 import * as path from "path";
 import { validatePasswordStrength } from "../utils/passwordValidator";
 import { logAccess } from "../services/analytics.service";
+import type { AuthUser } from "../middlewares/auth.middleware";
+import { getMissingZapError, isShortIdRetired } from "../services/tombstone.service";
+import { deleteZapRows, deleteZaps } from "../services/zapDeletion.service";
+import { dispatchWebhooksSoon, enqueueWebhookEvent } from "../services/webhook.service";
 
 dotenv.config();
 
 // ── TypeScript Interfaces ──────────────────────────────────────────────────
-interface CloudinaryUploadResponse {
-  secure_url: string;
-  public_id: string;
-  resource_type: string;
-  format: string;
-  [key: string]: any;
-}
-
 interface TypeMap {
   [key: string]: "PDF" | "IMAGE" | "VIDEO" | "AUDIO" | "ZIP" | "URL" | "TEXT" | "WORD" | "PPT" | "UNIVERSAL";
 }
@@ -41,7 +55,8 @@ const nanoid = customAlphabet(
 );
 
 /**
- * Generate a unique ID with retry logic to prevent collisions
+ * Generate a unique ID with retry logic to prevent collisions. shortIds of
+ * deleted Zaps (tombstones) are never issued again.
  * @param fieldName - The database field to check ('shortId' or 'qrId')
  * @param maxRetries - Maximum number of retry attempts (default: 5)
  * @returns A unique ID string
@@ -60,7 +75,9 @@ const generateUniqueId = async (
       select: { id: true }, // Only select the ID field for efficiency
     });
 
-    if (!existingZap) {
+    const isRetired = fieldName === "shortId" && (await isShortIdRetired(id));
+
+    if (!existingZap && !isRetired) {
       return id; // ID is unique, return it
     }
 
@@ -77,6 +94,12 @@ const generateUniqueId = async (
 
 const FRONTEND_URL = process.env.FRONTEND_URL || "http://localhost:5173";
 
+// End-to-end encrypted text is stored inline, so it gets its own size cap
+const E2E_TEXT_MAX_LENGTH = 1024 * 1024;
+// base64 / base64url, optionally split into parts (e.g. iv.ciphertext)
+const E2E_CIPHERTEXT_PATTERN = /^[A-Za-z0-9+/=_.:-]+$/;
+const E2E_CONTENT_PREFIX = "E2E_CONTENT:";
+
 /**
  * Maps user-friendly type strings to Prisma ZapType enum values.
  * @param type - The type string to map (e.g., "pdf", "image", "document")
@@ -97,6 +120,20 @@ const mapTypeToPrismaEnum = (type: string): "PDF" | "IMAGE" | "VIDEO" | "AUDIO"
   return typeMap[type?.toLowerCase()] || "UNIVERSAL";
 };
 
+/**
+ * Extracts the raw text of a DOCX file and encrypts it for storage.
+ * @param file - The uploaded DOCX file (in memory or assembled on disk)
+ * @returns The value stored in Zap.originalUrl (DOCX_CONTENT:<ciphertext>)
+ */
+export const extractDocxContent = async (
+  file: Express.Multer.File,
+): Promise<string> => {
+  const result = await mammoth.extractRawText(
+    file.buffer ? { buffer: file.buffer } : { path: file.path },
+  );
+  return `DOCX_CONTENT:${encryptText(result.value)}`;
+};
+
 /**
  * Creates a new Zap (file/URL/text share) with optional security features.
  * 
@@ -110,10 +147,17 @@ const mapTypeToPrismaEnum = (type: string): "PDF" | "IMAGE" | "VIDEO" | "AUDIO"
  * - Quiz-based access control
  * - Delayed access (unlockAt)
  * - MIME type validation to prevent spoofing (T066)
+ * - Encrypted files (encryptFile=true): storage only ever holds ciphertext
+ * - End-to-end encrypted Zaps (e2e=true): the client encrypts and keeps the
+ *   key in the URL fragment; the server stores the ciphertext as-is
+ * - Burn after reading (burnAfterReading=true): content is destroyed on the
+ *   first successful view
  * 
  * @returns 201 with zapId and shortUrl on success, or appropriate error status
  */
 export const createZap = async (req: Request, res: Response): Promise<void> => {
+  // Set once the file is in storage; rolled back if the Zap is not created
+  let pendingUploadId: string | null = null;
   try {
     const {
       type,
@@ -126,6 +170,10 @@ export const createZap = async (req: Request, res: Response): Promise<void> => {
       quizQuestion,
       quizAnswer,
       delayedAccessTime,
+      encryptFile,
+      e2e,
+      e2eMetadata,
+      burnAfterReading,
     } = req.body;
     const file = req.file;
 
@@ -134,6 +182,45 @@ export const createZap = async (req: Request, res: Response): Promise<void> => {
       return;
     }
 
+    const shouldEncryptFile = encryptFile === "true";
+    if (shouldEncryptFile && !file) {
+      res
+        .status(400)
+        .json(new ApiError(400, "encryptFile can only be used with a file upload."));
+      return;
+    }
+
+    const shouldBurnAfterReading = burnAfterReading === "true";
+    if (shouldBurnAfterReading && viewLimit) {
+      res
+        .status(400)
+        .json(
+          new ApiError(400, "burnAfterReading Zaps can be viewed exactly once; omit viewLimit."),
+        );
+      return;
+    }
+
+    const isE2E = e2e === "true";
+    if (isE2E && !file) {
+      if (!textContent) {
+        res
+          .status(400)
+          .json(new ApiError(400, "End-to-end encrypted Zaps need a file or textContent."));
+        return;
+      }
+      if (textContent.length > E2E_TEXT_MAX_LENGTH || !E2E_CIPHERTEXT_PATTERN.test(textContent)) {
+        res
+          .status(400)
+          .json(
+            new ApiError(
+              400,
+              `End-to-end encrypted textContent must be base64 ciphertext of at most ${E2E_TEXT_MAX_LENGTH} characters.`,
+            ),
+          );
+        return;
+      }
+    }
+
     /* 🔐 Password strength validation */
     if (password) {
       const result = validatePasswordStrength(password);
@@ -222,55 +309,54 @@ export const createZap = async (req: Request, res: Response): Promise<void> => {
 
     let uploadedUrl: string | null = null;
     let contentToStore: string | null = null;
+    let checksum: string | null = null;
+    let wrappedFileKey: string | null = null;
 
     if (file) {
       // --- TEAM T066: SECURITY VALIDATION ---
-      const detectedType = await fileTypeFromBuffer(file.buffer);
+      // Skipped for end-to-end encrypted files: ciphertext has no magic bytes
+      try {
+        if (!isE2E) await assertFileSignatureMatches(file);
+      } catch (signatureError) {
+        if (signatureError instanceof ApiError) {
+          res.status(signatureError.statusCode).json(signatureError);
+          return;
+        }
+        throw signatureError;
+      }
       const providedExt =
         file.originalname.split(".").pop()?.toLowerCase() || "";
 
-      if (!detectedType) {
-        res
-          .status(415)
-          .json(new ApiError(415, "Unknown file signature. Upload blocked."));
-        return;
-      }
-
-      const actualExt = detectedType.ext as string;
-      const claimExt = providedExt as string;
-      const isJpeg =
-        (actualExt === "jpg" || actualExt === "jpeg") &&
-        (claimExt === "jpg" || claimExt === "jpeg");
-
-      if (actualExt !== claimExt && !isJpeg) {
-        res
-          .status(400)
-          .json(
-            new ApiError(
-              400,
-              `MIME Spoofing Detected! Content is ${actualExt}, claims ${providedExt}.`,
-            ),
-          );
-        return;
-      }
-
-      // --- SECURE CLOUDINARY UPLOAD ---
-      const cloudinaryResponse = await new Promise<CloudinaryUploadResponse>((resolve, reject) => {
-        const uploadStream = cloudinary.uploader.upload_stream(
-          { folder: "zaplink_folders", resource_type: "auto" },
-          (error, result) => {
-            if (error) reject(error);
-            else resolve(result as CloudinaryUploadResponse);
+      // --- UPLOAD TO THE CONFIGURED STORAGE DRIVER ---
+      let stored;
+      if (shouldEncryptFile) {
+        const fileKey = generateFileKey();
+        wrappedFileKey = fileKey.wrappedKey;
+        stored = await uploadPending(
+          encryptUploadBody(openUploadedFile(file), fileKey.dataKey),
+          {
+            fileName: file.originalname,
+            contentType: ENCRYPTED_FILE_CONTENT_TYPE,
+            size: getEncryptedSize(file.size),
           },
         );
-        uploadStream.end(file.buffer);
-      });
-      uploadedUrl = cloudinaryResponse.secure_url;
+      } else {
+        stored = await uploadPending(openUploadedFile(file), {
+          fileName: file.originalname,
+          contentType: isE2E ? ENCRYPTED_FILE_CONTENT_TYPE : file.mimetype,
+          size: file.size,
+        });
+      }
+      uploadedUrl = stored.url;
+      pendingUploadId = stored.pendingUploadId;
+      checksum = await computeFileChecksum(file);
 
-      if (type === "document" && providedExt === "docx") {
-        const result = await mammoth.extractRawText({ buffer: file.buffer });
-        contentToStore = `DOCX_CONTENT:${encryptText(result.value)}`;
+      if (!isE2E && type === "document" && providedExt === "docx") {
+        contentToStore = await extractDocxContent(file);
       }
+    } else if (isE2E) {
+      // Already encrypted by the client; the server cannot read it
+      contentToStore = `${E2E_CONTENT_PREFIX}${textContent}`;
     } else if (originalUrl) {
       uploadedUrl = originalUrl;
       contentToStore = originalUrl;
@@ -278,23 +364,56 @@ export const createZap = async (req: Request, res: Response): Promise<void> => {
       contentToStore = `TEXT_CONTENT:${encryptText(textContent)}`;
     }
 
-    const zap = await prisma.zap.create({
-      data: {
-        type: mapTypeToPrismaEnum(type),
-        name: name || "Untitled Zap",
-        cloudUrl: uploadedUrl,
-        originalUrl: contentToStore,
-        qrId: zapId,
-        shortId,
-        deletionToken,
-        passwordHash: hashedPassword,
-        viewLimit: viewLimit ? parseInt(viewLimit) : null,
-        expiresAt: expiresAt ? new Date(expiresAt) : null,
-        quizQuestion: quizQuestion || null,
-        quizAnswerHash: hashedQuizAnswer,
-        unlockAt: unlockAt,
-      },
+    const zapData: Prisma.ZapUncheckedCreateInput = {
+      type: mapTypeToPrismaEnum(type),
+      name: name || "Untitled Zap",
+      cloudUrl: uploadedUrl,
+      originalUrl: contentToStore,
+      qrId: zapId,
+      shortId,
+      deletionToken,
+      passwordHash: hashedPassword,
+      viewLimit: viewLimit ? parseInt(viewLimit) : null,
+      expiresAt: expiresAt ? new Date(expiresAt) : null,
+      quizQuestion: quizQuestion || null,
+      quizAnswerHash: hashedQuizAnswer,
+      unlockAt: unlockAt,
+      ownerId: req.user?.id ?? null,
+      fileKey: wrappedFileKey,
+      e2eEncrypted: isE2E,
+      e2eMetadata: isE2E ? e2eMetadata || null : null,
+      burnAfterReading: shouldBurnAfterReading,
+      // Uploaded files start their version history at 1
+      ...(file && uploadedUrl
+        ? {
+            currentVersion: 1,
+            versions: {
+              create: {
+                version: 1,
+                cloudUrl: uploadedUrl,
+                originalUrl: contentToStore,
+                checksum,
+                fileName: file.originalname,
+                size: file.size,
+              },
+            },
+          }
+        : {}),
+    };
+
+    // The row, the upload's commit and the zap.created webhooks land
+    // together, or none of them does
+    const uploadId = pendingUploadId;
+    const webhooksQueued = await prisma.$transaction(async (tx) => {
+      if (uploadId) {
+        await commitPendingUpload(tx, uploadId);
+      }
+      const zap = await tx.zap.create({ data: zapData });
+      return enqueueWebhookEvent(tx, zap, "zap.created");
     });
+    if (webhooksQueued > 0) {
+      dispatchWebhooksSoon();
+    }
 
     const domain = process.env.BASE_URL || "http://localhost:5000";
     res
@@ -305,6 +424,7 @@ export const createZap = async (req: Request, res: Response): Promise<void> => {
           {
             zapId,
             shortUrl: `${domain}/api/zaps/${shortId}`,
+            qrCodeUrl: `${domain}/api/zaps/${shortId}/qr`,
             deletionToken,
           },
           "Zap created.",
@@ -313,6 +433,10 @@ export const createZap = async (req: Request, res: Response): Promise<void> => {
   } catch (error) {
     console.error("Error in createZap:", error);
 
+    if (pendingUploadId) {
+      await rollBackPendingUpload(pendingUploadId);
+    }
+
     // Handle Prisma unique constraint violations (P2002)
     if (error instanceof Error && 'code' in error && error.code === 'P2002') {
       res.status(409).json(
@@ -339,25 +463,580 @@ const verifyZapPassword = async (
 };
 
 /**
- * Permanently deletes Zaps by their shortIds.
- * Used by cleanup jobs for expired or view-limited Zaps.
- * 
- * @param shortIds - Array of shortId strings to delete
- * @throws Error if deletion fails
+ * Strips all server-side secrets from a Zap before it is sent to a client.
+ * @param zap - The Zap record
+ * @returns The Zap without passwordHash, quizAnswerHash and deletionToken
+ */
+const toSafeZap = (zap: Zap) => {
+  const {
+    passwordHash: _passwordHash,
+    quizAnswerHash: _quizAnswerHash,
+    deletionToken: _deletionToken,
+    // The storage location would let anyone bypass expiry and view limits
+    cloudUrl: _cloudUrl,
+    fileKey,
+    ...safeZap
+  } = zap;
+  return { ...safeZap, encrypted: Boolean(fileKey) };
+};
+
+type ZapStatus = "active" | "expired" | "exhausted" | "burned";
+
+/**
+ * Derives the lifecycle status of a Zap.
+ * @param zap - The Zap record
+ * @returns "burned" once burned after reading, "expired" past expiresAt,
+ *   "exhausted" at its view limit, otherwise "active"
+ */
+const getZapStatus = (zap: Zap): ZapStatus => {
+  if (zap.burnedAt) return "burned";
+  if (zap.expiresAt && new Date() > zap.expiresAt) return "expired";
+  if (zap.viewLimit !== null && zap.viewCount >= zap.viewLimit) return "exhausted";
+  return "active";
+};
+
+/**
+ * Builds the Prisma filter for a dashboard status.
+ * @param status - "active", "expired", "exhausted" or "burned"
+ * @returns A Zap where clause
  */
-export const destroyZap = async (shortIds: string[]) => {
+const buildStatusFilter = (status: ZapStatus): Prisma.ZapWhereInput => {
+  const now = new Date();
+  const exhausted: Prisma.ZapWhereInput = {
+    viewLimit: { not: null },
+    viewCount: { gte: prisma.zap.fields.viewLimit },
+  };
+  // Expiry takes precedence over the view limit, as in getZapStatus
+  const notExpired: Prisma.ZapWhereInput = {
+    OR: [{ expiresAt: null }, { expiresAt: { gte: now } }],
+  };
+
+  if (status === "burned") {
+    return { burnedAt: { not: null } };
+  }
+  if (status === "expired") {
+    return { expiresAt: { lt: now }, burnedAt: null };
+  }
+  // Burned Zaps have no view limit, so they are never exhausted
+  if (status === "exhausted") {
+    return { AND: [notExpired, exhausted] };
+  }
+  return {
+    AND: [
+      notExpired,
+      { NOT: exhausted },
+      { burnedAt: null },
+    ],
+  };
+};
+
+/**
+ * Lists the authenticated user's Zaps for the dashboard.
+ *
+ * @param req - Express request with optional query params:
+ *   page, limit, type (ZapType), status (active|expired|exhausted|burned),
+ *   search (name contains), sortBy (createdAt|name|viewCount|expiresAt), order (asc|desc)
+ * @param res - Express response
+ *
+ * @returns 200 with sanitized Zaps and pagination info
+ */
+export const listMyZaps = async (req: Request, res: Response): Promise<void> => {
   try {
-    await prisma.zap.deleteMany({
-      where: {
-        shortId: { in: shortIds },
-      },
-    });
+    const user: AuthUser | undefined = req.user;
+    if (!user) {
+      res.status(401).json(new ApiError(401, "Authentication required."));
+      return;
+    }
+
+    const { page, limit, type, status, search, sortBy, order } = req.query;
+
+    const parsedPage = page ? parseInt(page as string, 10) : 1;
+    const currentPage = !isNaN(parsedPage) && parsedPage > 0 ? parsedPage : 1;
+    const parsedLimit = limit ? parseInt(limit as string, 10) : 20;
+    const pageSize =
+      !isNaN(parsedLimit) && parsedLimit > 0 && parsedLimit <= 100
+        ? parsedLimit
+        : 20;
+
+    const where: Prisma.ZapWhereInput = { ownerId: user.id };
+    const filters: Prisma.ZapWhereInput[] = [];
+
+    if (type) {
+      filters.push({ type: type as ZapType });
+    }
+    if (status) {
+      filters.push(buildStatusFilter(status as ZapStatus));
+    }
+    if (search) {
+      filters.push({
+        name: { contains: search as string, mode: "insensitive" },
+      });
+    }
+    if (filters.length > 0) {
+      where.AND = filters;
+    }
+
+    const sortField = (sortBy as string) || "createdAt";
+    const sortOrder: Prisma.SortOrder = order === "asc" ? "asc" : "desc";
+
+    const [zaps, total] = await Promise.all([
+      prisma.zap.findMany({
+        where,
+        orderBy: [{ [sortField]: sortOrder }, { id: sortOrder }],
+        skip: (currentPage - 1) * pageSize,
+        take: pageSize,
+      }),
+      prisma.zap.count({ where }),
+    ]);
+
+    res.json(
+      new ApiResponse(
+        200,
+        {
+          zaps: zaps.map((zap) => ({ ...toSafeZap(zap), status: getZapStatus(zap) })),
+          pagination: {
+            page: currentPage,
+            limit: pageSize,
+            total,
+            totalPages: Math.ceil(total / pageSize),
+          },
+        },
+        "Success",
+      ),
+    );
+  } catch (error) {
+    console.error("Error in listMyZaps:", error);
+    res.status(500).json(new ApiError(500, "Internal server error"));
+  }
+};
+
+export const MANAGE_AUTH_REQUIRED_MESSAGE =
+  "Authorization required. Provide your deletionToken in the X-Deletion-Token header or sign in as the owner.";
+
+type AuditValue = string | number | null;
+type AuditChanges = Record<string, { from: AuditValue; to: AuditValue }>;
+
+/**
+ * Converts a date to something safe to store in the JSON audit trail.
+ */
+const toAuditValue = (value: Date | null): AuditValue =>
+  value ? value.toISOString() : null;
+
+/**
+ * Updates the settings of a live Zap.
+ *
+ * @param req - Express request with shortId param, the same authorization as
+ *   deleteZap, and any of: name, expiresAt, viewLimit, password,
+ *   quizQuestion, quizAnswer in the body. `null` clears a setting.
+ * @param res - Express response
+ *
+ * Passwords are re-validated and re-hashed, quiz answers re-hashed, and every
+ * change is recorded in ZapAuditLog in the same transaction as the update.
+ * Secrets are never written to the audit trail, only whether they were set.
+ *
+ * @returns 200 with the sanitized Zap, or 400/401/403/404, or 410 if the Zap
+ *   was burned after reading
+ */
+export const updateZap = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { shortId } = req.params;
+    const { name, expiresAt, viewLimit, password, quizQuestion, quizAnswer } =
+      req.body;
+    const token = req.get("x-deletion-token");
+
+    if (!token && !req.user) {
+      res.status(401).json(new ApiError(401, MANAGE_AUTH_REQUIRED_MESSAGE));
+      return;
+    }
+
+    const zap = await prisma.zap.findUnique({ where: { shortId } });
+
+    if (!zap) {
+      res.status(404).json(new ApiError(404, "Zap not found."));
+      return;
+    }
+
+    const role = getZapManagerRole(zap, req.user?.id, token);
+    if (!role) {
+      res
+        .status(403)
+        .json(
+          new ApiError(
+            403,
+            "Forbidden. Invalid token — you are not authorized to edit this Zap.",
+          ),
+        );
+      return;
+    }
+
+    if (zap.burnedAt) {
+      res.status(410).json(new ApiError(410, "This Zap was burned after reading."));
+      return;
+    }
+
+    // Same rule as createZap: the single view is the limit
+    if (zap.burnAfterReading && viewLimit !== undefined && viewLimit !== null) {
+      res
+        .status(400)
+        .json(
+          new ApiError(400, "burnAfterReading Zaps can be viewed exactly once; omit viewLimit."),
+        );
+      return;
+    }
+
+    const data: Prisma.ZapUpdateInput = {};
+    const changes: AuditChanges = {};
+
+    if (name !== undefined) {
+      const nextName = name || "Untitled Zap";
+      data.name = nextName;
+      changes.name = { from: zap.name, to: nextName };
+    }
+
+    if (expiresAt !== undefined) {
+      const nextExpiresAt = expiresAt === null ? null : new Date(expiresAt);
+      data.expiresAt = nextExpiresAt;
+      changes.expiresAt = {
+        from: toAuditValue(zap.expiresAt),
+        to: toAuditValue(nextExpiresAt),
+      };
+    }
+
+    if (viewLimit !== undefined) {
+      const nextViewLimit =
+        viewLimit === null ? null : parseInt(String(viewLimit), 10);
+      data.viewLimit = nextViewLimit;
+      changes.viewLimit = { from: zap.viewLimit, to: nextViewLimit };
+    }
+
+    if (password !== undefined) {
+      if (password === null) {
+        data.passwordHash = null;
+      } else {
+        const result = validatePasswordStrength(password);
+        if (!result.isValid) {
+          res
+            .status(400)
+            .json(new ApiError(400, "Weak password", result.errors));
+          return;
+        }
+        data.passwordHash = await bcrypt.hash(password, 10);
+      }
+      changes.password = {
+        from: zap.passwordHash ? "set" : "unset",
+        to: password === null ? "unset" : "set",
+      };
+    }
+
+    if (quizQuestion === null) {
+      data.quizQuestion = null;
+      data.quizAnswerHash = null;
+      changes.quiz = { from: zap.quizQuestion, to: null };
+    } else if (quizQuestion !== undefined || quizAnswer !== undefined) {
+      // Keep the current question when only the answer is swapped
+      const nextQuestion = quizQuestion ?? zap.quizQuestion;
+      if (!nextQuestion || !quizAnswer) {
+        res
+          .status(400)
+          .json(
+            new ApiError(
+              400,
+              "quizQuestion and quizAnswer must be provided together.",
+            ),
+          );
+        return;
+      }
+      data.quizQuestion = nextQuestion;
+      data.quizAnswerHash = await hashQuizAnswer(quizAnswer);
+      changes.quiz = { from: zap.quizQuestion, to: nextQuestion };
+    }
+
+    const [updatedZap] = await prisma.$transaction([
+      prisma.zap.update({ where: { id: zap.id }, data }),
+      prisma.zapAuditLog.create({
+        data: {
+          zapId: zap.id,
+          action: "update",
+          actorType: role,
+          actorId: role === "owner" ? req.user!.id : null,
+          changes,
+        },
+      }),
+    ]);
+
+    res.json(
+      new ApiResponse(
+        200,
+        { ...toSafeZap(updatedZap), status: getZapStatus(updatedZap) },
+        "Zap updated.",
+      ),
+    );
   } catch (error) {
-    console.error("Error in destroyZap:", error);
-    throw new Error("Failed to destroy Zap");
+    console.error("Error in updateZap:", error);
+
+    // Deleted concurrently between lookup and update
+    if (error instanceof Error && "code" in error && error.code === "P2025") {
+      res.status(404).json(new ApiError(404, "Zap not found."));
+      return;
+    }
+
+    res.status(500).json(new ApiError(500, "Internal server error"));
   }
 };
 
+/**
+ * Deletes a Zap on behalf of its creator.
+ *
+ * @param req - Express request with shortId param and either the deletionToken
+ *   returned at creation time in the `X-Deletion-Token` header or an owner's access token
+ * @param res - Express response
+ *
+ * Deletion goes through deleteZaps(), like the cleanup jobs: the row is
+ * removed first (its ZapAnalytics and versions go with it through the
+ * cascade) so the link stops working immediately, then the stored assets of
+ * every version are removed from their storage backend.
+ *
+ * @returns 200 on success, 401 without a token, 403 for a wrong token, 404 if not found
+ */
+export const deleteZap = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { shortId } = req.params;
+    const token = req.get("x-deletion-token");
+
+    if (!token && !req.user) {
+      res.status(401).json(new ApiError(401, MANAGE_AUTH_REQUIRED_MESSAGE));
+      return;
+    }
+
+    const zap = await prisma.zap.findUnique({ where: { shortId } });
+
+    if (!zap) {
+      res.status(404).json(new ApiError(404, "Zap not found."));
+      return;
+    }
+
+    if (!getZapManagerRole(zap, req.user?.id, token)) {
+      res
+        .status(403)
+        .json(
+          new ApiError(
+            403,
+            "Forbidden. Invalid token — you are not authorized to delete this Zap.",
+          ),
+        );
+      return;
+    }
+
+    const { deleted } = await deleteZaps([shortId], ZapTombstoneReason.DELETED);
+    // Deleted concurrently (e.g. by a cleanup job) between lookup and delete
+    if (deleted.length === 0) {
+      res.status(404).json(new ApiError(404, "Zap not found."));
+      return;
+    }
+
+    res.json(new ApiResponse(200, { shortId }, "Zap deleted."));
+  } catch (error) {
+    console.error("Error in deleteZap:", error);
+    res.status(500).json(new ApiError(500, "Internal server error"));
+  }
+};
+
+/**
+ * Why checkZapAccess refused a view: the error to send and the outcome
+ * logged in the Zap's analytics.
+ */
+interface AccessDenial {
+  error: ApiError;
+  outcome: ZapAccessOutcome;
+}
+
+/**
+ * Runs the viewer-side access checks shared by every route that reveals a
+ * Zap's content. The password and quiz answer are read from the query string.
+ *
+ * @param req - Express request with optional password/quizAnswer query params
+ * @param zap - The Zap being accessed
+ * @returns null when access is allowed, otherwise the denial
+ */
+const checkZapAccess = async (
+  req: Request,
+  zap: Zap,
+): Promise<AccessDenial | null> => {
+  const { password, quizAnswer } = req.query;
+
+  if (zap.burnedAt) {
+    // Burn-after-reading is a one-view limit that has been used
+    return {
+      error: new ApiError(410, "This Zap was burned after reading."),
+      outcome: ZapAccessOutcome.LIMIT_REACHED,
+    };
+  }
+
+  // Check expiration
+  if (zap.expiresAt && new Date() > zap.expiresAt) {
+    return {
+      error: new ApiError(410, "Zap has expired."),
+      outcome: ZapAccessOutcome.EXPIRED,
+    };
+  }
+
+  // Check view limit BEFORE incrementing (prevents over-limit access)
+  if (zap.viewLimit !== null && zap.viewCount >= zap.viewLimit) {
+    return {
+      error: new ApiError(410, "View limit exceeded."),
+      outcome: ZapAccessOutcome.LIMIT_REACHED,
+    };
+  }
+
+  if (zap.unlockAt && new Date() < new Date(zap.unlockAt)) {
+    return {
+      error: new ApiError(423, "File is currently locked."),
+      outcome: ZapAccessOutcome.LOCKED,
+    };
+  }
+  if (hasQuizProtection(zap)) {
+    if (
+      !quizAnswer ||
+      !(await verifyQuizAnswer(quizAnswer as string, zap.quizAnswerHash!))
+    ) {
+      return {
+        error: new ApiError(401, "Incorrect quiz answer."),
+        outcome: ZapAccessOutcome.WRONG_QUIZ,
+      };
+    }
+  }
+  if (zap.passwordHash) {
+    if (
+      !password ||
+      !(await verifyZapPassword(password as string, zap.passwordHash))
+    ) {
+      return {
+        error: new ApiError(401, "Invalid password."),
+        outcome: ZapAccessOutcome.WRONG_PASSWORD,
+      };
+    }
+    clearZapPasswordAttemptCounter(req, zap.shortId);
+  }
+
+  return null;
+};
+
+/**
+ * Logs an access attempt without delaying the response.
+ */
+const logAccessInBackground = (
+  zapId: string,
+  req: Request,
+  outcome?: ZapAccessOutcome,
+): void => {
+  logAccess(zapId, req, outcome).catch((err) =>
+    console.error("Failed to log access:", err)
+  );
+};
+
+/**
+ * Queues the zap.viewed webhooks of a view, and zap.exhausted if that view
+ * used the Zap up.
+ * @returns The number of deliveries queued
+ */
+const enqueueViewWebhooks = async (tx: Prisma.TransactionClient, zap: Zap): Promise<number> => {
+  let queued = await enqueueWebhookEvent(tx, zap, "zap.viewed");
+  if (zap.burnedAt || (zap.viewLimit !== null && zap.viewCount >= zap.viewLimit)) {
+    queued += await enqueueWebhookEvent(tx, zap, "zap.exhausted");
+  }
+  return queued;
+};
+
+/**
+ * Counts one view of a Zap, re-checking the view limit inside a transaction
+ * so concurrent viewers cannot push viewCount past viewLimit.
+ *
+ * Burn-after-reading Zaps are burned in the same transaction: their payload
+ * and version history are removed, so exactly one viewer ever gets them.
+ * Unless a file is kept for this view's download, the row is deleted too,
+ * leaving only a "burned" tombstone.
+ *
+ * @param shortId - The Zap's shortId
+ * @returns The updated Zap (for a burned Zap, still carrying the payload this
+ *   view is entitled to)
+ * @throws Error("ZAP_NOT_FOUND"), Error("VIEW_LIMIT_EXCEEDED") or Error("ZAP_BURNED")
+ */
+const recordZapView = async (shortId: string): Promise<Zap> => {
+  let staleAssetUrls: string[] = [];
+  let webhooksQueued = 0;
+
+  const zap = await prisma.$transaction(async (tx) => {
+    // Re-fetch to get the latest viewCount under concurrent requests
+    const currentZap = await tx.zap.findUnique({ where: { shortId } });
+
+    if (!currentZap) {
+      throw new Error("ZAP_NOT_FOUND");
+    }
+
+    if (currentZap.burnAfterReading) {
+      // Only the viewer whose conditional update wins gets the content
+      const burnedAt = new Date();
+      const keptFileUrl = getZapFileUrl(currentZap);
+      const { count } = await tx.zap.updateMany({
+        where: { id: currentZap.id, burnedAt: null },
+        data: {
+          viewCount: { increment: 1 },
+          burnedAt,
+          originalUrl: null,
+          e2eMetadata: null,
+          // Kept only for this view's download; see purgeBurnedContent
+          cloudUrl: keptFileUrl,
+        },
+      });
+      if (count === 0) {
+        throw new Error("ZAP_BURNED");
+      }
+
+      const versions = await tx.zapVersion.findMany({
+        where: { zapId: currentZap.id },
+        select: { cloudUrl: true },
+      });
+      await tx.zapVersion.deleteMany({ where: { zapId: currentZap.id } });
+      staleAssetUrls = versions
+        .map((version) => version.cloudUrl)
+        .filter((url) => url !== keptFileUrl);
+
+      const burnedZap = { ...currentZap, viewCount: currentZap.viewCount + 1, burnedAt };
+      webhooksQueued = await enqueueViewWebhooks(tx, burnedZap);
+      if (!keptFileUrl) {
+        const deletion = await deleteZapRows(tx, [shortId], ZapTombstoneReason.BURNED);
+        webhooksQueued += deletion.webhooksQueued;
+      }
+      return burnedZap;
+    }
+
+    // Check view limit with the latest data (prevents race conditions)
+    if (
+      currentZap.viewLimit !== null &&
+      currentZap.viewCount >= currentZap.viewLimit
+    ) {
+      throw new Error("VIEW_LIMIT_EXCEEDED");
+    }
+
+    // Increment view count atomically
+    const viewedZap = await tx.zap.update({
+      where: { shortId },
+      data: { viewCount: { increment: 1 } },
+    });
+    webhooksQueued = await enqueueViewWebhooks(tx, viewedZap);
+    return viewedZap;
+  });
+
+  if (webhooksQueued > 0) {
+    dispatchWebhooksSoon();
+  }
+  for (const assetUrl of new Set(staleAssetUrls)) {
+    await deleteStoredObject(assetUrl);
+  }
+
+  return zap;
+};
+
 /**
  * Retrieves a Zap by its shortId with full access control validation.
  * 
@@ -366,14 +1045,19 @@ export const destroyZap = async (shortIds: string[]) => {
  * 
  * Access Controls (checked in order):
  * 1. Zap existence
- * 2. Expiration timestamp
- * 3. View limit (before increment to prevent over-limit access)
- * 4. Unlock timestamp (delayed access)
- * 5. Quiz answer validation
- * 6. Password verification
+ * 2. Not already burned after reading
+ * 3. Expiration timestamp
+ * 4. View limit (before increment to prevent over-limit access)
+ * 5. Unlock timestamp (delayed access)
+ * 6. Quiz answer validation
+ * 7. Password verification
  * 
  * The view count is incremented atomically using a transaction to handle
- * concurrent requests safely and prevent race conditions.
+ * concurrent requests safely and prevent race conditions. Burn-after-reading
+ * Zaps are burned by that same transaction.
+ * 
+ * Every attempt on an existing Zap, refused or not, is logged to its
+ * analytics with its outcome.
  * 
  * @returns 200 with Zap data on success, or appropriate error status
  */
@@ -383,101 +1067,68 @@ export const getZapByShortId = async (
 ): Promise<void> => {
   try {
     const { shortId } = req.params;
-    const { password, quizAnswer } = req.query;
     const zap = await prisma.zap.findUnique({ where: { shortId } });
 
     if (!zap) {
-      res.status(404).json(new ApiError(404, "Zap not found."));
-      return;
-    }
-
-    // Check expiration
-    if (zap.expiresAt && new Date() > zap.expiresAt) {
-      res.status(410).json(new ApiError(410, "Zap has expired."));
-      return;
-    }
-
-    // Check view limit BEFORE incrementing (prevents over-limit access)
-    if (zap.viewLimit !== null && zap.viewCount >= zap.viewLimit) {
-      res.status(410).json(new ApiError(410, "View limit exceeded."));
+      // 410 with the reason for Zaps that have been deleted
+      const missingError = await getMissingZapError(shortId);
+      res.status(missingError.statusCode).json(missingError);
       return;
     }
 
-    if (zap.unlockAt && new Date() < new Date(zap.unlockAt)) {
-      res.status(423).json(new ApiError(423, "File is currently locked."));
+    const denial = await checkZapAccess(req, zap);
+    if (denial) {
+      logAccessInBackground(zap.id, req, denial.outcome);
+      res.status(denial.error.statusCode).json(denial.error);
       return;
     }
-    if (hasQuizProtection(zap)) {
-      if (
-        !quizAnswer ||
-        !(await verifyQuizAnswer(quizAnswer as string, zap.quizAnswerHash!))
-      ) {
-        res.status(401).json(new ApiError(401, "Incorrect quiz answer."));
-        return;
-      }
-    }
-    if (zap.passwordHash) {
-      if (
-        !password ||
-        !(await verifyZapPassword(password as string, zap.passwordHash))
-      ) {
-        res.status(401).json(new ApiError(401, "Invalid password."));
-        return;
-      }
-      clearZapPasswordAttemptCounter(req, shortId);
-    }
 
     // Atomic view count increment with race condition protection
     let updatedZap;
     try {
-      updatedZap = await prisma.$transaction(async (tx) => {
-        // Re-fetch to get the latest viewCount under concurrent requests
-        const currentZap = await tx.zap.findUnique({ where: { shortId } });
-
-        if (!currentZap) {
-          throw new Error("ZAP_NOT_FOUND");
-        }
-
-        // Check view limit with the latest data (prevents race conditions)
-        if (
-          currentZap.viewLimit !== null &&
-          currentZap.viewCount >= currentZap.viewLimit
-        ) {
-          throw new Error("VIEW_LIMIT_EXCEEDED");
-        }
-
-        // Increment view count atomically
-        return await tx.zap.update({
-          where: { shortId },
-          data: { viewCount: { increment: 1 } },
-        });
-      });
+      updatedZap = await recordZapView(shortId);
     } catch (txError: any) {
       if (txError.message === "ZAP_NOT_FOUND") {
-        res.status(404).json(new ApiError(404, "Zap not found."));
+        const missingError = await getMissingZapError(shortId);
+        res.status(missingError.statusCode).json(missingError);
         return;
       }
       if (txError.message === "VIEW_LIMIT_EXCEEDED") {
+        logAccessInBackground(zap.id, req, ZapAccessOutcome.LIMIT_REACHED);
         res.status(410).json(new ApiError(410, "View limit exceeded."));
         return;
       }
+      if (txError.message === "ZAP_BURNED") {
+        logAccessInBackground(zap.id, req, ZapAccessOutcome.LIMIT_REACHED);
+        res.status(410).json(new ApiError(410, "This Zap was burned after reading."));
+        return;
+      }
       throw txError; // Re-throw unexpected errors
     }
 
-    // Non-blocking analytics — do not await to avoid delaying the response
-    logAccess(zap.id, req).catch((err) =>
-      console.error("Failed to log access:", err)
-    );
+    // Non-blocking analytics — do not await to avoid delaying the response.
+    // A burned Zap without a file is already deleted along with its analytics.
+    if (!updatedZap.burnedAt || getZapFileUrl(updatedZap)) {
+      logAccessInBackground(zap.id, req);
+    }
 
-    // Sanitize response — strip all server-side secrets before sending to client
-    const {
-      passwordHash: _passwordHash,
-      quizAnswerHash: _quizAnswerHash,
-      deletionToken: _deletionToken,
-      ...safeZap
-    } = updatedZap;
+    // Files are only reachable through a short-lived link bound to this view
+    const contentUrl = getZapFileUrl(updatedZap) ? buildSignedContentUrl(updatedZap) : null;
+
+    // End-to-end encrypted text goes back exactly as the client uploaded it
+    const ciphertext =
+      updatedZap.e2eEncrypted && updatedZap.originalUrl?.startsWith(E2E_CONTENT_PREFIX)
+        ? updatedZap.originalUrl.substring(E2E_CONTENT_PREFIX.length)
+        : null;
 
-    res.json(new ApiResponse(200, safeZap, "Success"));
+    // Sanitize response — strip all server-side secrets before sending to client
+    res.json(
+      new ApiResponse(
+        200,
+        { ...toSafeZap(updatedZap), contentUrl, ...(ciphertext !== null ? { ciphertext } : {}) },
+        "Success",
+      ),
+    );
   } catch (error) {
     console.error("Error in getZapByShortId:", error);
     res.status(500).json(new ApiError(500, "Internal server error"));
@@ -515,29 +1166,36 @@ export const shortenUrl = async (req: Request, res: Response): Promise<void> =>
       return;
     }
 
-    // Generate unique short ID
-    const shortId = nanoid();
+    // Generate unique short ID (never one of a deleted Zap)
+    const shortId = await generateUniqueId("shortId");
     const zapId = nanoid();
     const deletionToken = nanoid();
 
-    // Create Zap with URL type
-    await prisma.zap.create({
-      data: {
-        type: "URL",
-        name: url.length > 50 ? url.substring(0, 47) + "..." : url,
-        cloudUrl: url,
-        originalUrl: url,
-        shortId,
-        qrId: zapId,
-        deletionToken,
-        passwordHash: null,
-        viewLimit: null,
-        expiresAt: null,
-        quizQuestion: null,
-        quizAnswerHash: null,
-        unlockAt: null,
-      },
+    // Create Zap with URL type, queuing its zap.created webhooks with it
+    const webhooksQueued = await prisma.$transaction(async (tx) => {
+      const zap = await tx.zap.create({
+        data: {
+          type: "URL",
+          name: url.length > 50 ? url.substring(0, 47) + "..." : url,
+          cloudUrl: url,
+          originalUrl: url,
+          shortId,
+          qrId: zapId,
+          deletionToken,
+          passwordHash: null,
+          viewLimit: null,
+          expiresAt: null,
+          quizQuestion: null,
+          quizAnswerHash: null,
+          unlockAt: null,
+          ownerId: req.user?.id ?? null,
+        },
+      });
+      return enqueueWebhookEvent(tx, zap, "zap.created");
     });
+    if (webhooksQueued > 0) {
+      dispatchWebhooksSoon();
+    }
 
     // Generate short URL and QR code
     const shortUrl = `${FRONTEND_URL}/zaps/${shortId}`;
@@ -597,7 +1255,8 @@ export const shortenUrl = async (req: Request, res: Response): Promise<void> =>
  * @param req - Express request with shortId param
  * @param res - Express response
  * 
- * @returns 200 with name, quizQuestion, and hasPassword fields
+ * @returns 200 with name, quizQuestion, hasPassword, e2eEncrypted and
+ *   burnAfterReading fields
  */
 export const getZapMetadata = async (
   req: Request,
@@ -608,7 +1267,8 @@ export const getZapMetadata = async (
       where: { shortId: req.params.shortId },
     });
     if (!zap) {
-      res.status(404).json(new ApiError(404, "Not found"));
+      const missingError = await getMissingZapError(req.params.shortId, "Not found");
+      res.status(missingError.statusCode).json(missingError);
       return;
     }
     res.json(
@@ -618,6 +1278,8 @@ export const getZapMetadata = async (
           name: zap.name,
           quizQuestion: zap.quizQuestion,
           hasPassword: !!zap.passwordHash,
+          e2eEncrypted: zap.e2eEncrypted,
+          burnAfterReading: zap.burnAfterReading,
         },
         "Success",
       ),
@@ -641,6 +1303,9 @@ export const verifyQuizForZap = async (
       return;
     }
     const isCorrect = await verifyQuizAnswer(answer, zap.quizAnswerHash);
+    if (!isCorrect) {
+      logAccessInBackground(zap.id, req, ZapAccessOutcome.WRONG_QUIZ);
+    }
     res.json(
       new ApiResponse(
         isCorrect ? 200 : 401,
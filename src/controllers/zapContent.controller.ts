@@ -0,0 +1,135 @@
+import { Request, Response } from "express";
+import * as path from "path";
+import { pipeline } from "stream/promises";
+import { ApiError } from "../utils/ApiError";
+import {
+  buildContentDisposition,
+  parseRangeHeader,
+  ResolvedRange,
+} from "../utils/contentDelivery";
+import { getStorageForUrl, getZapFileUrl, StoredObjectStream } from "../services/storage";
+import { purgeBurnedContent } from "../services/burnAfterReading.service";
+import {
+  ENCRYPTED_FILE_CONTENT_TYPE,
+  openDecryptedStream,
+  unwrapFileKey,
+} from "../services/fileEncryption.service";
+
+/**
+ * Streams a file Zap's bytes through the API, so the storage location is
+ * never revealed to the viewer. Runs behind requireSignedContentUrl: the
+ * viewer's access checks and view count happened when the link was issued
+ * by GET /api/zaps/:shortId. Encrypted Zaps are decrypted on the fly;
+ * end-to-end encrypted Zaps are served as the ciphertext the client uploaded.
+ * A burned Zap's file is purged once it has been downloaded in full.
+ *
+ * @param req - Express request with the verified `req.zap`, optional
+ *   `download=1` and an optional `Range` header
+ * @param res - Express response
+ *
+ * @returns 200 or 206 with the file, 416 for an unsatisfiable range
+ */
+export const getZapContent = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const zap = req.zap!;
+
+    // Never proxy a URL Zap's target, whatever host it points at
+    const storage = getStorageForUrl(getZapFileUrl(zap));
+    if (!storage) {
+      res
+        .status(400)
+        .json(new ApiError(400, "This Zap has no downloadable content."));
+      return;
+    }
+    const storedUrl = zap.cloudUrl!;
+    const currentVersion = zap.versions.find(
+      (version) => version.version === zap.currentVersion,
+    );
+
+    const dataKey = zap.fileKey ? unwrapFileKey(zap.fileKey) : null;
+
+    // Older Zaps have no recorded size; ask the backend with a 1-byte read
+    let size = currentVersion?.size ?? null;
+    if (size === null && dataKey) {
+      // Encrypted Zaps always record the plaintext size
+      throw new Error("ENCRYPTED_FILE_CORRUPT");
+    }
+    if (size === null) {
+      const probe = await storage.stream(storedUrl, { start: 0, end: 0 });
+      probe.stream.destroy();
+      size = probe.size ?? null;
+    }
+
+    let range: ResolvedRange | null = null;
+    if (size !== null) {
+      const parsed = parseRangeHeader(req.get("range"), size);
+      if (parsed === "unsatisfiable") {
+        res.set("Content-Range", `bytes */${size}`);
+        res.status(416).json(new ApiError(416, "Requested range not satisfiable."));
+        return;
+      }
+      range = parsed;
+    }
+
+    const fileName = currentVersion?.fileName || zap.name || "download";
+    const object: StoredObjectStream = dataKey
+      ? {
+          stream: await openDecryptedStream(storage, storedUrl, dataKey, size!, range ?? undefined),
+          size: size!,
+        }
+      : await storage.stream(storedUrl, range ?? undefined);
+
+    const extension = path.extname(fileName).slice(1);
+    res.type(
+      zap.e2eEncrypted
+        ? ENCRYPTED_FILE_CONTENT_TYPE
+        : extension || object.contentType || "application/octet-stream",
+    );
+    res.set(
+      "Content-Disposition",
+      buildContentDisposition(
+        req.query.download === "1" || req.query.download === "true" ? "attachment" : "inline",
+        fileName,
+      ),
+    );
+    res.set("Accept-Ranges", "bytes");
+    res.set("Cache-Control", "private, no-store");
+
+    const totalSize = size ?? object.size;
+    if (range && totalSize !== undefined) {
+      res.status(206);
+      res.set("Content-Range", `bytes ${range.start}-${range.end}/${totalSize}`);
+      res.set("Content-Length", String(range.end - range.start + 1));
+    } else if (totalSize !== undefined) {
+      res.set("Content-Length", String(totalSize));
+    }
+
+    if (req.method === "HEAD") {
+      object.stream.destroy();
+      res.end();
+      return;
+    }
+
+    try {
+      await pipeline(object.stream, res);
+    } catch (streamError: any) {
+      // The viewer closing the connection mid-download is not a server error
+      if (streamError.code !== "ERR_STREAM_PREMATURE_CLOSE") {
+        console.error("Error streaming Zap content:", streamError);
+      }
+      return;
+    }
+
+    // Partial downloads leave the file for the sweep once the link expires
+    if (zap.burnedAt && !range) {
+      await purgeBurnedContent(zap);
+    }
+  } catch (error) {
+    console.error("Error in getZapContent:", error);
+    if (res.headersSent) {
+      res.destroy();
+      return;
+    }
+    res.status(500).json(new ApiError(500, "Internal server error"));
+  }
+};
@@ -0,0 +1,114 @@
+import { Request, Response } from "express";
+import prisma from "../utils/prismClient";
+import { ApiError } from "../utils/ApiError";
+import { buildContentDisposition } from "../utils/contentDelivery";
+import { getMissingZapError } from "../services/tombstone.service";
+import {
+  getQrCodeETag,
+  QR_CONTENT_TYPES,
+  QrCodeOptions,
+  QrErrorCorrectionLevel,
+  QrFormat,
+  renderQrCode,
+} from "../services/qrCode.service";
+
+const FRONTEND_URL = process.env.FRONTEND_URL || "http://localhost:5173";
+
+/** A code only changes with its options, so clients and CDNs may keep it a day */
+const QR_CACHE_CONTROL = "public, max-age=86400";
+
+const QR_LOGO_ERRORS: Record<string, ApiError> = {
+  QR_LOGO_FORBIDDEN_HOST: new ApiError(400, "logo must be hosted on a public address."),
+  QR_LOGO_UNAVAILABLE: new ApiError(422, "The logo could not be downloaded."),
+  QR_LOGO_TOO_LARGE: new ApiError(413, "The logo must be at most 512KB."),
+  QR_LOGO_NOT_PNG: new ApiError(415, "The logo must be a PNG of at most 2048 pixels a side and 1 megapixel."),
+};
+
+/** "1a2b3c" / "#1A2B3C80" -> "#1a2b3cff" / "#1a2b3c80" */
+const normalizeColor = (color: string): string => {
+  const hex = color.replace(/^#/, "").toLowerCase();
+  return `#${hex.length === 6 ? `${hex}ff` : hex}`;
+};
+
+/**
+ * Reads the rendering options from a query already checked by
+ * getZapQrCodeSchema. A logo defaults the error correction to H, so the
+ * code still scans with its middle covered.
+ */
+const parseQrCodeOptions = (query: Request["query"]): QrCodeOptions => {
+  const logoUrl = query.logo as string | undefined;
+  return {
+    format: (query.format as QrFormat | undefined) ?? "png",
+    size: query.size ? parseInt(query.size as string, 10) : 512,
+    margin: query.margin ? parseInt(query.margin as string, 10) : 4,
+    errorCorrectionLevel:
+      (query.ecc as QrErrorCorrectionLevel | undefined) ?? (logoUrl ? "H" : "M"),
+    foreground: normalizeColor((query.fg as string | undefined) ?? "000000"),
+    background: normalizeColor((query.bg as string | undefined) ?? "ffffff"),
+    ...(logoUrl ? { logoUrl } : {}),
+  };
+};
+
+/**
+ * Renders the QR code of a Zap's short link. Anyone may render it: the code
+ * only carries the link, never the Zap's content.
+ *
+ * @param req - Express request with `shortId` and optional format, size,
+ *   margin, ecc, fg, bg and logo query params
+ * @param res - Express response
+ *
+ * @returns 200 with the image or PDF (with an ETag), 304 when the client's
+ *   copy is current, 404/410 for missing Zaps, 4xx when the logo is unusable
+ */
+export const getZapQrCode = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { shortId } = req.params;
+    const zap = await prisma.zap.findUnique({
+      where: { shortId },
+      select: { id: true },
+    });
+    if (!zap) {
+      const missingError = await getMissingZapError(shortId);
+      res.status(missingError.statusCode).json(missingError);
+      return;
+    }
+
+    const options = parseQrCodeOptions(req.query);
+    if (options.foreground === options.background) {
+      res.status(400).json(new ApiError(400, "fg and bg must be different colors."));
+      return;
+    }
+
+    const text = `${FRONTEND_URL}/zaps/${shortId}`;
+    res.set({
+      ETag: getQrCodeETag(text, options),
+      "Cache-Control": QR_CACHE_CONTROL,
+    });
+    if (req.fresh) {
+      res.status(304).end();
+      return;
+    }
+
+    const body = await renderQrCode(text, options);
+    res
+      .type(QR_CONTENT_TYPES[options.format])
+      .set(
+        "Content-Disposition",
+        buildContentDisposition("inline", `${shortId}-qr.${options.format}`),
+      )
+      .send(body);
+  } catch (error) {
+    // Errors must not be cached under the image's ETag
+    res.removeHeader("ETag");
+    res.removeHeader("Cache-Control");
+
+    const logoError = error instanceof Error ? QR_LOGO_ERRORS[error.message] : undefined;
+    if (logoError) {
+      res.status(logoError.statusCode).json(logoError);
+      return;
+    }
+
+    console.error("Error in getZapQrCode:", error);
+    res.status(500).json(new ApiError(500, "Internal server error"));
+  }
+};
@@ -0,0 +1,389 @@
+import crypto from "crypto";
+import { Request, Response } from "express";
+import { Zap } from "@prisma/client";
+import prisma from "../utils/prismClient";
+import { ApiError } from "../utils/ApiError";
+import { ApiResponse } from "../utils/ApiResponse";
+import { getZapManagerRole, ZapManagerRole } from "../utils/accessControl";
+import {
+  commitPendingUpload,
+  rollBackPendingUpload,
+  uploadPending,
+} from "../services/pendingUpload.service";
+import {
+  assertFileSignatureMatches,
+  computeFileChecksum,
+  openUploadedFile,
+} from "../utils/fileValidator";
+import {
+  ENCRYPTED_FILE_CONTENT_TYPE,
+  encryptUploadBody,
+  getEncryptedSize,
+  unwrapFileKey,
+} from "../services/fileEncryption.service";
+import { getStorageForUrl } from "../services/storage";
+import {
+  extractDocxContent,
+  MANAGE_AUTH_REQUIRED_MESSAGE,
+} from "./zap.controller";
+
+/**
+ * Loads a Zap and checks that the caller may manage it (owner or deletionToken).
+ * Responds with 401/403/404 itself and returns null when access is denied,
+ * and with 410 for a Zap burned after reading, whose history is gone.
+ */
+const findManagedZap = async (
+  req: Request,
+  res: Response,
+): Promise<{ zap: Zap; role: ZapManagerRole } | null> => {
+  const token = req.get("x-deletion-token");
+
+  if (!token && !req.user) {
+    res.status(401).json(new ApiError(401, MANAGE_AUTH_REQUIRED_MESSAGE));
+    return null;
+  }
+
+  const zap = await prisma.zap.findUnique({
+    where: { shortId: req.params.shortId },
+  });
+
+  if (!zap) {
+    res.status(404).json(new ApiError(404, "Zap not found."));
+    return null;
+  }
+
+  const role = getZapManagerRole(zap, req.user?.id, token);
+  if (!role) {
+    res
+      .status(403)
+      .json(
+        new ApiError(
+          403,
+          "Forbidden. Invalid token — you are not authorized to manage versions of this Zap.",
+        ),
+      );
+    return null;
+  }
+
+  if (zap.burnedAt) {
+    res.status(410).json(new ApiError(410, "This Zap was burned after reading."));
+    return null;
+  }
+
+  return { zap, role };
+};
+
+/**
+ * SHA-256 checksum and size of a Zap's stored file, for Zaps created before
+ * versioning whose file is recorded as version 1 only when a new one arrives.
+ * Those predate encryption at rest; null (unknown) if the file cannot be read.
+ */
+const describeLegacyFile = async (
+  zap: Zap,
+): Promise<{ checksum: string; size: number } | null> => {
+  const storage = getStorageForUrl(zap.cloudUrl);
+  if (!storage || zap.fileKey) return null;
+
+  try {
+    const { stream } = await storage.stream(zap.cloudUrl!);
+    const hash = crypto.createHash("sha256");
+    let size = 0;
+    for await (const chunk of stream) {
+      hash.update(chunk);
+      size += chunk.length;
+    }
+    return { checksum: hash.digest("hex"), size };
+  } catch (error) {
+    console.error(`Could not checksum ${zap.cloudUrl} for version 1:`, error);
+    return null;
+  }
+};
+
+/**
+ * URL and text Zaps have no uploaded file, so they cannot be versioned.
+ */
+const isFileZap = (zap: Zap): boolean =>
+  zap.type !== "URL" && zap.type !== "TEXT" && !!zap.cloudUrl;
+
+/**
+ * Uploads new content for an existing Zap without changing its shortId.
+ *
+ * @param req - Express request with shortId param, a `file` upload and the
+ *   same authorization as PATCH /api/zaps/:shortId
+ * @param res - Express response
+ *
+ * The file goes through the same MIME-spoofing check as createZap. The new
+ * version becomes current immediately; older versions stay listable and
+ * restorable. Zaps created before versioning get their existing file
+ * recorded as version 1 first.
+ *
+ * @returns 201 with the new version, or 400/401/403/404/409/410/415
+ */
+export const uploadZapVersion = async (
+  req: Request,
+  res: Response,
+): Promise<void> => {
+  // Set once the file is in storage; rolled back if the version is not created
+  let pendingUploadId: string | null = null;
+  try {
+    const file = req.file;
+    if (!file) {
+      res.status(400).json(new ApiError(400, "Provide a file."));
+      return;
+    }
+
+    const managed = await findManagedZap(req, res);
+    if (!managed) return;
+    const { zap, role } = managed;
+
+    if (!isFileZap(zap)) {
+      res
+        .status(400)
+        .json(new ApiError(400, "Only file Zaps can have new versions."));
+      return;
+    }
+
+    // --- TEAM T066: SECURITY VALIDATION ---
+    // Skipped for end-to-end encrypted Zaps: ciphertext has no magic bytes
+    try {
+      if (!zap.e2eEncrypted) await assertFileSignatureMatches(file);
+    } catch (signatureError) {
+      if (signatureError instanceof ApiError) {
+        res.status(signatureError.statusCode).json(signatureError);
+        return;
+      }
+      throw signatureError;
+    }
+    const providedExt = file.originalname.split(".").pop()?.toLowerCase() || "";
+
+    // Versions of an encrypted Zap are encrypted with the same data key
+    const stored = zap.fileKey
+      ? await uploadPending(
+          encryptUploadBody(openUploadedFile(file), unwrapFileKey(zap.fileKey)),
+          {
+            fileName: file.originalname,
+            contentType: ENCRYPTED_FILE_CONTENT_TYPE,
+            size: getEncryptedSize(file.size),
+          },
+        )
+      : await uploadPending(openUploadedFile(file), {
+          fileName: file.originalname,
+          contentType: zap.e2eEncrypted ? ENCRYPTED_FILE_CONTENT_TYPE : file.mimetype,
+          size: file.size,
+        });
+    pendingUploadId = stored.pendingUploadId;
+    const contentToStore =
+      !zap.e2eEncrypted && zap.type === "WORD" && providedExt === "docx"
+        ? await extractDocxContent(file)
+        : null;
+    const checksum = await computeFileChecksum(file);
+    const legacyFile = zap.currentVersion === null ? await describeLegacyFile(zap) : null;
+
+    const uploadId = stored.pendingUploadId;
+    const version = await prisma.$transaction(async (tx) => {
+      await commitPendingUpload(tx, uploadId);
+
+      const latest = await tx.zapVersion.findFirst({
+        where: { zapId: zap.id },
+        orderBy: { version: "desc" },
+        select: { version: true },
+      });
+
+      let nextVersion = (latest?.version ?? 0) + 1;
+
+      // Record the pre-versioning file so it can still be restored
+      if (!latest && zap.cloudUrl) {
+        await tx.zapVersion.create({
+          data: {
+            zapId: zap.id,
+            version: 1,
+            cloudUrl: zap.cloudUrl,
+            originalUrl: zap.originalUrl,
+            checksum: legacyFile?.checksum ?? null,
+            fileName: zap.name,
+            size: legacyFile?.size ?? null,
+          },
+        });
+        nextVersion = 2;
+      }
+
+      const created = await tx.zapVersion.create({
+        data: {
+          zapId: zap.id,
+          version: nextVersion,
+          cloudUrl: stored.url,
+          originalUrl: contentToStore,
+          checksum,
+          fileName: file.originalname,
+          size: file.size,
+        },
+      });
+
+      await tx.zap.update({
+        where: { id: zap.id },
+        data: {
+          cloudUrl: created.cloudUrl,
+          originalUrl: created.originalUrl,
+          currentVersion: created.version,
+        },
+      });
+
+      await tx.zapAuditLog.create({
+        data: {
+          zapId: zap.id,
+          action: "version_upload",
+          actorType: role,
+          actorId: role === "owner" ? req.user!.id : null,
+          changes: {
+            currentVersion: { from: zap.currentVersion, to: created.version },
+          },
+        },
+      });
+
+      return created;
+    });
+
+    res.status(201).json(
+      new ApiResponse(
+        201,
+        {
+          version: version.version,
+          checksum: version.checksum,
+          fileName: version.fileName,
+          size: version.size,
+          createdAt: version.createdAt,
+          isCurrent: true,
+        },
+        "New version uploaded.",
+      ),
+    );
+  } catch (error) {
+    console.error("Error in uploadZapVersion:", error);
+
+    if (pendingUploadId) {
+      await rollBackPendingUpload(pendingUploadId);
+    }
+
+    // Two uploads for the same Zap raced for the same version number
+    if (error instanceof Error && "code" in error && error.code === "P2002") {
+      res
+        .status(409)
+        .json(
+          new ApiError(409, "Another version was uploaded at the same time. Please try again."),
+        );
+      return;
+    }
+
+    res.status(500).json(new ApiError(500, "Internal server error"));
+  }
+};
+
+/**
+ * Lists every stored version of a Zap, newest first. Storage URLs are left
+ * out: files are only served through signed content links.
+ *
+ * @returns 200 with the versions and which one is current
+ */
+export const listZapVersions = async (
+  req: Request,
+  res: Response,
+): Promise<void> => {
+  try {
+    const managed = await findManagedZap(req, res);
+    if (!managed) return;
+    const { zap } = managed;
+
+    const versions = await prisma.zapVersion.findMany({
+      where: { zapId: zap.id },
+      orderBy: { version: "desc" },
+    });
+
+    res.json(
+      new ApiResponse(
+        200,
+        {
+          currentVersion: zap.currentVersion,
+          versions: versions.map((version) => ({
+            version: version.version,
+            checksum: version.checksum,
+            fileName: version.fileName,
+            size: version.size,
+            createdAt: version.createdAt,
+            isCurrent: version.version === zap.currentVersion,
+          })),
+        },
+        "Success",
+      ),
+    );
+  } catch (error) {
+    console.error("Error in listZapVersions:", error);
+    res.status(500).json(new ApiError(500, "Internal server error"));
+  }
+};
+
+/**
+ * Makes an older version the current content of a Zap again.
+ *
+ * @returns 200 with the restored version, 404 if that version does not exist,
+ *   or 410 if the Zap was burned
+ */
+export const restoreZapVersion = async (
+  req: Request,
+  res: Response,
+): Promise<void> => {
+  try {
+    const managed = await findManagedZap(req, res);
+    if (!managed) return;
+    const { zap, role } = managed;
+
+    const versionNumber = parseInt(req.params.version, 10);
+    const version = await prisma.zapVersion.findUnique({
+      where: { zapId_version: { zapId: zap.id, version: versionNumber } },
+    });
+
+    if (!version) {
+      res.status(404).json(new ApiError(404, "Version not found."));
+      return;
+    }
+
+    await prisma.$transaction([
+      prisma.zap.update({
+        where: { id: zap.id },
+        data: {
+          cloudUrl: version.cloudUrl,
+          originalUrl: version.originalUrl,
+          currentVersion: version.version,
+        },
+      }),
+      prisma.zapAuditLog.create({
+        data: {
+          zapId: zap.id,
+          action: "version_restore",
+          actorType: role,
+          actorId: role === "owner" ? req.user!.id : null,
+          changes: {
+            currentVersion: { from: zap.currentVersion, to: version.version },
+          },
+        },
+      }),
+    ]);
+
+    res.json(
+      new ApiResponse(
+        200,
+        {
+          version: version.version,
+          checksum: version.checksum,
+          fileName: version.fileName,
+          size: version.size,
+          createdAt: version.createdAt,
+          isCurrent: true,
+        },
+        "Version restored.",
+      ),
+    );
+  } catch (error) {
+    console.error("Error in restoreZapVersion:", error);
+    res.status(500).json(new ApiError(500, "Internal server error"));
+  }
+};
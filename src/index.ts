@@ -4,18 +4,13 @@ import helmet from "helmet";
 import dotenv from "dotenv";
 import routes from "./Routes/index";
 import cookieParser from "cookie-parser";
-import cron from "node-cron";
-import {
-  deleteExpiredZaps,
-  deleteOverLimitZaps,
-} from "./utils/cleanup";
 import rateLimit from "express-rate-limit";
 import swaggerUi from "swagger-ui-express";
 import swaggerSpec from "./swagger";
 import { globalLimiter } from "./middlewares/rateLimiter";
-import { cleanupExpiredZaps } from "./jobs/cleanupExpiredZaps";
 import multer from "multer";
-import { initializeCronJobs } from "./utils/cron";
+import { startJobs, stopJobs } from "./jobs";
+import { closeAccessEventBus } from "./services/accessEvents";
 import prisma from "./utils/prismClient";
 import { requestLogger } from "./middlewares/logger";
 
@@ -48,8 +43,10 @@ app.use(
     origin: (process.env.CORS_ORIGIN || "http://localhost:5173")
       .split(",")
       .map((o) => o.trim()),
-    methods: "GET,POST,PUT,DELETE",
-    allowedHeaders: "Content-Type,Authorization",
+    methods: "GET,POST,PUT,PATCH,DELETE",
+    allowedHeaders: "Content-Type,Authorization,X-Deletion-Token",
+    exposedHeaders:
+      "Location,Upload-Offset,Upload-Length,Content-Range,Content-Disposition,Accept-Ranges",
     credentials: true,
   }),
 );
@@ -104,22 +101,17 @@ const apiLimiter = rateLimit({
   max: process.env.NODE_ENV === "development" ? 1000 : 100, // higher in dev
   standardHeaders: true,
   legacyHeaders: false,
-  skip: (req) => req.path === "/favicon.ico" || req.path === "/",
+  skip: (req) =>
+    req.path === "/favicon.ico" ||
+    req.path === "/" ||
+    // Resumable upload chunks are throttled by chunkUploadLimiter instead
+    (req.method === "PUT" && /^\/api\/uploads\/[^/]+\/chunks\//.test(req.path)),
 });
 app.use(apiLimiter);
 
 // Use Routes
 app.use("/api", routes);
 
-// ── Scheduled Cleanup Jobs ────────────────────────────────────────────────────
-// Runs every hour at minute 0 — sweeps expired and over-limit Zaps.
-const cleanupTask = cron.schedule("0 * * * *", async () => {
-  console.log("[Cron] Running scheduled Zap cleanup...");
-  await deleteExpiredZaps();
-  await deleteOverLimitZaps();
-  console.log("[Cron] Cleanup complete.");
-});
-
 // ── Start Server ──────────────────────────────────────────────────────────────
 const PORT = process.env.PORT || 3000;
 let server: any;
@@ -127,23 +119,12 @@ if (process.env.NODE_ENV !== "test") {
   server = app.listen(PORT, () => {
     console.log(`Server is running on port ${PORT}`);
   });
-}
-
-// ── Cleanup Job ───────────────────────────────────────────────────────────────
-// Cleanup expired Zaps every hour (configurable via CLEANUP_INTERVAL_MS env var)
-const CLEANUP_INTERVAL_MS = parseInt(
-  process.env.CLEANUP_INTERVAL_MS || "3600000"
-); // Default: 1 hour
-
-console.log(
-  `[Cleanup] Scheduled cleanup job every ${CLEANUP_INTERVAL_MS / 1000 / 60} minutes`
-);
-
-// Run cleanup immediately on startup
-cleanupExpiredZaps();
 
-// Schedule periodic cleanup
-const cleanupInterval = setInterval(cleanupExpiredZaps, CLEANUP_INTERVAL_MS);
+  // ── Background Jobs ───────────────────────────────────────────────────────
+  // Cleanup of expired, over-limit and burned Zaps and abandoned uploads; see
+  // src/jobs/cleanupJobs.ts for the schedules (JOB_SCHEDULE_* overrides them).
+  startJobs();
+}
 
 export default app;
 
@@ -167,7 +148,15 @@ async function gracefulShutdown(signal: string) {
   }, 10_000);
   forceExitTimeout.unref();
 
-  // 2. Stop accepting new connections and wait for in-flight requests
+  // 2. End live event streams, which would otherwise keep the server open
+  try {
+    await closeAccessEventBus();
+    console.log("[Shutdown] Access event streams closed.");
+  } catch (err) {
+    console.error("[Shutdown] Error closing access event streams:", err);
+  }
+
+  // 3. Stop accepting new connections and wait for in-flight requests
   await new Promise<void>((resolve) => {
     if (server) {
       server.close(() => {
@@ -179,18 +168,14 @@ async function gracefulShutdown(signal: string) {
     }
   });
 
-  // 3. Stop cron jobs
+  // 4. Stop scheduled jobs
   try {
-    cleanupTask.stop();
-    console.log("[Shutdown] Cron jobs stopped.");
+    stopJobs();
+    console.log("[Shutdown] Scheduled jobs stopped.");
   } catch (err) {
-    console.error("[Shutdown] Error stopping cron jobs:", err);
+    console.error("[Shutdown] Error stopping scheduled jobs:", err);
   }
 
-  // 4. Stop interval-based cleanup
-  clearInterval(cleanupInterval);
-  console.log("[Shutdown] Cleanup interval cleared.");
-
   // 5. Disconnect Prisma client
   try {
     await prisma.$disconnect();
@@ -0,0 +1,55 @@
+import prisma from "../../utils/prismClient";
+import { deleteZaps } from "../../services/zapDeletion.service";
+
+jest.mock("../../utils/prismClient", () => ({
+  __esModule: true,
+  default: {
+    zap: { findMany: jest.fn() },
+    $queryRaw: jest.fn(),
+  },
+}));
+jest.mock("../../services/zapDeletion.service", () => ({
+  __esModule: true,
+  deleteZaps: jest.fn(),
+}));
+
+// Import after mocks
+import { deleteExpiredZaps, deleteOverLimitZaps } from "../cleanupJobs";
+
+const page = (count: number, offset = 0) =>
+  Array.from({ length: count }, (_, i) => ({ shortId: `zap${offset + i}` }));
+
+describe("cleanupJobs", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (deleteZaps as jest.Mock).mockImplementation(async (shortIds: string[]) => ({
+      deleted: shortIds,
+      assetsDeleted: 1,
+      assetErrors: 0,
+    }));
+  });
+
+  it("should delete expired Zaps batch by batch and total the metrics", async () => {
+    (prisma.zap.findMany as jest.Mock)
+      .mockResolvedValueOnce(page(100))
+      .mockResolvedValueOnce(page(20, 100));
+
+    const metrics = await deleteExpiredZaps();
+
+    expect(deleteZaps).toHaveBeenCalledTimes(2);
+    expect(deleteZaps).toHaveBeenLastCalledWith(
+      page(20, 100).map((zap) => zap.shortId),
+      "EXPIRED",
+    );
+    expect(metrics).toEqual({ zapsDeleted: 120, assetsDeleted: 2, assetErrors: 0 });
+  });
+
+  it("should do nothing when no Zap used up its view limit", async () => {
+    (prisma.$queryRaw as jest.Mock).mockResolvedValueOnce([]);
+
+    const metrics = await deleteOverLimitZaps();
+
+    expect(deleteZaps).not.toHaveBeenCalled();
+    expect(metrics).toEqual({ zapsDeleted: 0, assetsDeleted: 0, assetErrors: 0 });
+  });
+});
@@ -0,0 +1,58 @@
+import { Client } from "pg";
+
+const client = {
+  on: jest.fn(),
+  connect: jest.fn().mockResolvedValue(undefined),
+  query: jest.fn(),
+  end: jest.fn().mockResolvedValue(undefined),
+};
+
+jest.mock("pg", () => ({
+  __esModule: true,
+  Client: jest.fn(() => client),
+}));
+
+// Import after mocks
+import { withJobLock } from "../jobLock";
+
+describe("withJobLock", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it("should run the job while holding a session advisory lock on its own connection", async () => {
+    client.query.mockResolvedValueOnce({ rows: [{ locked: true }] }).mockResolvedValueOnce({ rows: [] });
+    const run = jest.fn().mockResolvedValue({ zapsDeleted: 2 });
+
+    const result = await withJobLock("expired-zaps", run);
+
+    expect(result).toEqual({ acquired: true, result: { zapsDeleted: 2 } });
+    expect(Client).toHaveBeenCalledTimes(1);
+    const [lockSql, lockParams] = client.query.mock.calls[0];
+    expect(lockSql).toContain("pg_try_advisory_lock");
+    expect(lockParams).toEqual(["zaplink:job:expired-zaps"]);
+    expect(client.query.mock.calls[1][0]).toContain("pg_advisory_unlock");
+    expect(client.end).toHaveBeenCalled();
+  });
+
+  it("should not run the job when another instance holds the lock", async () => {
+    client.query.mockResolvedValueOnce({ rows: [{ locked: false }] });
+    const run = jest.fn();
+
+    const result = await withJobLock("expired-zaps", run);
+
+    expect(result).toEqual({ acquired: false });
+    expect(run).not.toHaveBeenCalled();
+    expect(client.end).toHaveBeenCalled();
+  });
+
+  it("should release the lock and close the connection when the job fails", async () => {
+    client.query.mockResolvedValueOnce({ rows: [{ locked: true }] }).mockResolvedValueOnce({ rows: [] });
+    const run = jest.fn().mockRejectedValue(new Error("boom"));
+
+    await expect(withJobLock("expired-zaps", run)).rejects.toThrow("boom");
+
+    expect(client.query.mock.calls[1][0]).toContain("pg_advisory_unlock");
+    expect(client.end).toHaveBeenCalled();
+  });
+});
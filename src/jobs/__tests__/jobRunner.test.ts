@@ -0,0 +1,119 @@
+import cron from "node-cron";
+import { withJobLock } from "../jobLock";
+
+jest.mock("node-cron", () => ({
+  __esModule: true,
+  default: {
+    schedule: jest.fn(() => ({ stop: jest.fn() })),
+    validate: jest.requireActual("node-cron").validate,
+  },
+}));
+
+jest.mock("../jobLock", () => ({
+  __esModule: true,
+  withJobLock: jest.fn(async (_name: string, fn: () => Promise<unknown>) => ({
+    acquired: true,
+    result: await fn(),
+  })),
+}));
+
+// Import after mocks
+import {
+  getJobStatus,
+  registerJob,
+  resetJobRunner,
+  runJob,
+  startJobRunner,
+} from "../jobRunner";
+
+describe("jobRunner", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    resetJobRunner();
+    delete process.env.JOB_SCHEDULE_EXPIRED_ZAPS;
+  });
+
+  it("should record the metrics a run returns", async () => {
+    registerJob({
+      name: "expired-zaps",
+      schedule: "0 * * * *",
+      run: async () => ({ zapsDeleted: 3 }),
+    });
+
+    const run = await runJob("expired-zaps");
+
+    expect(run).toMatchObject({ status: "succeeded", metrics: { zapsDeleted: 3 } });
+    expect(getJobStatus()[0]).toMatchObject({ runs: 1, failures: 0, lastRun: run });
+  });
+
+  it("should skip a run while the previous one is still going", async () => {
+    let finish!: () => void;
+    const run = jest.fn(() => new Promise<void>((resolve) => (finish = resolve)));
+    registerJob({ name: "expired-zaps", schedule: "0 * * * *", run });
+
+    const first = runJob("expired-zaps");
+    const second = await runJob("expired-zaps");
+    finish();
+
+    expect(second).toMatchObject({ status: "skipped", skipReason: "running" });
+    expect((await first).status).toBe("succeeded");
+    expect(run).toHaveBeenCalledTimes(1);
+    expect(getJobStatus()[0]).toMatchObject({ runs: 1, skipped: 1, running: false });
+  });
+
+  it("should skip the run when another instance holds the job's lock", async () => {
+    const run = jest.fn();
+    registerJob({ name: "expired-zaps", schedule: "0 * * * *", run });
+    (withJobLock as jest.Mock).mockResolvedValueOnce({ acquired: false });
+
+    const result = await runJob("expired-zaps");
+
+    expect(result).toMatchObject({ status: "skipped", skipReason: "locked" });
+    expect(withJobLock).toHaveBeenCalledWith("expired-zaps", run);
+    expect(getJobStatus()[0]).toMatchObject({ runs: 0, skipped: 1 });
+  });
+
+  it("should record a failed run instead of throwing", async () => {
+    registerJob({
+      name: "expired-zaps",
+      schedule: "0 * * * *",
+      run: async () => {
+        throw new Error("database unavailable");
+      },
+    });
+
+    const run = await runJob("expired-zaps");
+
+    expect(run).toMatchObject({ status: "failed", error: "database unavailable" });
+    expect(getJobStatus()[0].failures).toBe(1);
+  });
+
+  it("should use the schedule from JOB_SCHEDULE_<NAME>", () => {
+    process.env.JOB_SCHEDULE_EXPIRED_ZAPS = "*/10 * * * *";
+    registerJob({ name: "expired-zaps", schedule: "0 * * * *", run: jest.fn() });
+
+    startJobRunner();
+
+    expect(cron.schedule).toHaveBeenCalledWith("*/10 * * * *", expect.any(Function), {
+      name: "expired-zaps",
+    });
+  });
+
+  it("should not schedule a job switched off", () => {
+    process.env.JOB_SCHEDULE_EXPIRED_ZAPS = "off";
+    registerJob({ name: "expired-zaps", schedule: "0 * * * *", run: jest.fn() });
+
+    startJobRunner();
+
+    expect(cron.schedule).not.toHaveBeenCalled();
+    expect(getJobStatus()[0].schedule).toBeNull();
+  });
+
+  it("should reject an invalid schedule", () => {
+    process.env.JOB_SCHEDULE_EXPIRED_ZAPS = "every hour";
+
+    expect(() =>
+      registerJob({ name: "expired-zaps", schedule: "0 * * * *", run: jest.fn() })
+    ).toThrow('Invalid cron schedule "every hour" for job "expired-zaps"');
+  });
+});
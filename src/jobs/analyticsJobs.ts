@@ -0,0 +1,22 @@
+import { rollUpAnalytics } from "../services/analyticsRollup.service";
+import { pruneRawAnalytics } from "../services/analyticsPrivacy.service";
+import type { JobDefinition } from "./jobRunner";
+
+/**
+ * The analytics jobs started by src/index.ts.
+ */
+export const analyticsJobs: JobDefinition[] = [
+  {
+    // Recomputes the current (partial) hour and day, so series lag by at most this interval
+    name: "analytics-rollups",
+    schedule: "*/10 * * * *",
+    runOnStart: true,
+    run: rollUpAnalytics,
+  },
+  {
+    // Hourly, so the previous day's salt is gone shortly after midnight UTC whatever the server's timezone
+    name: "analytics-retention",
+    schedule: "20 * * * *",
+    run: () => pruneRawAnalytics(),
+  },
+];
@@ -0,0 +1,127 @@
+import { ZapTombstoneReason } from "@prisma/client";
+import prisma from "../utils/prismClient";
+import { deleteZaps } from "../services/zapDeletion.service";
+import { purgeBurnedZaps } from "../services/burnAfterReading.service";
+import { cleanupExpiredUploadSessions } from "../services/resumableUpload.service";
+import { reconcileStorageAssets } from "../services/assetReconciliation.service";
+import { rollBackStalePendingUploads } from "../services/pendingUpload.service";
+import { getStorage } from "../services/storage";
+import type { JobDefinition, JobMetrics } from "./jobRunner";
+
+const DELETE_BATCH_SIZE = 100;
+
+/**
+ * Deletes Zaps (rows and assets) batch by batch until fetchBatch returns a
+ * short page.
+ */
+const deleteInBatches = async (
+  fetchBatch: () => Promise<Array<{ shortId: string }>>,
+  reason: ZapTombstoneReason,
+): Promise<JobMetrics> => {
+  const metrics = { zapsDeleted: 0, assetsDeleted: 0, assetErrors: 0 };
+
+  while (true) {
+    const batch = await fetchBatch();
+    if (batch.length === 0) break;
+
+    const result = await deleteZaps(batch.map((zap) => zap.shortId), reason);
+    metrics.zapsDeleted += result.deleted.length;
+    metrics.assetsDeleted += result.assetsDeleted;
+    metrics.assetErrors += result.assetErrors;
+
+    if (batch.length < DELETE_BATCH_SIZE) break;
+  }
+
+  return metrics;
+};
+
+/**
+ * Deletes Zaps whose expiresAt has passed.
+ */
+export const deleteExpiredZaps = (): Promise<JobMetrics> => {
+  const now = new Date();
+  return deleteInBatches(
+    () =>
+      prisma.zap.findMany({
+        where: { expiresAt: { lt: now } },
+        select: { shortId: true },
+        take: DELETE_BATCH_SIZE,
+      }),
+    ZapTombstoneReason.EXPIRED,
+  );
+};
+
+/**
+ * Deletes Zaps that used up their view limit. Viewing never deletes a Zap,
+ * so these stay behind (answering 410) until this sweep.
+ */
+export const deleteOverLimitZaps = (): Promise<JobMetrics> => {
+  return deleteInBatches(
+    () =>
+      prisma.$queryRaw<Array<{ shortId: string }>>`
+        SELECT "shortId" FROM "Zap"
+        WHERE "maxViews" IS NOT NULL
+          AND "viewCount" >= "maxViews"
+        LIMIT ${DELETE_BATCH_SIZE}`,
+    ZapTombstoneReason.VIEW_LIMIT,
+  );
+};
+
+/**
+ * Deletes orphaned objects from the active storage backend. Set
+ * ORPHAN_RECONCILIATION_DRY_RUN=true to only log them.
+ */
+export const deleteOrphanedAssets = async (): Promise<JobMetrics> => {
+  const report = await reconcileStorageAssets(getStorage(), {
+    dryRun: process.env.ORPHAN_RECONCILIATION_DRY_RUN === "true",
+  });
+  for (const orphan of report.orphans) {
+    console.log(`[Reconcile] Orphaned ${orphan.url}${orphan.deleted ? " (deleted)" : ""}`);
+  }
+  return {
+    objectsScanned: report.scanned,
+    orphansFound: report.orphans.length,
+    orphansDeleted: report.deleted,
+    withinGracePeriod: report.withinGracePeriod,
+    deleteErrors: report.errors,
+  };
+};
+
+/**
+ * The jobs started by src/index.ts.
+ */
+export const cleanupJobs: JobDefinition[] = [
+  {
+    name: "expired-zaps",
+    schedule: "0 * * * *",
+    runOnStart: true,
+    run: deleteExpiredZaps,
+  },
+  {
+    name: "over-limit-zaps",
+    schedule: "5 * * * *",
+    run: deleteOverLimitZaps,
+  },
+  {
+    // Burned Zaps whose single download completed or never will
+    name: "burned-zaps",
+    schedule: "10 * * * *",
+    run: purgeBurnedZaps,
+  },
+  {
+    name: "abandoned-uploads",
+    schedule: "15 * * * *",
+    run: async () => ({ sessionsRemoved: await cleanupExpiredUploadSessions() }),
+  },
+  {
+    // Files uploaded for Zaps/versions whose row was never created
+    name: "pending-uploads",
+    schedule: "*/15 * * * *",
+    run: rollBackStalePendingUploads,
+  },
+  {
+    name: "orphaned-assets",
+    schedule: "30 3 * * *",
+    run: deleteOrphanedAssets,
+  },
+];
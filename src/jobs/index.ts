@@ -0,0 +1,16 @@
+import { registerJob, startJobRunner, stopJobRunner } from "./jobRunner";
+import { cleanupJobs } from "./cleanupJobs";
+import { analyticsJobs } from "./analyticsJobs";
+import { webhookJobs } from "./webhookJobs";
+
+/**
+ * Registers every background job and starts their schedules.
+ */
+export const startJobs = (): void => {
+  cleanupJobs.forEach(registerJob);
+  analyticsJobs.forEach(registerJob);
+  webhookJobs.forEach(registerJob);
+  startJobRunner();
+};
+
+export { stopJobRunner as stopJobs };
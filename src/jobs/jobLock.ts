@@ -0,0 +1,57 @@
+import { Client } from "pg";
+
+/**
+ * Cross-instance job locks on Postgres advisory locks, so that when several
+ * API replicas fire the same schedule only one of them runs the job.
+ *
+ * Each run takes a session-level lock (pg_try_advisory_lock) on a dedicated
+ * connection outside the Prisma pool, so holding the lock never takes a
+ * pooled connection away from the job or from requests, and no transaction
+ * timeout can release it while the job is still running. Postgres drops
+ * the lock when that connection closes, including when an instance dies
+ * mid-run.
+ */
+
+export type JobLockResult<T> = { acquired: true; result: T } | { acquired: false };
+
+/**
+ * Runs fn while holding the advisory lock for a job, or skips it when
+ * another instance holds that lock.
+ *
+ * @param name - Job name; every instance must derive the same lock from it
+ * @param fn - The job run
+ * @returns Whether the lock was acquired, and fn's result if it was
+ */
+export const withJobLock = async <T>(
+  name: string,
+  fn: () => Promise<T>,
+): Promise<JobLockResult<T>> => {
+  const key = `zaplink:job:${name}`;
+  const client = new Client({ connectionString: process.env.DATABASE_URL });
+  // A dropped connection also drops the lock; the run itself carries on
+  client.on("error", (error) => {
+    console.error(`[Jobs] Lock connection for ${name} failed:`, error);
+  });
+
+  await client.connect();
+  try {
+    const { rows } = await client.query<{ locked: boolean }>(
+      "SELECT pg_try_advisory_lock(hashtext($1)) AS locked",
+      [key],
+    );
+    if (!rows[0].locked) {
+      return { acquired: false };
+    }
+
+    try {
+      return { acquired: true, result: await fn() };
+    } finally {
+      await client
+        .query("SELECT pg_advisory_unlock(hashtext($1))", [key])
+        .catch(() => undefined);
+    }
+  } finally {
+    // Closing the session releases the lock even if the unlock failed
+    await client.end().catch(() => undefined);
+  }
+};
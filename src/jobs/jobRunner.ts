@@ -0,0 +1,220 @@
+import cron, { ScheduledTask } from "node-cron";
+import { withJobLock } from "./jobLock";
+
+/**
+ * Runs background jobs on cron schedules. Each job is registered once with a
+ * default schedule that can be overridden per deployment through
+ * JOB_SCHEDULE_<NAME> (e.g. JOB_SCHEDULE_EXPIRED_ZAPS="30 * * * *", or
+ * "off" to disable it).
+ *
+ * A job never overlaps with itself: a tick that fires while the previous run
+ * is still going, or while another instance holds the job's advisory lock
+ * (see jobLock.ts), is recorded as skipped. Every run is logged with its
+ * duration and the counters the job returned, and the last run of each job
+ * is kept for getJobStatus().
+ */
+
+/** Counters a job reports for one run, e.g. { zapsDeleted: 3 } */
+export type JobMetrics = Record<string, number>;
+
+export interface JobDefinition {
+  /** kebab-case; also used for the JOB_SCHEDULE_<NAME> override */
+  name: string;
+  /** Default cron expression */
+  schedule: string;
+  /** Also run once when the runner starts */
+  runOnStart?: boolean;
+  run: () => Promise<JobMetrics | void>;
+}
+
+export interface JobRun {
+  job: string;
+  status: "succeeded" | "failed" | "skipped";
+  /** Why a run was skipped: still running here, or locked by another instance */
+  skipReason?: "running" | "locked";
+  startedAt: Date;
+  durationMs: number;
+  metrics: JobMetrics;
+  error?: string;
+}
+
+export interface JobStatus {
+  name: string;
+  schedule: string | null;
+  running: boolean;
+  lastRun: JobRun | null;
+  runs: number;
+  failures: number;
+  skipped: number;
+}
+
+interface RegisteredJob {
+  definition: JobDefinition;
+  schedule: string | null;
+  task: ScheduledTask | null;
+  running: boolean;
+  lastRun: JobRun | null;
+  runs: number;
+  failures: number;
+  skipped: number;
+}
+
+const jobs = new Map<string, RegisteredJob>();
+
+/**
+ * Env var that overrides a job's schedule.
+ * @param name - Job name, e.g. "expired-zaps" -> JOB_SCHEDULE_EXPIRED_ZAPS
+ */
+export const scheduleEnvVar = (name: string): string =>
+  `JOB_SCHEDULE_${name.toUpperCase().replace(/-/g, "_")}`;
+
+const resolveSchedule = (definition: JobDefinition): string | null => {
+  const override = process.env[scheduleEnvVar(definition.name)]?.trim();
+  if (override && override.toLowerCase() === "off") return null;
+
+  const schedule = override || definition.schedule;
+  if (!cron.validate(schedule)) {
+    throw new Error(`Invalid cron schedule "${schedule}" for job "${definition.name}"`);
+  }
+  return schedule;
+};
+
+/**
+ * Adds a job to the runner. Its schedule is resolved (and validated) now,
+ * but nothing runs until startJobRunner().
+ * @param definition - The job
+ * @throws Error if a job with the same name exists or the schedule is invalid
+ */
+export const registerJob = (definition: JobDefinition): void => {
+  if (jobs.has(definition.name)) {
+    throw new Error(`Job "${definition.name}" is already registered`);
+  }
+  jobs.set(definition.name, {
+    definition,
+    schedule: resolveSchedule(definition),
+    task: null,
+    running: false,
+    lastRun: null,
+    runs: 0,
+    failures: 0,
+    skipped: 0,
+  });
+};
+
+const skippedRun = (job: string, skipReason: JobRun["skipReason"], startedAt: Date): JobRun => ({
+  job,
+  status: "skipped",
+  skipReason,
+  startedAt,
+  durationMs: 0,
+  metrics: {},
+});
+
+/**
+ * Runs a registered job now, unless it is already running here or on
+ * another instance.
+ * @param name - Job name
+ * @returns The run record; a failing job is recorded as failed, not thrown
+ */
+export const runJob = async (name: string): Promise<JobRun> => {
+  const job = jobs.get(name);
+  if (!job) {
+    throw new Error(`Job "${name}" is not registered`);
+  }
+
+  const startedAt = new Date();
+
+  if (job.running) {
+    job.skipped++;
+    console.log(`[Jobs] ${name} skipped: previous run still in progress`);
+    return skippedRun(name, "running", startedAt);
+  }
+
+  job.running = true;
+  let run: JobRun;
+  try {
+    const lock = await withJobLock(name, job.definition.run);
+    if (!lock.acquired) {
+      job.skipped++;
+      console.log(`[Jobs] ${name} skipped: another instance is running it`);
+      return skippedRun(name, "locked", startedAt);
+    }
+
+    const metrics = lock.result || {};
+    run = {
+      job: name,
+      status: "succeeded",
+      startedAt,
+      durationMs: Date.now() - startedAt.getTime(),
+      metrics,
+    };
+    console.log(`[Jobs] ${name} succeeded in ${run.durationMs}ms`, metrics);
+  } catch (error) {
+    job.failures++;
+    run = {
+      job: name,
+      status: "failed",
+      startedAt,
+      durationMs: Date.now() - startedAt.getTime(),
+      metrics: {},
+      error: error instanceof Error ? error.message : String(error),
+    };
+    console.error(`[Jobs] ${name} failed after ${run.durationMs}ms:`, error);
+  } finally {
+    job.running = false;
+  }
+
+  job.runs++;
+  job.lastRun = run;
+  return run;
+};
+
+/**
+ * Schedules every registered job that is not switched off, and starts the
+ * runOnStart ones immediately.
+ */
+export const startJobRunner = (): void => {
+  for (const [name, job] of jobs) {
+    if (job.task || !job.schedule) continue;
+
+    job.task = cron.schedule(job.schedule, () => runJob(name), { name });
+    console.log(`[Jobs] Scheduled ${name} (${job.schedule})`);
+
+    if (job.definition.runOnStart) {
+      void runJob(name);
+    }
+  }
+};
+
+/**
+ * Stops every scheduled job. Runs already in progress finish on their own.
+ */
+export const stopJobRunner = (): void => {
+  for (const job of jobs.values()) {
+    job.task?.stop();
+    job.task = null;
+  }
+};
+
+/**
+ * Schedule, state and counters of every registered job.
+ */
+export const getJobStatus = (): JobStatus[] => {
+  return [...jobs.values()].map((job) => ({
+    name: job.definition.name,
+    schedule: job.schedule,
+    running: job.running,
+    lastRun: job.lastRun,
+    runs: job.runs,
+    failures: job.failures,
+    skipped: job.skipped,
+  }));
+};
+
+/**
+ * Removes every job; for tests.
+ */
+export const resetJobRunner = (): void => {
+  stopJobRunner();
+  jobs.clear();
+};
@@ -0,0 +1,15 @@
+import { processWebhookDeliveries } from "../services/webhook.service";
+import type { JobDefinition } from "./jobRunner";
+
+/**
+ * The webhook jobs started by src/index.ts.
+ */
+export const webhookJobs: JobDefinition[] = [
+  {
+    // Retries failed deliveries once their backoff has passed, and picks up any left by a restart
+    name: "webhook-deliveries",
+    schedule: "* * * * *",
+    runOnStart: true,
+    run: processWebhookDeliveries,
+  },
+];
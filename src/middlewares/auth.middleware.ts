@@ -0,0 +1,71 @@
+import { Request, Response, NextFunction } from "express";
+import { ApiError } from "../utils/ApiError";
+import { verifyAccessToken } from "../utils/jwt";
+
+export interface AuthUser {
+  id: string;
+}
+
+declare global {
+  namespace Express {
+    interface Request {
+      user?: AuthUser;
+    }
+  }
+}
+
+/**
+ * Extracts the token from an `Authorization: Bearer <token>` header.
+ */
+const getBearerToken = (req: Request): string | null => {
+  const header = req.headers.authorization;
+  if (!header || !header.startsWith("Bearer ")) {
+    return null;
+  }
+  const token = header.slice("Bearer ".length).trim();
+  return token.length > 0 ? token : null;
+};
+
+/**
+ * Requires a valid access token. Sets `req.user` on success,
+ * responds with 401 otherwise.
+ */
+export const authenticate = (
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): void => {
+  const token = getBearerToken(req);
+
+  if (!token) {
+    res.status(401).json(new ApiError(401, "Authentication required."));
+    return;
+  }
+
+  try {
+    const { userId } = verifyAccessToken(token);
+    req.user = { id: userId };
+    next();
+  } catch {
+    res
+      .status(401)
+      .json(new ApiError(401, "Unauthorized - invalid or expired token"));
+  }
+};
+
+/**
+ * Attaches `req.user` when a valid access token is present but lets
+ * anonymous requests through. A token that is present but invalid is
+ * still rejected so clients notice an expired session.
+ */
+export const optionalAuthenticate = (
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): void => {
+  if (!getBearerToken(req)) {
+    next();
+    return;
+  }
+  authenticate(req, res, next);
+};
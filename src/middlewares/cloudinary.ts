@@ -9,8 +9,12 @@ const {
   CLOUDINARY_API_KEY,
   CLOUDINARY_API_SECRET,
   NODE_ENV,
+  STORAGE_DRIVER,
 } = process.env;
 
+// Cloudinary credentials are only mandatory when it is the active storage driver
+const isRequired = (STORAGE_DRIVER || "cloudinary").toLowerCase() === "cloudinary";
+
 let isConfigured = false;
 
 try {
@@ -54,7 +58,7 @@ try {
     }
 
     console.log("✅ Cloudinary configured successfully");
-  } else {
+  } else if (isRequired) {
     const message =
       "Cloudinary is not configured. Please set CLOUDINARY_URL or " +
       "CLOUDINARY_CLOUD_NAME, CLOUDINARY_API_KEY, and CLOUDINARY_API_SECRET.";
@@ -68,7 +72,7 @@ try {
 } catch (error) {
   console.error("❌ Cloudinary configuration error:", error);
 
-  if (NODE_ENV === "production") {
+  if (NODE_ENV === "production" && isRequired) {
     throw error;
   }
 }
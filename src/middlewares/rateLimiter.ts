@@ -94,7 +94,7 @@ export const globalLimiter = rateLimit({
 
 // ─────────────────────────────────────────────────────────────────────────────
 // Upload & QR generation limiter  (POST /api/zaps/upload)
-// Stricter because each request hits Cloudinary and generates a QR code.
+// Stricter because each request hits the storage backend and generates a QR code.
 // Config: UPLOAD_RATE_LIMIT_WINDOW_MS  (default: 1 min)
 //         UPLOAD_RATE_LIMIT_MAX        (default: 10 requests)
 // ─────────────────────────────────────────────────────────────────────────────
@@ -125,3 +125,57 @@ export const downloadLimiter = rateLimit({
         "Too many download requests from this IP. Please slow down and try again in a minute.",
     handler: tooManyRequestsHandler,
 });
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Auth limiter  (POST /api/auth/register, /login, /refresh)
+// Slows down credential stuffing and refresh-token brute forcing.
+// Config: AUTH_RATE_LIMIT_WINDOW_MS  (default: 15 min)
+//         AUTH_RATE_LIMIT_MAX        (default: 20 requests)
+// ─────────────────────────────────────────────────────────────────────────────
+export const authLimiter = rateLimit({
+    windowMs:
+        parseInt(process.env.AUTH_RATE_LIMIT_WINDOW_MS || "") || 15 * 60 * 1000,
+    max: parseInt(process.env.AUTH_RATE_LIMIT_MAX || "") || 20,
+    standardHeaders: true,
+    legacyHeaders: false,
+    message:
+        "Too many authentication attempts from this IP. Please try again later.",
+    handler: tooManyRequestsHandler,
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Resumable upload chunk limiter  (PUT /api/uploads/:uploadId/chunks/:index)
+// A single large file is many chunk requests, so this replaces the API-wide
+// limiter for chunk PUTs while still capping how fast one IP can push data.
+// Config: CHUNK_RATE_LIMIT_WINDOW_MS  (default: 1 min)
+//         CHUNK_RATE_LIMIT_MAX        (default: 120 requests)
+// ─────────────────────────────────────────────────────────────────────────────
+export const chunkUploadLimiter = rateLimit({
+    windowMs:
+        parseInt(process.env.CHUNK_RATE_LIMIT_WINDOW_MS || "") || 1 * 60 * 1000,
+    max: parseInt(process.env.CHUNK_RATE_LIMIT_MAX || "") || 120,
+    standardHeaders: true,
+    legacyHeaders: false,
+    message:
+        "Too many chunk uploads from this IP. Please slow down and resume shortly.",
+    handler: tooManyRequestsHandler,
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Webhook management limiter  (/api/webhooks/*)
+// Per-Zap subscriptions are authorized by a deletionToken, so only rejected
+// (401/403/404) requests count, to slow down token guessing.
+// Config: WEBHOOK_RATE_LIMIT_WINDOW_MS  (default: 5 min)
+//         WEBHOOK_RATE_LIMIT_MAX        (default: 20 failed requests)
+// ─────────────────────────────────────────────────────────────────────────────
+export const webhookLimiter = rateLimit({
+    windowMs:
+        parseInt(process.env.WEBHOOK_RATE_LIMIT_WINDOW_MS || "") || 5 * 60 * 1000,
+    max: parseInt(process.env.WEBHOOK_RATE_LIMIT_MAX || "") || 20,
+    standardHeaders: true,
+    legacyHeaders: false,
+    skipSuccessfulRequests: true,
+    requestWasSuccessful: (_req, res) => ![401, 403, 404].includes(res.statusCode),
+    message: "Too many failed webhook requests from this IP. Please try again later.",
+    handler: tooManyRequestsHandler,
+});
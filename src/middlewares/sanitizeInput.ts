@@ -20,8 +20,10 @@ export const sanitizeBody = (
     return;
   }
 
-  // Sanitize common text fields
-  const fieldsToSanitize = ["name", "quizQuestion", "textContent"];
+  // Sanitize common text fields. End-to-end encrypted text is ciphertext that
+  // must be stored exactly as sent; createZap checks its format instead.
+  const isE2E = req.body.e2e === "true";
+  const fieldsToSanitize = ["name", "quizQuestion", ...(isE2E ? [] : ["textContent"])];
   const fieldsToSanitizeUrl = ["originalUrl"];
   const fieldsToSanitizeQuiz = ["quizAnswer"];
 
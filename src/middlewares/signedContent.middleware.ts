@@ -0,0 +1,96 @@
+import { Request, Response, NextFunction } from "express";
+import { Prisma } from "@prisma/client";
+import prisma from "../utils/prismClient";
+import { ApiError } from "../utils/ApiError";
+import { verifySignedContentUrl } from "../utils/contentLink";
+import { getMissingZapError } from "../services/tombstone.service";
+
+export type ZapWithVersions = Prisma.ZapGetPayload<{ include: { versions: true } }>;
+
+declare global {
+  namespace Express {
+    interface Request {
+      zap?: ZapWithVersions;
+    }
+  }
+}
+
+/**
+ * Requires a content link issued by GET /api/zaps/:shortId. Sets `req.zap`
+ * on success.
+ *
+ * A link stops working when it expires, when the Zap is deleted or expires,
+ * and once the Zap's view limit is used up — except for the link issued for
+ * the very view that used it up, which lives out its short lifetime. The same
+ * goes for the view that burned a burn-after-reading Zap.
+ */
+export const requireSignedContentUrl = async (
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> => {
+  try {
+    const { view, expires, signature } = req.query;
+
+    if (!view || !expires || !signature) {
+      res
+        .status(401)
+        .json(
+          new ApiError(
+            401,
+            "A signed content link is required. Open the Zap to get a fresh link.",
+          ),
+        );
+      return;
+    }
+
+    const zap = await prisma.zap.findUnique({
+      where: { shortId: req.params.shortId },
+      include: { versions: true },
+    });
+
+    if (!zap) {
+      const missingError = await getMissingZapError(req.params.shortId);
+      res.status(missingError.statusCode).json(missingError);
+      return;
+    }
+
+    const viewNumber = Number(view);
+    const isValid = verifySignedContentUrl(zap, {
+      view: viewNumber,
+      expires: Number(expires),
+      signature: signature as string,
+    });
+    if (!isValid) {
+      res.status(403).json(new ApiError(403, "Invalid or expired link."));
+      return;
+    }
+
+    // A burned Zap's file is only reachable through the link issued for the
+    // view that burned it, until that download completes
+    if (zap.burnedAt && (!zap.cloudUrl || viewNumber !== zap.viewCount)) {
+      res.status(410).json(new ApiError(410, "This Zap was burned after reading."));
+      return;
+    }
+
+    if (zap.expiresAt && new Date() > zap.expiresAt) {
+      res.status(410).json(new ApiError(410, "Zap has expired."));
+      return;
+    }
+
+    if (
+      zap.viewLimit !== null &&
+      zap.viewCount >= zap.viewLimit &&
+      viewNumber !== zap.viewCount
+    ) {
+      res.status(410).json(new ApiError(410, "View limit exceeded."));
+      return;
+    }
+
+    req.zap = zap;
+    next();
+  } catch (error) {
+    console.error("Error in requireSignedContentUrl:", error);
+    res.status(500).json(new ApiError(500, "Internal server error"));
+  }
+};
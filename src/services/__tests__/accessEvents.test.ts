@@ -0,0 +1,101 @@
+import { Client } from "pg";
+import { AccessEvent } from "../accessEvents";
+import { MemoryAccessEventBus } from "../accessEvents/memory.bus";
+import { PostgresAccessEventBus } from "../accessEvents/postgres.bus";
+import prisma from "../../utils/prismClient";
+
+jest.mock("../../utils/prismClient", () => ({
+  __esModule: true,
+  default: { $executeRaw: jest.fn() },
+}));
+jest.mock("pg", () => ({
+  __esModule: true,
+  Client: jest.fn().mockImplementation(() => {
+    const handlers: Record<string, (arg: unknown) => void> = {};
+    return {
+      handlers,
+      on: jest.fn((name: string, handler: (arg: unknown) => void) => {
+        handlers[name] = handler;
+      }),
+      connect: jest.fn().mockResolvedValue(undefined),
+      query: jest.fn().mockResolvedValue(undefined),
+      end: jest.fn().mockResolvedValue(undefined),
+    };
+  }),
+}));
+
+const buildEvent = (zapId: string): AccessEvent => ({
+  id: "entry1",
+  zapId,
+  outcome: "SUCCESS",
+  deviceType: "Desktop",
+  browser: "Chrome",
+  os: "Windows",
+  referrerHost: null,
+  language: "en-US",
+  accessedAt: "2026-10-18T12:00:00.000Z",
+});
+
+const buildSubscriber = () => ({ onEvent: jest.fn(), onClose: jest.fn() });
+
+describe("MemoryAccessEventBus", () => {
+  it("should deliver events only to subscribers of the same Zap", async () => {
+    const bus = new MemoryAccessEventBus();
+    const subscriber = buildSubscriber();
+    const other = buildSubscriber();
+    bus.subscribe("zap1", subscriber);
+    bus.subscribe("zap2", other);
+
+    await bus.publish(buildEvent("zap1"));
+
+    expect(subscriber.onEvent).toHaveBeenCalledWith(buildEvent("zap1"));
+    expect(other.onEvent).not.toHaveBeenCalled();
+  });
+
+  it("should stop delivering after unsubscribe and close remaining subscribers", async () => {
+    const bus = new MemoryAccessEventBus();
+    const gone = buildSubscriber();
+    const staying = buildSubscriber();
+    const unsubscribe = bus.subscribe("zap1", gone);
+    bus.subscribe("zap1", staying);
+
+    unsubscribe();
+    await bus.publish(buildEvent("zap1"));
+    await bus.close();
+
+    expect(gone.onEvent).not.toHaveBeenCalled();
+    expect(gone.onClose).not.toHaveBeenCalled();
+    expect(staying.onClose).toHaveBeenCalledTimes(1);
+    expect(bus.countSubscribers("zap1")).toBe(0);
+  });
+});
+
+describe("PostgresAccessEventBus", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it("should publish with pg_notify and fan notifications out to local subscribers", async () => {
+    const bus = new PostgresAccessEventBus("postgres://localhost/zaplink");
+    const subscriber = buildSubscriber();
+    bus.subscribe("zap1", subscriber);
+    // Let the LISTEN connection open
+    await new Promise((resolve) => setImmediate(resolve));
+
+    await bus.publish(buildEvent("zap1"));
+    expect(prisma.$executeRaw).toHaveBeenCalledTimes(1);
+
+    const client = (Client as unknown as jest.Mock).mock.results[0].value;
+    expect(client.query).toHaveBeenCalledWith("LISTEN zap_access_events");
+    client.handlers.notification({
+      channel: "zap_access_events",
+      payload: JSON.stringify(buildEvent("zap1")),
+    });
+
+    expect(subscriber.onEvent).toHaveBeenCalledWith(buildEvent("zap1"));
+
+    await bus.close();
+    expect(subscriber.onClose).toHaveBeenCalled();
+    expect(client.end).toHaveBeenCalled();
+  });
+});
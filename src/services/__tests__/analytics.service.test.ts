@@ -0,0 +1,155 @@
+import { Request } from "express";
+import prisma from "../../utils/prismClient";
+import { publishAccessEvent } from "../accessEvents";
+import { hashVisitor } from "../analyticsPrivacy.service";
+
+jest.mock("../../utils/prismClient", () => ({
+  __esModule: true,
+  default: {
+    zap: { findUnique: jest.fn() },
+    zapAnalytics: { create: jest.fn(), groupBy: jest.fn(), findMany: jest.fn() },
+    zapAnalyticsRollup: { findMany: jest.fn() },
+    $queryRaw: jest.fn(),
+  },
+}));
+jest.mock("../accessEvents", () => ({
+  __esModule: true,
+  publishAccessEvent: jest.fn(),
+}));
+jest.mock("../analyticsPrivacy.service", () => ({
+  __esModule: true,
+  hashVisitor: jest.fn(() => Promise.resolve("visitorhash")),
+}));
+
+// Import after mocks
+import { getAnalytics, logAccess } from "../analytics.service";
+
+const buildRequest = (headers: Record<string, string>) =>
+  ({ ip: "203.0.113.7", headers }) as unknown as Request;
+
+describe("analytics.service - logAccess", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (prisma.zapAnalytics.create as jest.Mock).mockResolvedValue({
+      id: "entry1",
+      accessedAt: new Date("2026-10-18T12:00:00.000Z"),
+    });
+  });
+
+  it("should record browser, OS, referrer host and language of a view", async () => {
+    await logAccess(
+      "zap1",
+      buildRequest({
+        "user-agent":
+          "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36",
+        referer: "https://twitter.com/someone/status/123?ref=private",
+        "accept-language": "en-US,en;q=0.9",
+      }),
+    );
+
+    expect(prisma.zapAnalytics.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        zapId: "zap1",
+        deviceType: "Desktop",
+        browser: "Chrome",
+        os: "Windows",
+        referrerHost: "twitter.com",
+        language: "en-US",
+        outcome: "SUCCESS",
+        ipHash: "visitorhash",
+      }),
+      select: { id: true, accessedAt: true },
+    });
+    expect(hashVisitor).toHaveBeenCalledWith(
+      "zap1",
+      "203.0.113.7",
+      expect.stringContaining("Chrome/120"),
+    );
+  });
+
+  it("should record refused attempts with their outcome", async () => {
+    await logAccess("zap1", buildRequest({ referer: "not a url" }), "WRONG_PASSWORD");
+
+    expect(prisma.zapAnalytics.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        browser: "Unknown",
+        os: "Unknown",
+        referrerHost: null,
+        language: null,
+        outcome: "WRONG_PASSWORD",
+      }),
+      select: { id: true, accessedAt: true },
+    });
+    expect(publishAccessEvent).toHaveBeenCalledWith({
+      id: "entry1",
+      zapId: "zap1",
+      outcome: "WRONG_PASSWORD",
+      deviceType: "Unknown",
+      browser: "Unknown",
+      os: "Unknown",
+      referrerHost: null,
+      language: null,
+      accessedAt: "2026-10-18T12:00:00.000Z",
+    });
+  });
+
+  it("should never throw when the insert fails", async () => {
+    (prisma.zapAnalytics.create as jest.Mock).mockRejectedValue(new Error("db down"));
+    jest.spyOn(console, "error").mockImplementation(() => {});
+
+    await expect(logAccess("zap1", buildRequest({}))).resolves.toBeUndefined();
+  });
+});
+
+describe("analytics.service - getAnalytics", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.useFakeTimers({ now: new Date("2026-10-18T12:00:00.000Z") });
+    (prisma.zap.findUnique as jest.Mock).mockResolvedValue({
+      viewCount: 9,
+      name: "Report",
+      shortId: "abc12345",
+      createdAt: new Date("2026-10-01T00:00:00.000Z"),
+    });
+    (prisma.zapAnalyticsRollup.findMany as jest.Mock).mockResolvedValue([
+      { bucketStart: new Date("2026-10-16T00:00:00.000Z"), devices: { Desktop: 5 } },
+      { bucketStart: new Date("2026-10-17T00:00:00.000Z"), devices: { Desktop: 1, Mobile: 2 } },
+    ]);
+    (prisma.zapAnalytics.groupBy as jest.Mock).mockImplementation(async ({ by }) =>
+      by[0] === "deviceType"
+        ? [{ deviceType: "Mobile", _count: { _all: 1 } }]
+        : [{ outcome: "SUCCESS", _count: { _all: 9 } }],
+    );
+    (prisma.zapAnalytics.findMany as jest.Mock).mockResolvedValue([]);
+    (prisma.$queryRaw as jest.Mock).mockResolvedValue([{ uniqueVisitors: 1 }]);
+  });
+
+  afterEach(() => jest.useRealTimers());
+
+  it("should add today's live device counts to the daily rollups", async () => {
+    const analytics = await getAnalytics("zap1");
+    const today = new Date("2026-10-18T00:00:00.000Z");
+
+    expect(analytics!.deviceBreakdown).toEqual({ Desktop: 6, Mobile: 3 });
+    expect(prisma.zapAnalyticsRollup.findMany).toHaveBeenCalledWith({
+      where: { zapId: "zap1", granularity: "DAY", bucketStart: { lt: today } },
+      select: { devices: true },
+    });
+    expect(prisma.zapAnalytics.groupBy).toHaveBeenCalledWith({
+      by: ["deviceType"],
+      where: { zapId: "zap1", outcome: "SUCCESS", accessedAt: { gte: today } },
+      _count: { _all: true },
+    });
+  });
+
+  it("should count outcomes over the last 30 days only", async () => {
+    const analytics = await getAnalytics("zap1");
+
+    expect(analytics!.outcomeBreakdown).toEqual({ success: 9 });
+    expect(prisma.zapAnalytics.groupBy).toHaveBeenCalledWith({
+      by: ["outcome"],
+      where: { zapId: "zap1", accessedAt: { gte: new Date("2026-09-19T00:00:00.000Z") } },
+      _count: { _all: true },
+    });
+  });
+});
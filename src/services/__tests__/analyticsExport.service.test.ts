@@ -0,0 +1,134 @@
+import prisma from "../../utils/prismClient";
+
+jest.mock("../../utils/prismClient", () => ({
+  __esModule: true,
+  default: {
+    zapAnalytics: { findMany: jest.fn() },
+  },
+}));
+
+// Import after mocks
+import {
+  AccessLogRow,
+  formatAccessLog,
+  iterateAccessLog,
+} from "../analyticsExport.service";
+
+const buildRow = (id: string, overrides: Partial<AccessLogRow> = {}) => ({
+  id,
+  accessedAt: new Date("2026-10-18T12:00:00.000Z"),
+  outcome: "SUCCESS",
+  ipHash: "hash-a",
+  userAgent: null,
+  deviceType: "Desktop",
+  browser: "Chrome",
+  os: "Windows",
+  referrerHost: null,
+  language: null,
+  ...overrides,
+});
+
+const collect = async <T>(iterable: AsyncIterable<T>): Promise<T[]> => {
+  const items: T[] = [];
+  for await (const item of iterable) items.push(item);
+  return items;
+};
+
+describe("analyticsExport.service", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it("should page through the log with a cursor until a short page", async () => {
+    const fullPage = Array.from({ length: 1000 }, (_, i) => buildRow(`row${i}`));
+    (prisma.zapAnalytics.findMany as jest.Mock)
+      .mockResolvedValueOnce(fullPage)
+      .mockResolvedValueOnce([buildRow("last")]);
+
+    const rows = await collect(iterateAccessLog("zap1"));
+
+    expect(rows).toHaveLength(1001);
+    expect(prisma.zapAnalytics.findMany).toHaveBeenCalledTimes(2);
+    expect(prisma.zapAnalytics.findMany).toHaveBeenLastCalledWith(
+      expect.objectContaining({ cursor: { id: "row999" }, skip: 1 }),
+    );
+  });
+
+  it("should flag only the first successful view of each visitor, counting views before the range", async () => {
+    (prisma.zapAnalytics.findMany as jest.Mock)
+      .mockResolvedValueOnce([
+        buildRow("r1", { ipHash: "hash-a", outcome: "WRONG_PASSWORD" }),
+        buildRow("r2", { ipHash: "hash-a" }),
+        buildRow("r3", { ipHash: "hash-a" }),
+        buildRow("r4", { ipHash: "hash-b" }),
+        buildRow("r5", { ipHash: null }),
+      ])
+      // hash-b viewed before the range
+      .mockResolvedValueOnce([{ ipHash: "hash-b" }]);
+
+    const rows = await collect(
+      iterateAccessLog("zap1", { from: new Date("2026-10-18T00:00:00.000Z") }),
+    );
+
+    expect(rows.map((row) => row.uniqueVisitor)).toEqual([false, true, false, false, false]);
+    expect(prisma.zapAnalytics.findMany).toHaveBeenLastCalledWith(
+      expect.objectContaining({
+        where: expect.objectContaining({ ipHash: { in: ["hash-a", "hash-b"] } }),
+        distinct: ["ipHash"],
+      }),
+    );
+  });
+
+  it("should count a visitor again on each UTC day", async () => {
+    const nextDay = new Date("2026-10-19T08:00:00.000Z");
+    (prisma.zapAnalytics.findMany as jest.Mock)
+      .mockResolvedValueOnce([
+        buildRow("r1", { ipHash: "hash-a" }),
+        buildRow("r2", { ipHash: "hash-a", accessedAt: nextDay }),
+        buildRow("r3", { ipHash: "hash-b", accessedAt: nextDay }),
+        buildRow("r4", { ipHash: "hash-b", accessedAt: nextDay }),
+      ])
+      .mockResolvedValueOnce([]);
+
+    const rows = await collect(
+      iterateAccessLog("zap1", { from: new Date("2026-10-18T06:00:00.000Z") }),
+    );
+
+    expect(rows.map((row) => row.uniqueVisitor)).toEqual([true, true, true, false]);
+    // Only views on the range's first day can follow earlier views outside it
+    expect(prisma.zapAnalytics.findMany).toHaveBeenLastCalledWith(
+      expect.objectContaining({
+        where: expect.objectContaining({ ipHash: { in: ["hash-a"] } }),
+      }),
+    );
+  });
+
+  it("should escape CSV fields and neutralize spreadsheet formulas", async () => {
+    async function* rows() {
+      yield {
+        ...buildRow("r1", { userAgent: 'Agent "X", v1', referrerHost: "=HYPERLINK(1)" }),
+        uniqueVisitor: true,
+      } as AccessLogRow;
+    }
+
+    const lines = await collect(formatAccessLog(rows(), "csv"));
+
+    expect(lines[0]).toBe(
+      "id,accessedAt,outcome,ipHash,userAgent,deviceType,browser,os,referrerHost,language,uniqueVisitor\r\n",
+    );
+    expect(lines[1]).toBe(
+      `r1,2026-10-18T12:00:00.000Z,SUCCESS,hash-a,"Agent ""X"", v1",Desktop,Chrome,Windows,'=HYPERLINK(1),,true\r\n`,
+    );
+  });
+
+  it("should write one JSON object per line for NDJSON", async () => {
+    async function* rows() {
+      yield { ...buildRow("r1"), uniqueVisitor: true } as AccessLogRow;
+    }
+
+    const [line] = await collect(formatAccessLog(rows(), "ndjson"));
+
+    expect(line.endsWith("\n")).toBe(true);
+    expect(JSON.parse(line)).toMatchObject({ id: "r1", uniqueVisitor: true });
+  });
+});
@@ -0,0 +1,120 @@
+import prisma from "../../utils/prismClient";
+
+jest.mock("../../utils/prismClient", () => ({
+  __esModule: true,
+  default: {
+    analyticsSalt: {
+      createMany: jest.fn(),
+      findUniqueOrThrow: jest.fn(),
+      deleteMany: jest.fn(),
+    },
+    zapAnalytics: { updateMany: jest.fn() },
+    zapAnalyticsRollup: { aggregate: jest.fn() },
+  },
+}));
+jest.mock("../../utils/encryption", () => ({
+  encryptText: jest.fn((text: string) => `encrypted_${text}`),
+  decryptText: jest.fn((text: string) => text.replace("encrypted_", "")),
+}));
+
+// Import after mocks
+import {
+  getDailySalt,
+  getRawRetentionDays,
+  hashVisitor,
+  pruneRawAnalytics,
+} from "../analyticsPrivacy.service";
+
+const mockPrisma = prisma as unknown as {
+  analyticsSalt: { createMany: jest.Mock; findUniqueOrThrow: jest.Mock; deleteMany: jest.Mock };
+  zapAnalytics: { updateMany: jest.Mock };
+  zapAnalyticsRollup: { aggregate: jest.Mock };
+};
+
+describe("analyticsPrivacy.service", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.useRealTimers();
+    mockPrisma.analyticsSalt.deleteMany.mockResolvedValue({ count: 1 });
+  });
+
+  it("should read the day's salt once, drop older salts and cache it until the next day", async () => {
+    mockPrisma.analyticsSalt.findUniqueOrThrow
+      .mockResolvedValueOnce({ salt: "encrypted_salt-a" })
+      .mockResolvedValueOnce({ salt: "encrypted_salt-b" });
+
+    expect(await getDailySalt(new Date("2026-10-18T01:00:00Z"))).toBe("salt-a");
+    expect(await getDailySalt(new Date("2026-10-18T23:00:00Z"))).toBe("salt-a");
+    expect(mockPrisma.analyticsSalt.findUniqueOrThrow).toHaveBeenCalledTimes(1);
+    expect(mockPrisma.analyticsSalt.createMany).toHaveBeenCalledWith(
+      expect.objectContaining({ skipDuplicates: true }),
+    );
+    expect(mockPrisma.analyticsSalt.deleteMany).toHaveBeenCalledWith({
+      where: { day: { lt: new Date("2026-10-18T00:00:00Z") } },
+    });
+
+    expect(await getDailySalt(new Date("2026-10-19T00:00:01Z"))).toBe("salt-b");
+  });
+
+  it("should hash visitors differently per Zap and per day", async () => {
+    jest.useFakeTimers({ now: new Date("2026-11-01T12:00:00Z") });
+    mockPrisma.analyticsSalt.findUniqueOrThrow.mockResolvedValueOnce({ salt: "encrypted_day1" });
+    const first = await hashVisitor("zap1", "203.0.113.7", "Firefox");
+
+    expect(first).toMatch(/^[0-9a-f]{64}$/);
+    expect(await hashVisitor("zap1", "203.0.113.7", "Firefox")).toBe(first);
+    expect(await hashVisitor("zap2", "203.0.113.7", "Firefox")).not.toBe(first);
+
+    jest.setSystemTime(new Date("2026-11-02T12:00:00Z"));
+    mockPrisma.analyticsSalt.findUniqueOrThrow.mockResolvedValueOnce({ salt: "encrypted_day2" });
+    expect(await hashVisitor("zap1", "203.0.113.7", "Firefox")).not.toBe(first);
+  });
+
+  it("should not hash a missing IP", async () => {
+    expect(await hashVisitor("zap1", undefined, "Firefox")).toBeNull();
+    expect(mockPrisma.analyticsSalt.findUniqueOrThrow).not.toHaveBeenCalled();
+  });
+
+  it("should read the retention from the environment with a floor of two days", () => {
+    const original = process.env.ANALYTICS_RAW_RETENTION_DAYS;
+    delete process.env.ANALYTICS_RAW_RETENTION_DAYS;
+    expect(getRawRetentionDays()).toBe(30);
+    process.env.ANALYTICS_RAW_RETENTION_DAYS = "0";
+    expect(getRawRetentionDays()).toBe(2);
+    process.env.ANALYTICS_RAW_RETENTION_DAYS = original;
+  });
+
+  it("should clear raw fields past the retention period", async () => {
+    const now = new Date("2026-10-18T12:00:00Z");
+    mockPrisma.zapAnalyticsRollup.aggregate.mockResolvedValue({
+      _max: { bucketStart: new Date("2026-10-18T00:00:00Z") },
+    });
+    mockPrisma.zapAnalytics.updateMany.mockResolvedValue({ count: 5 });
+
+    expect(await pruneRawAnalytics(now)).toEqual({ pruned: 5, saltsDeleted: 1 });
+    expect(mockPrisma.zapAnalytics.updateMany).toHaveBeenCalledWith({
+      where: {
+        accessedAt: { lt: new Date("2026-09-18T12:00:00Z") },
+        OR: [{ userAgent: { not: null } }, { ipHash: { not: null } }],
+      },
+      data: { userAgent: null, ipHash: null },
+    });
+  });
+
+  it("should keep raw fields that are not rolled up yet", async () => {
+    const latestRollup = new Date("2026-09-01T00:00:00Z");
+    mockPrisma.zapAnalyticsRollup.aggregate.mockResolvedValueOnce({
+      _max: { bucketStart: latestRollup },
+    });
+    mockPrisma.zapAnalytics.updateMany.mockResolvedValue({ count: 0 });
+
+    await pruneRawAnalytics(new Date("2026-10-18T12:00:00Z"));
+    expect(mockPrisma.zapAnalytics.updateMany.mock.calls[0][0].where.accessedAt).toEqual({
+      lt: latestRollup,
+    });
+
+    mockPrisma.zapAnalyticsRollup.aggregate.mockResolvedValueOnce({ _max: { bucketStart: null } });
+    expect(await pruneRawAnalytics()).toEqual({ pruned: 0, saltsDeleted: 1 });
+    expect(mockPrisma.zapAnalytics.updateMany).toHaveBeenCalledTimes(1);
+  });
+});
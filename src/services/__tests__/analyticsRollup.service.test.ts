@@ -0,0 +1,126 @@
+import prisma from "../../utils/prismClient";
+
+jest.mock("../../utils/prismClient", () => ({
+  __esModule: true,
+  default: {
+    zapAnalytics: { aggregate: jest.fn() },
+    zapAnalyticsRollup: {
+      aggregate: jest.fn(),
+      upsert: jest.fn((args) => args),
+      findMany: jest.fn(),
+    },
+    $queryRaw: jest.fn(),
+    $transaction: jest.fn(),
+  },
+}));
+
+// Import after mocks
+import {
+  getAnalyticsTimeSeries,
+  rollUpAnalytics,
+  truncateToBucket,
+} from "../analyticsRollup.service";
+
+describe("analyticsRollup.service", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it("should truncate dates to UTC hour and day buckets", () => {
+    const date = new Date("2026-10-18T13:45:12.345Z");
+
+    expect(truncateToBucket(date, "HOUR").toISOString()).toBe("2026-10-18T13:00:00.000Z");
+    expect(truncateToBucket(date, "DAY").toISOString()).toBe("2026-10-18T00:00:00.000Z");
+  });
+
+  it("should resume from the latest bucket and merge counts into one rollup per bucket", async () => {
+    const bucketStart = new Date("2026-10-18T13:00:00.000Z");
+    (prisma.zapAnalyticsRollup.aggregate as jest.Mock).mockResolvedValue({
+      _max: { bucketStart },
+    });
+    (prisma.$queryRaw as jest.Mock).mockImplementation(async (strings: TemplateStringsArray) =>
+      strings.join("").includes("COUNT(DISTINCT")
+        ? [{ zapId: "zap1", bucketStart, uniqueVisitors: 2 }]
+        : [
+            { zapId: "zap1", bucketStart, deviceType: "Desktop", browser: "Chrome", views: 3 },
+            { zapId: "zap1", bucketStart, deviceType: "Mobile", browser: "Chrome", views: 1 },
+          ],
+    );
+
+    const metrics = await rollUpAnalytics();
+
+    expect(metrics).toEqual({ hourBuckets: 1, dayBuckets: 1 });
+    expect(prisma.zapAnalytics.aggregate).not.toHaveBeenCalled();
+    expect(prisma.zapAnalyticsRollup.upsert).toHaveBeenCalledWith({
+      where: { zapId_granularity_bucketStart: { zapId: "zap1", granularity: "HOUR", bucketStart } },
+      create: {
+        zapId: "zap1",
+        granularity: "HOUR",
+        bucketStart,
+        views: 4,
+        uniqueVisitors: 2,
+        devices: { Desktop: 3, Mobile: 1 },
+        browsers: { Chrome: 4 },
+      },
+      update: {
+        views: 4,
+        uniqueVisitors: 2,
+        devices: { Desktop: 3, Mobile: 1 },
+        browsers: { Chrome: 4 },
+      },
+    });
+  });
+
+  it("should do nothing before any access was logged", async () => {
+    (prisma.zapAnalyticsRollup.aggregate as jest.Mock).mockResolvedValue({
+      _max: { bucketStart: null },
+    });
+    (prisma.zapAnalytics.aggregate as jest.Mock).mockResolvedValue({
+      _min: { accessedAt: null },
+    });
+
+    expect(await rollUpAnalytics()).toEqual({ hourBuckets: 0, dayBuckets: 0 });
+    expect(prisma.$queryRaw).not.toHaveBeenCalled();
+  });
+
+  it("should fill buckets without views with zeros and total the range", async () => {
+    (prisma.zapAnalyticsRollup.findMany as jest.Mock).mockResolvedValue([
+      {
+        bucketStart: new Date("2026-10-16T00:00:00.000Z"),
+        views: 5,
+        uniqueVisitors: 4,
+        devices: { Desktop: 5 },
+        browsers: { Firefox: 5 },
+      },
+      {
+        bucketStart: new Date("2026-10-18T00:00:00.000Z"),
+        views: 2,
+        uniqueVisitors: 2,
+        devices: { Desktop: 1, Mobile: 1 },
+        browsers: { Safari: 2 },
+      },
+    ]);
+
+    const result = await getAnalyticsTimeSeries(
+      "zap1",
+      "DAY",
+      new Date("2026-10-16T08:00:00.000Z"),
+      new Date("2026-10-18T12:00:00.000Z"),
+    );
+
+    expect(result.from.toISOString()).toBe("2026-10-16T00:00:00.000Z");
+    expect(result.series.map((bucket) => bucket.views)).toEqual([5, 0, 2]);
+    expect(result.series[1]).toEqual({
+      bucketStart: new Date("2026-10-17T00:00:00.000Z"),
+      views: 0,
+      uniqueVisitors: 0,
+      devices: {},
+      browsers: {},
+    });
+    expect(result.totals).toEqual({
+      views: 7,
+      devices: { Desktop: 6, Mobile: 1 },
+      browsers: { Firefox: 5, Safari: 2 },
+    });
+  });
+});
@@ -0,0 +1,90 @@
+import prisma from "../../utils/prismClient";
+import type { ListedObject, StorageProvider } from "../storage";
+
+jest.mock("../../utils/prismClient", () => ({
+  __esModule: true,
+  default: {
+    zap: { findMany: jest.fn() },
+    zapVersion: { findMany: jest.fn() },
+  },
+}));
+
+// Import after mocks
+import { reconcileStorageAssets } from "../assetReconciliation.service";
+
+const HOUR = 60 * 60 * 1000;
+
+const listedObject = (name: string, ageHours: number): ListedObject => ({
+  url: `local://zaplink_folders/${name}`,
+  size: 10,
+  lastModified: new Date(Date.now() - ageHours * HOUR),
+});
+
+// Storage driver listing the given objects
+const listingStorage = (objects: ListedObject[]): StorageProvider => ({
+  name: "local",
+  upload: jest.fn(),
+  stream: jest.fn(),
+  delete: jest.fn(),
+  owns: jest.fn(() => true),
+  list: async function* () {
+    yield* objects;
+  },
+});
+
+describe("assetReconciliation.service", () => {
+  const current = listedObject("current.pdf", 100);
+  const olderVersion = listedObject("v1.pdf", 100);
+  const orphan = listedObject("orphan.pdf", 48);
+  const freshUpload = listedObject("fresh.pdf", 1);
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (prisma.zap.findMany as jest.Mock).mockResolvedValue([{ cloudUrl: current.url }]);
+    (prisma.zapVersion.findMany as jest.Mock).mockResolvedValue([
+      { cloudUrl: current.url },
+      { cloudUrl: olderVersion.url },
+    ]);
+  });
+
+  it("should delete only unreferenced objects past the grace period", async () => {
+    const storage = listingStorage([current, olderVersion, orphan, freshUpload]);
+
+    const report = await reconcileStorageAssets(storage, { gracePeriodHours: 24 });
+
+    expect(storage.delete).toHaveBeenCalledTimes(1);
+    expect(storage.delete).toHaveBeenCalledWith(orphan.url);
+    expect(report).toMatchObject({
+      scanned: 4,
+      referenced: 2,
+      deleted: 1,
+      withinGracePeriod: 1,
+      errors: 0,
+    });
+    expect(report.orphans.map((o) => [o.url, o.deleted])).toEqual([
+      [orphan.url, true],
+      [freshUpload.url, false],
+    ]);
+  });
+
+  it("should only report orphans in a dry run", async () => {
+    const storage = listingStorage([current, orphan]);
+
+    const report = await reconcileStorageAssets(storage, { dryRun: true, gracePeriodHours: 24 });
+
+    expect(storage.delete).not.toHaveBeenCalled();
+    expect(report.orphans).toHaveLength(1);
+    expect(report.deleted).toBe(0);
+  });
+
+  it("should count a failed delete and carry on", async () => {
+    const secondOrphan = listedObject("orphan2.pdf", 48);
+    const storage = listingStorage([orphan, secondOrphan]);
+    (storage.delete as jest.Mock).mockRejectedValueOnce(new Error("storage unavailable"));
+
+    const report = await reconcileStorageAssets(storage, { gracePeriodHours: 24 });
+
+    expect(report.errors).toBe(1);
+    expect(report.deleted).toBe(1);
+  });
+});
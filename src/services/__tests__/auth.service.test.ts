@@ -0,0 +1,138 @@
+import prisma from "../../utils/prismClient";
+
+jest.mock("../../utils/prismClient", () => {
+  const refreshToken = {
+    create: jest.fn(),
+    findUnique: jest.fn(),
+    update: jest.fn(),
+    updateMany: jest.fn(),
+  };
+  return {
+    __esModule: true,
+    default: {
+      refreshToken,
+      $transaction: jest.fn((callback) => callback({ refreshToken })),
+    },
+  };
+});
+
+process.env.ACCESS_TOKEN_SECRET = "test-access-secret";
+process.env.REFRESH_TOKEN_SECRET = "test-refresh-secret";
+
+// Import after mocks
+import {
+  issueTokens,
+  rotateRefreshToken,
+  revokeRefreshToken,
+} from "../auth.service";
+import { generateRefreshToken } from "../../utils/jwt";
+
+describe("auth.service - refresh token rotation", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (prisma.refreshToken.create as jest.Mock).mockResolvedValue({ id: "rt_new" });
+    (prisma.refreshToken.updateMany as jest.Mock).mockResolvedValue({ count: 1 });
+  });
+
+  it("should persist a hashed refresh token when issuing tokens", async () => {
+    const tokens = await issueTokens("user_1", "family_1");
+
+    expect(tokens.accessToken).toEqual(expect.any(String));
+    expect(tokens.refreshToken).toEqual(expect.any(String));
+    expect(tokens.refreshTokenExpiresAt.getTime()).toBeGreaterThan(Date.now());
+
+    const createCall = (prisma.refreshToken.create as jest.Mock).mock.calls[0][0];
+    expect(createCall.data).toMatchObject({ userId: "user_1", familyId: "family_1" });
+    // Raw tokens must never be stored
+    expect(createCall.data.tokenHash).not.toBe(tokens.refreshToken);
+  });
+
+  it("should rotate a valid refresh token within the same family", async () => {
+    const presented = generateRefreshToken("user_1");
+    (prisma.refreshToken.findUnique as jest.Mock).mockResolvedValue({
+      id: "rt_old",
+      userId: "user_1",
+      familyId: "family_1",
+      revokedAt: null,
+      expiresAt: new Date(Date.now() + 60_000),
+    });
+
+    const result = await rotateRefreshToken(presented);
+
+    expect(result.userId).toBe("user_1");
+    expect(result.refreshToken).not.toBe(presented);
+    expect(prisma.refreshToken.create).toHaveBeenCalledWith(
+      expect.objectContaining({
+        data: expect.objectContaining({ familyId: "family_1" }),
+      })
+    );
+    expect(prisma.refreshToken.update).toHaveBeenCalledWith({
+      where: { id: "rt_old" },
+      data: { replacedById: "rt_new" },
+    });
+  });
+
+  it("should revoke the whole family when a revoked token is reused", async () => {
+    const presented = generateRefreshToken("user_1");
+    (prisma.refreshToken.findUnique as jest.Mock).mockResolvedValue({
+      id: "rt_old",
+      userId: "user_1",
+      familyId: "family_1",
+      revokedAt: new Date(),
+      expiresAt: new Date(Date.now() + 60_000),
+    });
+
+    await expect(rotateRefreshToken(presented)).rejects.toThrow(
+      "REFRESH_TOKEN_REUSED"
+    );
+    expect(prisma.refreshToken.updateMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: { familyId: "family_1", revokedAt: null },
+      })
+    );
+    expect(prisma.refreshToken.create).not.toHaveBeenCalled();
+  });
+
+  it("should treat a lost rotation race as reuse", async () => {
+    const presented = generateRefreshToken("user_1");
+    (prisma.refreshToken.findUnique as jest.Mock).mockResolvedValue({
+      id: "rt_old",
+      userId: "user_1",
+      familyId: "family_1",
+      revokedAt: null,
+      expiresAt: new Date(Date.now() + 60_000),
+    });
+    // Another request revoked the token between the read and the update
+    (prisma.refreshToken.updateMany as jest.Mock).mockResolvedValueOnce({ count: 0 });
+
+    await expect(rotateRefreshToken(presented)).rejects.toThrow(
+      "REFRESH_TOKEN_REUSED"
+    );
+    expect(prisma.refreshToken.updateMany).toHaveBeenLastCalledWith(
+      expect.objectContaining({
+        where: { familyId: "family_1", revokedAt: null },
+      })
+    );
+  });
+
+  it("should reject unknown and malformed tokens", async () => {
+    (prisma.refreshToken.findUnique as jest.Mock).mockResolvedValue(null);
+
+    await expect(rotateRefreshToken(generateRefreshToken("user_1"))).rejects.toThrow(
+      "REFRESH_TOKEN_INVALID"
+    );
+    await expect(rotateRefreshToken("not-a-jwt")).rejects.toThrow(
+      "REFRESH_TOKEN_INVALID"
+    );
+  });
+
+  it("should revoke a single token on logout", async () => {
+    await revokeRefreshToken("some-token");
+
+    expect(prisma.refreshToken.updateMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: expect.objectContaining({ revokedAt: null }),
+      })
+    );
+  });
+});
@@ -0,0 +1,130 @@
+import crypto from "crypto";
+import { Readable } from "stream";
+
+process.env.TEXT_ENCRYPTION_KEY = "test-text-encryption-key-0123456789abcdef";
+
+import {
+  encryptUploadBody,
+  generateFileKey,
+  getEncryptedSize,
+  openDecryptedStream,
+  unwrapFileKey,
+} from "../fileEncryption.service";
+import type { ByteRange, StorageProvider } from "../storage";
+
+const readAll = async (stream: Readable): Promise<Buffer> => {
+  const chunks: Buffer[] = [];
+  for await (const chunk of stream) {
+    chunks.push(Buffer.from(chunk));
+  }
+  return Buffer.concat(chunks);
+};
+
+// Storage driver holding a single object in memory
+const memoryStorage = (object: Buffer): StorageProvider & { reads: ByteRange[] } => {
+  const reads: ByteRange[] = [];
+  return {
+    name: "local",
+    reads,
+    upload: jest.fn(),
+    delete: jest.fn(),
+    owns: jest.fn(() => true),
+    list: jest.fn(),
+    stream: jest.fn(async (_url: string, range?: ByteRange) => {
+      const start = range?.start ?? 0;
+      const end = range?.end ?? object.length - 1;
+      reads.push({ start, end });
+      return { stream: Readable.from([object.subarray(start, end + 1)]), size: object.length };
+    }),
+  };
+};
+
+const encrypt = async (plaintext: Buffer, dataKey: Buffer) => {
+  // Feed the encryptor in odd-sized chunks, like a file read stream would
+  const chunks: Buffer[] = [];
+  for (let offset = 0; offset < plaintext.length; offset += 10_000) {
+    chunks.push(plaintext.subarray(offset, offset + 10_000));
+  }
+  return readAll(encryptUploadBody(Readable.from(chunks), dataKey));
+};
+
+describe("fileEncryption.service", () => {
+  const plaintext = crypto.randomBytes(200 * 1024 + 123); // four segments
+  const { dataKey, wrappedKey } = generateFileKey();
+
+  it("should wrap the data key with the master key", () => {
+    expect(wrappedKey).not.toContain(dataKey.toString("base64"));
+    expect(unwrapFileKey(wrappedKey).equals(dataKey)).toBe(true);
+  });
+
+  it("should store only ciphertext of the predicted size", async () => {
+    const stored = await encrypt(plaintext, dataKey);
+
+    expect(stored.length).toBe(getEncryptedSize(plaintext.length));
+    expect(stored.includes(plaintext.subarray(0, 64))).toBe(false);
+  });
+
+  it("should decrypt the whole file", async () => {
+    const storage = memoryStorage(await encrypt(plaintext, dataKey));
+
+    const stream = await openDecryptedStream(storage, "local://file", dataKey, plaintext.length);
+
+    expect((await readAll(stream)).equals(plaintext)).toBe(true);
+  });
+
+  it("should decrypt a byte range spanning segments, reading only those segments", async () => {
+    const stored = await encrypt(plaintext, dataKey);
+    const storage = memoryStorage(stored);
+    const range = { start: 65_000, end: 140_000 };
+
+    const stream = await openDecryptedStream(storage, "local://file", dataKey, plaintext.length, range);
+
+    expect((await readAll(stream)).equals(plaintext.subarray(range.start, range.end + 1))).toBe(true);
+    const dataRead = storage.reads[1];
+    expect(dataRead.start).toBeGreaterThan(0);
+    expect(dataRead.end! + 1).toBeLessThan(stored.length);
+  });
+
+  it("should round-trip an empty file and a single buffered segment", async () => {
+    const empty = await readAll(encryptUploadBody(Buffer.alloc(0), dataKey));
+    const emptyStream = await openDecryptedStream(memoryStorage(empty), "local://file", dataKey, 0);
+    expect((await readAll(emptyStream)).length).toBe(0);
+
+    const small = Buffer.from("signed contract");
+    const stored = await readAll(encryptUploadBody(small, dataKey));
+    const stream = await openDecryptedStream(memoryStorage(stored), "local://file", dataKey, small.length);
+    expect((await readAll(stream)).toString()).toBe("signed contract");
+  });
+
+  it("should fail on tampered ciphertext", async () => {
+    const stored = await encrypt(plaintext, dataKey);
+    stored[stored.length - 100] ^= 0xff;
+
+    const stream = await openDecryptedStream(memoryStorage(stored), "local://file", dataKey, plaintext.length);
+
+    await expect(readAll(stream)).rejects.toThrow("ENCRYPTED_FILE_CORRUPT");
+  });
+
+  it("should fail on a truncated file", async () => {
+    const stored = await encrypt(plaintext, dataKey);
+    const truncated = stored.subarray(0, 12 + 2 * (64 * 1024 + 16));
+
+    const stream = await openDecryptedStream(
+      memoryStorage(truncated),
+      "local://file",
+      dataKey,
+      plaintext.length,
+    );
+
+    await expect(readAll(stream)).rejects.toThrow("ENCRYPTED_FILE_CORRUPT");
+  });
+
+  it("should fail with another Zap's data key", async () => {
+    const stored = await encrypt(plaintext, dataKey);
+    const otherKey = generateFileKey().dataKey;
+
+    const stream = await openDecryptedStream(memoryStorage(stored), "local://file", otherKey, plaintext.length);
+
+    await expect(readAll(stream)).rejects.toThrow("ENCRYPTED_FILE_CORRUPT");
+  });
+});
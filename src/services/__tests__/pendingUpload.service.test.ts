@@ -0,0 +1,55 @@
+import prisma from "../../utils/prismClient";
+import { deleteStoredObject } from "../storage";
+
+jest.mock("../../utils/prismClient", () => ({
+  __esModule: true,
+  default: {
+    pendingUpload: {
+      updateMany: jest.fn(),
+      findMany: jest.fn(),
+      delete: jest.fn(),
+      deleteMany: jest.fn(),
+    },
+  },
+}));
+jest.mock("../storage", () => ({
+  __esModule: true,
+  deleteStoredObject: jest.fn(),
+  getStorage: jest.fn(),
+}));
+
+// Import after mocks
+import { commitPendingUpload, rollBackStalePendingUploads } from "../pendingUpload.service";
+
+describe("pendingUpload.service", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it("should delete files of stale uploads and keep entries whose delete failed", async () => {
+    (prisma.pendingUpload.findMany as jest.Mock).mockResolvedValue([
+      { id: "pending1", storageUrl: "local://zaplink_folders/a.pdf" },
+      { id: "pending2", storageUrl: "local://zaplink_folders/b.pdf" },
+    ]);
+    (deleteStoredObject as jest.Mock).mockResolvedValueOnce(true).mockResolvedValueOnce(false);
+    (prisma.pendingUpload.deleteMany as jest.Mock).mockResolvedValue({ count: 3 });
+
+    const metrics = await rollBackStalePendingUploads();
+
+    expect(prisma.pendingUpload.updateMany).toHaveBeenCalledWith({
+      where: { status: "PENDING", createdAt: { lt: expect.any(Date) } },
+      data: { status: "ROLLED_BACK" },
+    });
+    expect(prisma.pendingUpload.delete).toHaveBeenCalledTimes(1);
+    expect(prisma.pendingUpload.delete).toHaveBeenCalledWith({ where: { id: "pending1" } });
+    expect(metrics).toEqual({ rolledBack: 1, rollbackErrors: 1, committedPruned: 3 });
+  });
+
+  it("should refuse to commit an upload that was already rolled back", async () => {
+    const tx = { pendingUpload: { updateMany: jest.fn().mockResolvedValue({ count: 0 }) } };
+
+    await expect(commitPendingUpload(tx as any, "pending1")).rejects.toThrow(
+      "PENDING_UPLOAD_EXPIRED",
+    );
+  });
+});
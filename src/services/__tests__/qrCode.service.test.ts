@@ -0,0 +1,130 @@
+import { EventEmitter } from "events";
+import https from "https";
+import { PassThrough } from "stream";
+import { PNG } from "pngjs";
+
+jest.mock("https", () => ({
+  __esModule: true,
+  default: { get: jest.fn() },
+}));
+
+// Import after mocks
+import {
+  fetchLogo,
+  getQrCodeETag,
+  QrCodeOptions,
+  renderQrCode,
+} from "../qrCode.service";
+
+const TEXT = "https://zaplink.example/zaps/abc12345";
+
+const baseOptions: QrCodeOptions = {
+  format: "png",
+  size: 256,
+  margin: 4,
+  errorCorrectionLevel: "M",
+  foreground: "#112233ff",
+  background: "#ffeeddff",
+};
+
+const buildLogo = (): Buffer => {
+  const logo = new PNG({ width: 8, height: 8 });
+  for (let i = 0; i < logo.data.length; i += 4) {
+    logo.data.set([255, 0, 0, 255], i);
+  }
+  return PNG.sync.write(logo);
+};
+
+/** Answers the next https.get with the given status and body */
+const respondWith = (statusCode: number, body: Buffer) => {
+  (https.get as jest.Mock).mockImplementationOnce((_url, _options, callback) => {
+    const response = Object.assign(new PassThrough(), { statusCode, headers: {} });
+    process.nextTick(() => {
+      callback(response);
+      response.end(body);
+    });
+    return Object.assign(new EventEmitter(), { destroy: jest.fn() });
+  });
+};
+
+const pixelAt = (image: PNG, x: number, y: number) => {
+  const index = (y * image.width + x) * 4;
+  return [...image.data.subarray(index, index + 4)];
+};
+
+describe("qrCode.service", () => {
+  beforeEach(() => jest.clearAllMocks());
+
+  it("should render a PNG of the requested size and colors", async () => {
+    const image = PNG.sync.read(await renderQrCode(TEXT, baseOptions));
+
+    expect(image.width).toBe(256);
+    expect(image.height).toBe(256);
+    // Quiet zone in the corner, dark modules somewhere in the code
+    expect(pixelAt(image, 0, 0)).toEqual([0xff, 0xee, 0xdd, 0xff]);
+    expect(image.data.indexOf(Buffer.from([0x11, 0x22, 0x33, 0xff]))).toBeGreaterThan(-1);
+  });
+
+  it("should render SVG and PDF", async () => {
+    const svg = (await renderQrCode(TEXT, { ...baseOptions, format: "svg" })).toString();
+    expect(svg).toContain('width="256"');
+    expect(svg).toContain('fill="#ffeedd"');
+    expect(svg).toContain('stroke="#112233"');
+
+    const pdf = await renderQrCode(TEXT, { ...baseOptions, format: "pdf" });
+    expect(pdf.subarray(0, 5).toString()).toBe("%PDF-");
+  });
+
+  it("should draw the logo in the middle of the code", async () => {
+    respondWith(200, buildLogo());
+    respondWith(200, buildLogo());
+    const options = { ...baseOptions, errorCorrectionLevel: "H" as const, logoUrl: "https://cdn.example/logo.png" };
+
+    const image = PNG.sync.read(await renderQrCode(TEXT, options));
+    expect(pixelAt(image, 128, 128)).toEqual([255, 0, 0, 255]);
+
+    const svg = (await renderQrCode(TEXT, { ...options, format: "svg" })).toString();
+    expect(svg).toContain('href="data:image/png;base64,');
+  });
+
+  it("should reject logos that are not PNGs or not downloadable", async () => {
+    respondWith(200, Buffer.from("<html>"));
+    await expect(fetchLogo("https://cdn.example/logo.png")).rejects.toThrow("QR_LOGO_NOT_PNG");
+
+    respondWith(404, Buffer.alloc(0));
+    await expect(fetchLogo("https://cdn.example/logo.png")).rejects.toThrow("QR_LOGO_UNAVAILABLE");
+
+    respondWith(200, Buffer.alloc(600 * 1024));
+    await expect(fetchLogo("https://cdn.example/logo.png")).rejects.toThrow("QR_LOGO_TOO_LARGE");
+  });
+
+  it("should reject oversized logos from their header without decoding them", async () => {
+    const logo = buildLogo();
+    // Declares 8000x8000 in IHDR; the pixel data would never be inflated
+    logo.writeUInt32BE(8000, 16);
+    logo.writeUInt32BE(8000, 20);
+    respondWith(200, logo);
+    const read = jest.spyOn(PNG.sync, "read");
+
+    await expect(
+      renderQrCode(TEXT, { ...baseOptions, logoUrl: "https://cdn.example/logo.png" }),
+    ).rejects.toThrow("QR_LOGO_NOT_PNG");
+    expect(read).not.toHaveBeenCalled();
+    read.mockRestore();
+  });
+
+  it("should refuse logos on private addresses", async () => {
+    await expect(fetchLogo("https://127.0.0.1/logo.png")).rejects.toThrow("QR_LOGO_FORBIDDEN_HOST");
+    await expect(fetchLogo("https://[::1]/logo.png")).rejects.toThrow("QR_LOGO_FORBIDDEN_HOST");
+    expect(https.get).not.toHaveBeenCalled();
+  });
+
+  it("should change the ETag with any option", () => {
+    const etag = getQrCodeETag(TEXT, baseOptions);
+
+    expect(etag).toMatch(/^"qr-[\w-]+"$/);
+    expect(getQrCodeETag(TEXT, { ...baseOptions })).toBe(etag);
+    expect(getQrCodeETag(TEXT, { ...baseOptions, size: 512 })).not.toBe(etag);
+    expect(getQrCodeETag(TEXT, { ...baseOptions, logoUrl: "https://cdn.example/a.png" })).not.toBe(etag);
+  });
+});
@@ -0,0 +1,92 @@
+import fs from "fs";
+import os from "os";
+import * as path from "path";
+import { Readable } from "stream";
+
+const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "zaplink-resumable-"));
+process.env.UPLOAD_TMP_DIR = tmpDir;
+
+// Import after env setup
+import {
+  assembleUpload,
+  createUploadSession,
+  getReceivedChunks,
+  getUploadOffset,
+  getUploadSession,
+  toByteRanges,
+  writeUploadChunk,
+  RESUMABLE_MIN_CHUNK_SIZE,
+} from "../resumableUpload.service";
+
+const CHUNK = RESUMABLE_MIN_CHUNK_SIZE;
+const fileContents = Buffer.concat([
+  Buffer.alloc(CHUNK, "a"),
+  Buffer.alloc(CHUNK, "b"),
+  Buffer.alloc(100, "c"),
+]);
+const chunkAt = (index: number) =>
+  Readable.from([fileContents.subarray(index * CHUNK, (index + 1) * CHUNK)]);
+
+describe("resumableUpload.service - chunked uploads", () => {
+  afterAll(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it("should track out-of-order chunks and assemble the original file", async () => {
+    const session = await createUploadSession(
+      { fileName: "../../movie.mp4", size: fileContents.length, chunkSize: CHUNK },
+      null
+    );
+    expect(session.totalChunks).toBe(3);
+    expect(session.fileName).toBe("movie.mp4");
+
+    await writeUploadChunk(session, 2, chunkAt(2));
+    await writeUploadChunk(session, 0, chunkAt(0));
+
+    const received = await getReceivedChunks(session);
+    expect(received).toEqual([0, 2]);
+    expect(toByteRanges(session, received)).toEqual([
+      { start: 0, end: CHUNK - 1 },
+      { start: 2 * CHUNK, end: 2 * CHUNK + 99 },
+    ]);
+    expect(getUploadOffset(session, received)).toBe(CHUNK);
+    await expect(assembleUpload(session)).rejects.toThrow("UPLOAD_INCOMPLETE");
+
+    await writeUploadChunk(session, 1, chunkAt(1));
+    expect(toByteRanges(session, await getReceivedChunks(session))).toEqual([
+      { start: 0, end: fileContents.length - 1 },
+    ]);
+
+    const file = await assembleUpload(session);
+    expect(file.originalname).toBe("movie.mp4");
+    expect(file.size).toBe(fileContents.length);
+    expect(fs.readFileSync(file.path).equals(fileContents)).toBe(true);
+
+    // A second completion attempt must not assemble the file again
+    await expect(assembleUpload(session)).rejects.toThrow("UPLOAD_IN_PROGRESS");
+  });
+
+  it("should reject chunks with the wrong length or index", async () => {
+    const session = await createUploadSession(
+      { fileName: "movie.mp4", size: fileContents.length, chunkSize: CHUNK },
+      null
+    );
+
+    await expect(
+      writeUploadChunk(session, 0, Readable.from([Buffer.alloc(10)]))
+    ).rejects.toThrow("CHUNK_SIZE_MISMATCH");
+    await expect(
+      writeUploadChunk(session, 0, Readable.from([Buffer.alloc(CHUNK + 1)]))
+    ).rejects.toThrow("CHUNK_SIZE_MISMATCH");
+    await expect(writeUploadChunk(session, 3, chunkAt(0))).rejects.toThrow(
+      "CHUNK_OUT_OF_RANGE"
+    );
+
+    // Rejected chunks leave nothing behind
+    expect(await getReceivedChunks(session)).toEqual([]);
+  });
+
+  it("should not resolve ids outside the upload directory", async () => {
+    await expect(getUploadSession("../../etc")).rejects.toThrow("UPLOAD_NOT_FOUND");
+  });
+});
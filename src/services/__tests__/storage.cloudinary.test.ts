@@ -0,0 +1,68 @@
+import cloudinary from "../../middlewares/cloudinary";
+
+jest.mock("../../middlewares/cloudinary", () => ({
+  __esModule: true,
+  default: { uploader: { destroy: jest.fn() }, config: () => ({ cloud_name: "demo" }) },
+}));
+
+// Import after mocks
+import { CloudinaryStorageProvider } from "../storage/cloudinary.driver";
+import { deleteStoredObject } from "../storage";
+
+const destroy = cloudinary.uploader.destroy as jest.Mock;
+const IMAGE_URL = "https://res.cloudinary.com/demo/image/upload/v1700000000/zaplink_folders/photo_1.png";
+
+describe("storage - cloudinary driver", () => {
+  const storage = new CloudinaryStorageProvider();
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(console, "log").mockImplementation(() => undefined);
+  });
+
+  afterEach(() => jest.restoreAllMocks());
+
+  it("should delete the asset by its public_id", async () => {
+    destroy.mockResolvedValue({ result: "ok" });
+
+    await storage.delete(IMAGE_URL);
+
+    expect(destroy).toHaveBeenCalledWith("zaplink_folders/photo_1", { resource_type: "image" });
+  });
+
+  it("should treat an asset that is already gone as deleted", async () => {
+    destroy.mockResolvedValue({ result: "not found" });
+
+    await expect(storage.delete(IMAGE_URL)).resolves.toBeUndefined();
+  });
+
+  it("should fail when Cloudinary does not delete the asset", async () => {
+    destroy.mockResolvedValue({ result: "error" });
+    await expect(storage.delete(IMAGE_URL)).rejects.toThrow("Cloudinary could not delete");
+
+    destroy.mockRejectedValue(new Error("Request Timeout"));
+    await expect(storage.delete(IMAGE_URL)).rejects.toThrow("Request Timeout");
+
+    jest.spyOn(console, "error").mockImplementation(() => undefined);
+    destroy.mockResolvedValue({ result: "error" });
+    expect(await deleteStoredObject(IMAGE_URL)).toBe(false);
+  });
+
+  it("should refuse a full response to a range request", async () => {
+    const fetchMock = jest.spyOn(global, "fetch");
+    fetchMock.mockResolvedValueOnce(new Response("partial", {
+      status: 206,
+      headers: { "content-range": "bytes 0-6/100" },
+    }));
+    fetchMock.mockResolvedValueOnce(new Response("the whole file", { status: 200 }));
+
+    const object = await storage.stream(IMAGE_URL, { start: 0, end: 6 });
+    object.stream.destroy();
+    expect(object.size).toBe(100);
+    expect(fetchMock).toHaveBeenCalledWith(IMAGE_URL, { headers: { Range: "bytes=0-6" } });
+
+    await expect(storage.stream(IMAGE_URL, { start: 0, end: 6 })).rejects.toThrow(
+      "ignored the range request"
+    );
+  });
+});
@@ -0,0 +1,88 @@
+import fs from "fs";
+import os from "os";
+import * as path from "path";
+
+jest.mock("../../middlewares/cloudinary", () => ({
+  __esModule: true,
+  default: { uploader: {}, config: () => ({ cloud_name: "demo" }) },
+}));
+
+// Import after mocks
+import { LocalStorageProvider } from "../storage/local.driver";
+import { getStorageForUrl } from "../storage";
+
+const readStream = async (stream: NodeJS.ReadableStream): Promise<string> => {
+  const chunks: Buffer[] = [];
+  for await (const chunk of stream) chunks.push(Buffer.from(chunk));
+  return Buffer.concat(chunks).toString();
+};
+
+describe("storage - local driver", () => {
+  let rootDir: string;
+  let storage: LocalStorageProvider;
+
+  beforeEach(() => {
+    rootDir = fs.mkdtempSync(path.join(os.tmpdir(), "zaplink-storage-"));
+    storage = new LocalStorageProvider(rootDir);
+  });
+
+  afterEach(() => {
+    fs.rmSync(rootDir, { recursive: true, force: true });
+  });
+
+  it("should upload, stream a byte range and delete a file", async () => {
+    const stored = await storage.upload(Buffer.from("hello world"), {
+      fileName: "greeting.txt",
+    });
+
+    expect(stored.url).toMatch(/^local:\/\/zaplink_folders\/\d+-[a-f0-9]{16}\.txt$/);
+    expect(stored.size).toBe(11);
+
+    const full = await storage.stream(stored.url);
+    expect(full.size).toBe(11);
+    expect(await readStream(full.stream)).toBe("hello world");
+
+    const partial = await storage.stream(stored.url, { start: 6, end: 10 });
+    expect(await readStream(partial.stream)).toBe("world");
+
+    await storage.delete(stored.url);
+    await expect(storage.stream(stored.url)).rejects.toThrow();
+    // Deleting twice is not an error
+    await expect(storage.delete(stored.url)).resolves.toBeUndefined();
+  });
+
+  it("should refuse keys that escape the storage directory", async () => {
+    expect(() => storage.resolveKey("../etc/passwd")).toThrow("Invalid storage key");
+    await expect(storage.delete("local://../../etc/passwd")).rejects.toThrow(
+      "Invalid storage key"
+    );
+  });
+
+  it("should list stored objects by the references upload returned", async () => {
+    const first = await storage.upload(Buffer.from("one"), { fileName: "a.pdf" });
+    const second = await storage.upload(Buffer.from("three"), { fileName: "b.pdf" });
+
+    const listed = [];
+    for await (const object of storage.list()) listed.push(object);
+
+    expect(listed.map((object) => object.url).sort()).toEqual([first.url, second.url].sort());
+    expect(listed.find((object) => object.url === second.url)?.size).toBe(5);
+  });
+
+  it("should list nothing before the first upload", async () => {
+    const listed = [];
+    for await (const object of storage.list()) listed.push(object);
+
+    expect(listed).toEqual([]);
+  });
+
+  it("should route references to the driver that stored them", () => {
+    expect(getStorageForUrl("local://zaplink_folders/a.pdf")?.name).toBe("local");
+    expect(
+      getStorageForUrl("https://res.cloudinary.com/demo/raw/upload/v1/a.pdf")?.name
+    ).toBe("cloudinary");
+    expect(getStorageForUrl("https://example.com/a.pdf")).toBeNull();
+    // Assets of other Cloudinary clouds are not ours
+    expect(getStorageForUrl("https://res.cloudinary.com/other/raw/upload/v1/a.pdf")).toBeNull();
+  });
+});
@@ -0,0 +1,269 @@
+import crypto from "crypto";
+import { EventEmitter } from "events";
+import https from "https";
+import { PassThrough } from "stream";
+import prisma from "../../utils/prismClient";
+
+jest.mock("../../utils/prismClient", () => ({
+  __esModule: true,
+  default: {
+    webhookSubscription: { findMany: jest.fn() },
+    webhookDelivery: {
+      createMany: jest.fn(),
+      create: jest.fn(),
+      update: jest.fn(),
+      delete: jest.fn((args: unknown) => args),
+    },
+    webhookDeadLetter: {
+      findUnique: jest.fn(),
+      create: jest.fn((args: unknown) => args),
+      delete: jest.fn(),
+    },
+    $queryRaw: jest.fn(),
+    $transaction: jest.fn(),
+  },
+}));
+jest.mock("../../utils/encryption", () => ({
+  encryptText: jest.fn((text: string) => `encrypted_${text}`),
+  decryptText: jest.fn((text: string) => text.replace("encrypted_", "")),
+}));
+
+jest.mock("https", () => ({
+  __esModule: true,
+  default: { request: jest.fn() },
+}));
+
+// Import after mocks
+import {
+  enqueueWebhookEvent,
+  generateWebhookSecret,
+  getRetryDelayMs,
+  processWebhookDeliveries,
+  redeliverDeadLetter,
+  signWebhookPayload,
+  WebhookZap,
+} from "../webhook.service";
+
+const mockPrisma = prisma as unknown as {
+  webhookSubscription: { findMany: jest.Mock };
+  webhookDelivery: { createMany: jest.Mock; create: jest.Mock; update: jest.Mock; delete: jest.Mock };
+  webhookDeadLetter: { findUnique: jest.Mock; create: jest.Mock; delete: jest.Mock };
+  $queryRaw: jest.Mock;
+  $transaction: jest.Mock;
+};
+
+const zap: WebhookZap = {
+  id: "zap1",
+  shortId: "abc12345",
+  ownerId: "user1",
+  name: "Report",
+  type: "PDF",
+  viewCount: 3,
+  viewLimit: 3,
+  expiresAt: null,
+};
+
+const buildDelivery = (attempts = 0) => ({
+  id: "delivery1",
+  subscriptionId: "sub1",
+  event: "zap.viewed",
+  payload: { id: "event1", type: "zap.viewed" },
+  url: "https://example.com/hook",
+  secret: "encrypted_whsec_test",
+  attempts,
+  createdAt: new Date("2026-10-18T12:00:00Z"),
+});
+
+describe("signWebhookPayload", () => {
+  it("should sign the timestamp and body with HMAC-SHA256", () => {
+    const expected = crypto
+      .createHmac("sha256", "whsec_test")
+      .update('1700000000.{"a":1}')
+      .digest("hex");
+
+    expect(signWebhookPayload("whsec_test", '{"a":1}', 1700000000)).toBe(
+      `t=1700000000,v1=${expected}`,
+    );
+  });
+
+  it("should return the plain secret once and store it encrypted", () => {
+    const { secret, encrypted } = generateWebhookSecret();
+
+    expect(secret).toMatch(/^whsec_[0-9a-f]{64}$/);
+    expect(encrypted).toBe(`encrypted_${secret}`);
+  });
+});
+
+describe("getRetryDelayMs", () => {
+  it("should double the delay per attempt up to six hours", () => {
+    expect(getRetryDelayMs(1)).toBe(30 * 1000);
+    expect(getRetryDelayMs(2)).toBe(60 * 1000);
+    expect(getRetryDelayMs(20)).toBe(6 * 60 * 60 * 1000);
+  });
+});
+
+describe("enqueueWebhookEvent", () => {
+  beforeEach(() => jest.clearAllMocks());
+
+  it("should queue one delivery per matching subscription", async () => {
+    mockPrisma.webhookSubscription.findMany.mockResolvedValue([
+      { id: "sub1", url: "https://a.example/hook", secret: "s1" },
+      { id: "sub2", url: "https://b.example/hook", secret: "s2" },
+    ]);
+    mockPrisma.webhookDelivery.createMany.mockResolvedValue({ count: 2 });
+
+    const queued = await enqueueWebhookEvent(prisma, zap, "zap.deleted", { reason: "deleted" });
+
+    expect(queued).toBe(2);
+    const { data } = mockPrisma.webhookDelivery.createMany.mock.calls[0][0];
+    expect(data.map((row: { url: string }) => row.url)).toEqual([
+      "https://a.example/hook",
+      "https://b.example/hook",
+    ]);
+    expect(data[0].payload).toMatchObject({
+      type: "zap.deleted",
+      data: { shortId: "abc12345", viewCount: 3, reason: "deleted" },
+    });
+    // Both deliveries describe the same event
+    expect(data[0].payload.id).toBe(data[1].payload.id);
+  });
+
+  it("should queue nothing without subscriptions", async () => {
+    mockPrisma.webhookSubscription.findMany.mockResolvedValue([]);
+
+    expect(await enqueueWebhookEvent(prisma, zap, "zap.created")).toBe(0);
+    expect(mockPrisma.webhookDelivery.createMany).not.toHaveBeenCalled();
+  });
+});
+
+/** Answers the next https.request with a status, or fails it with an error */
+const respondWith = (outcome: number | Error) => {
+  (https.request as jest.Mock).mockImplementationOnce((_url, _options, callback) => {
+    const request = Object.assign(new EventEmitter(), {
+      body: "",
+      destroy: jest.fn(),
+      end: jest.fn((body: string) => {
+        request.body = body;
+        process.nextTick(() => {
+          if (outcome instanceof Error) {
+            request.emit("error", outcome);
+          } else {
+            callback(Object.assign(new PassThrough(), { statusCode: outcome, headers: {} }));
+          }
+        });
+      }),
+    });
+    return request;
+  });
+};
+
+describe("processWebhookDeliveries", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockPrisma.$transaction.mockResolvedValue([]);
+  });
+
+  it("should send a signed request and drop the delivery on success", async () => {
+    mockPrisma.$queryRaw.mockResolvedValueOnce([buildDelivery()]);
+    respondWith(200);
+
+    const metrics = await processWebhookDeliveries();
+
+    expect(metrics).toEqual({ delivered: 1, retrying: 0, deadLettered: 0 });
+    const [url, options] = (https.request as jest.Mock).mock.calls[0];
+    expect(url.href).toBe("https://example.com/hook");
+    expect(options.lookup).toEqual(expect.any(Function));
+    const { body } = (https.request as jest.Mock).mock.results[0].value;
+    const timestamp = Number(/t=(\d+)/.exec(options.headers["X-Zaplink-Signature"])![1]);
+    expect(options.headers["X-Zaplink-Signature"]).toBe(
+      signWebhookPayload("whsec_test", body, timestamp),
+    );
+    expect(mockPrisma.webhookDelivery.delete).toHaveBeenCalledWith({ where: { id: "delivery1" } });
+  });
+
+  it("should reschedule a failed delivery with backoff", async () => {
+    mockPrisma.$queryRaw.mockResolvedValueOnce([buildDelivery(1)]);
+    respondWith(503);
+
+    const metrics = await processWebhookDeliveries();
+
+    expect(metrics.retrying).toBe(1);
+    const { data } = mockPrisma.webhookDelivery.update.mock.calls[0][0];
+    expect(data.attempts).toBe(2);
+    expect(data.lastError).toBe("HTTP 503");
+    expect(data.nextAttemptAt.getTime()).toBeGreaterThan(Date.now() + 50 * 1000);
+  });
+
+  it("should not connect to private addresses or reveal why they failed", async () => {
+    mockPrisma.$queryRaw.mockResolvedValueOnce([
+      { ...buildDelivery(), id: "delivery1", url: "https://10.0.0.5:6379/" },
+      { ...buildDelivery(), id: "delivery2" },
+    ]);
+    respondWith(new Error("FORBIDDEN_HOST"));
+
+    await processWebhookDeliveries();
+
+    expect(https.request).toHaveBeenCalledTimes(1);
+    const errors = mockPrisma.webhookDelivery.update.mock.calls.map(([{ data }]) => data.lastError);
+    expect(errors).toEqual([
+      "URL is not an HTTPS URL on a public address",
+      "URL is not an HTTPS URL on a public address",
+    ]);
+  });
+
+  it("should move the delivery to the dead letters after the last attempt", async () => {
+    mockPrisma.$queryRaw.mockResolvedValueOnce([buildDelivery(7)]);
+    respondWith(new Error("connect ECONNREFUSED"));
+    const consoleSpy = jest.spyOn(console, "error").mockImplementation(() => undefined);
+
+    const metrics = await processWebhookDeliveries();
+
+    expect(metrics.deadLettered).toBe(1);
+    expect(mockPrisma.webhookDeadLetter.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        subscriptionId: "sub1",
+        attempts: 8,
+        lastError: "connect ECONNREFUSED",
+      }),
+    });
+    expect(mockPrisma.webhookDelivery.delete).toHaveBeenCalledWith({ where: { id: "delivery1" } });
+    consoleSpy.mockRestore();
+  });
+});
+
+describe("redeliverDeadLetter", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockPrisma.$transaction.mockImplementation((callback: (tx: unknown) => unknown) =>
+      callback(prisma),
+    );
+    // The background dispatch finds nothing due
+    mockPrisma.$queryRaw.mockResolvedValue([]);
+  });
+
+  it("should queue the event again to the subscription's current URL", async () => {
+    mockPrisma.webhookDeadLetter.findUnique.mockResolvedValue({
+      id: "dead1",
+      subscriptionId: "sub1",
+      event: "zap.expired",
+      payload: { id: "event1" },
+      subscription: { url: "https://new.example/hook", secret: "s1" },
+    });
+    mockPrisma.webhookDelivery.create.mockResolvedValue({ id: "delivery2" });
+
+    expect(await redeliverDeadLetter("dead1")).toBe("delivery2");
+    expect(mockPrisma.webhookDeadLetter.delete).toHaveBeenCalledWith({ where: { id: "dead1" } });
+    expect(mockPrisma.webhookDelivery.create).toHaveBeenCalledWith(
+      expect.objectContaining({
+        data: expect.objectContaining({ url: "https://new.example/hook", event: "zap.expired" }),
+      }),
+    );
+  });
+
+  it("should return null for an unknown dead letter", async () => {
+    mockPrisma.webhookDeadLetter.findUnique.mockResolvedValue(null);
+
+    expect(await redeliverDeadLetter("missing")).toBeNull();
+    expect(mockPrisma.webhookDelivery.create).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,47 @@
+import { ZapAccessOutcome } from "@prisma/client";
+
+export type AccessEventBusName = "memory" | "postgres";
+
+/** One access attempt logged by logAccess, as pushed to live subscribers */
+export interface AccessEvent {
+  /** ZapAnalytics row id */
+  id: string;
+  zapId: string;
+  outcome: ZapAccessOutcome;
+  deviceType: string | null;
+  browser: string | null;
+  os: string | null;
+  referrerHost: string | null;
+  language: string | null;
+  /** ISO timestamp */
+  accessedAt: string;
+}
+
+export interface AccessEventSubscriber {
+  onEvent(event: AccessEvent): void;
+  /** The bus is shutting down; no more events will arrive */
+  onClose(): void;
+}
+
+/**
+ * Carries access events from the instance that logged them to every
+ * instance holding a live subscription for that Zap.
+ */
+export interface AccessEventBus {
+  readonly name: AccessEventBusName;
+
+  /** Delivers an event to the Zap's subscribers */
+  publish(event: AccessEvent): Promise<void>;
+
+  /**
+   * Subscribes to one Zap's events on this instance.
+   * @returns A function that removes the subscription
+   */
+  subscribe(zapId: string, subscriber: AccessEventSubscriber): () => void;
+
+  /** Number of live subscriptions to a Zap on this instance */
+  countSubscribers(zapId: string): number;
+
+  /** Ends every subscription and releases connections */
+  close(): Promise<void>;
+}
@@ -0,0 +1,58 @@
+import { MemoryAccessEventBus } from "./memory.bus";
+import { PostgresAccessEventBus } from "./postgres.bus";
+import { AccessEvent, AccessEventBus, AccessEventBusName } from "./accessEvents.types";
+
+export * from "./accessEvents.types";
+
+let bus: AccessEventBus | null = null;
+
+/**
+ * Returns the name of the bus selected by ACCESS_EVENT_BUS.
+ * Defaults to memory.
+ */
+export const getAccessEventBusName = (): AccessEventBusName => {
+  const name = (process.env.ACCESS_EVENT_BUS || "memory").toLowerCase();
+  if (name !== "memory" && name !== "postgres") {
+    throw new Error(
+      `Unknown ACCESS_EVENT_BUS "${name}". Expected memory or postgres.`
+    );
+  }
+  return name;
+};
+
+/**
+ * Returns the access event bus of this instance.
+ */
+export const getAccessEventBus = (): AccessEventBus => {
+  if (!bus) {
+    bus =
+      getAccessEventBusName() === "postgres"
+        ? new PostgresAccessEventBus()
+        : new MemoryAccessEventBus();
+  }
+  return bus;
+};
+
+/**
+ * Publishes an access event. Failures are logged rather than thrown so live
+ * notifications never break the access that triggered them.
+ * @param event - The logged access
+ */
+export const publishAccessEvent = async (event: AccessEvent): Promise<void> => {
+  try {
+    await getAccessEventBus().publish(event);
+  } catch (error) {
+    console.error("[AccessEvents] Failed to publish access event:", error);
+  }
+};
+
+/**
+ * Ends every live subscription (so open event streams do not hold up
+ * shutdown) and releases the bus's connections.
+ */
+export const closeAccessEventBus = async (): Promise<void> => {
+  if (!bus) return;
+  const closing = bus;
+  bus = null;
+  await closing.close();
+};
@@ -0,0 +1,60 @@
+import {
+  AccessEvent,
+  AccessEventBus,
+  AccessEventSubscriber,
+} from "./accessEvents.types";
+
+/**
+ * In-process bus: events only reach subscribers connected to the instance
+ * that logged the access. Fine for a single instance; replicas need the
+ * postgres bus.
+ */
+export class MemoryAccessEventBus implements AccessEventBus {
+  readonly name = "memory" as const;
+  private readonly subscribers = new Map<string, Set<AccessEventSubscriber>>();
+
+  async publish(event: AccessEvent): Promise<void> {
+    this.deliver(event);
+  }
+
+  /**
+   * Hands an event to this instance's subscribers of its Zap. A subscriber
+   * that throws never keeps the event from the others.
+   */
+  deliver(event: AccessEvent): void {
+    for (const subscriber of this.subscribers.get(event.zapId) ?? []) {
+      try {
+        subscriber.onEvent(event);
+      } catch (error) {
+        console.error("[AccessEvents] Subscriber failed:", error);
+      }
+    }
+  }
+
+  subscribe(zapId: string, subscriber: AccessEventSubscriber): () => void {
+    let zapSubscribers = this.subscribers.get(zapId);
+    if (!zapSubscribers) {
+      zapSubscribers = new Set();
+      this.subscribers.set(zapId, zapSubscribers);
+    }
+    zapSubscribers.add(subscriber);
+
+    return () => {
+      zapSubscribers!.delete(subscriber);
+      if (zapSubscribers!.size === 0 && this.subscribers.get(zapId) === zapSubscribers) {
+        this.subscribers.delete(zapId);
+      }
+    };
+  }
+
+  /** Number of live subscriptions to a Zap on this instance */
+  countSubscribers(zapId: string): number {
+    return this.subscribers.get(zapId)?.size ?? 0;
+  }
+
+  async close(): Promise<void> {
+    const subscribers = [...this.subscribers.values()].flatMap((set) => [...set]);
+    this.subscribers.clear();
+    subscribers.forEach((subscriber) => subscriber.onClose());
+  }
+}
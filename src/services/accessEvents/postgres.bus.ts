@@ -0,0 +1,105 @@
+import { Client, Notification } from "pg";
+import prisma from "../../utils/prismClient";
+import { MemoryAccessEventBus } from "./memory.bus";
+import {
+  AccessEvent,
+  AccessEventBus,
+  AccessEventSubscriber,
+} from "./accessEvents.types";
+
+const CHANNEL = "zap_access_events";
+const RECONNECT_DELAY_MS = 5000;
+
+/**
+ * Postgres LISTEN/NOTIFY bus, so a view logged by one replica reaches owners
+ * connected to any other. Events are published through the Prisma pool; each
+ * instance holds one extra dedicated connection (opened on its first
+ * subscription) that LISTENs and fans notifications out to its local
+ * subscribers. Events sent while that connection is down are not replayed.
+ */
+export class PostgresAccessEventBus implements AccessEventBus {
+  readonly name = "postgres" as const;
+  private readonly local = new MemoryAccessEventBus();
+  private listener: Client | null = null;
+  private connecting: Promise<void> | null = null;
+  private reconnectTimer: NodeJS.Timeout | null = null;
+  private closed = false;
+
+  constructor(private readonly connectionString: string | undefined = process.env.DATABASE_URL) {}
+
+  async publish(event: AccessEvent): Promise<void> {
+    await prisma.$executeRaw`SELECT pg_notify(${CHANNEL}, ${JSON.stringify(event)})`;
+  }
+
+  subscribe(zapId: string, subscriber: AccessEventSubscriber): () => void {
+    this.listen();
+    return this.local.subscribe(zapId, subscriber);
+  }
+
+  countSubscribers(zapId: string): number {
+    return this.local.countSubscribers(zapId);
+  }
+
+  async close(): Promise<void> {
+    this.closed = true;
+    if (this.reconnectTimer) clearTimeout(this.reconnectTimer);
+    await this.local.close();
+    await this.connecting?.catch(() => undefined);
+    await this.listener?.end().catch(() => undefined);
+    this.listener = null;
+  }
+
+  /**
+   * Opens the LISTEN connection unless it is open or being opened.
+   */
+  private listen(): void {
+    if (this.closed || this.listener || this.connecting) return;
+
+    this.connecting = this.connect()
+      .catch((error) => {
+        console.error("[AccessEvents] Could not LISTEN for access events:", error);
+        this.scheduleReconnect();
+      })
+      .finally(() => {
+        this.connecting = null;
+      });
+  }
+
+  private async connect(): Promise<void> {
+    const client = new Client({ connectionString: this.connectionString });
+    client.on("notification", (notification) => this.onNotification(notification));
+    client.on("error", (error) => {
+      console.error("[AccessEvents] LISTEN connection failed:", error);
+      if (this.listener === client) this.listener = null;
+      client.end().catch(() => undefined);
+      this.scheduleReconnect();
+    });
+
+    await client.connect();
+    try {
+      await client.query(`LISTEN ${CHANNEL}`);
+    } catch (error) {
+      await client.end().catch(() => undefined);
+      throw error;
+    }
+    this.listener = client;
+  }
+
+  private scheduleReconnect(): void {
+    if (this.closed || this.reconnectTimer) return;
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      this.listen();
+    }, RECONNECT_DELAY_MS);
+    this.reconnectTimer.unref();
+  }
+
+  private onNotification(notification: Notification): void {
+    if (notification.channel !== CHANNEL || !notification.payload) return;
+    try {
+      this.local.deliver(JSON.parse(notification.payload) as AccessEvent);
+    } catch (error) {
+      console.error("[AccessEvents] Ignoring malformed notification:", error);
+    }
+  }
+}
@@ -1,16 +1,21 @@
-import crypto from "crypto";
 import { Request } from "express";
 import { UAParser } from "ua-parser-js";
+import { AnalyticsGranularity, ZapAccessOutcome } from "@prisma/client";
 import prisma from "../utils/prismClient";
+import { publishAccessEvent } from "./accessEvents";
+import { hashVisitor } from "./analyticsPrivacy.service";
+import {
+  BUCKET_MS,
+  getAnalyticsTimeSeries,
+  getRolledUpDevices,
+  truncateToBucket,
+} from "./analyticsRollup.service";
 
 /**
- * Hashes an IP address using SHA-256 for privacy.
- * Returns null if no IP is available.
+ * Days covered by the dailyUniqueVisitors and outcomeBreakdown of
+ * getAnalytics, today included
  */
-const hashIp = (ip: string | undefined): string | null => {
-  if (!ip) return null;
-  return crypto.createHash("sha256").update(ip).digest("hex");
-};
+const DAILY_UNIQUE_VISITOR_DAYS = 30;
 
 /**
  * Parses the device type from a User-Agent string.
@@ -25,30 +30,99 @@ const parseDeviceType = (userAgent: string | undefined): string => {
     : "Desktop";
 };
 
+/**
+ * Parses the browser name from a User-Agent string.
+ * Returns "Unknown" when it cannot be detected.
+ */
+const parseBrowser = (userAgent: string | undefined): string => {
+  if (!userAgent) return "Unknown";
+  return new UAParser(userAgent).getBrowser().name || "Unknown";
+};
+
+/**
+ * Parses the operating system name from a User-Agent string.
+ * Returns "Unknown" when it cannot be detected.
+ */
+const parseOs = (userAgent: string | undefined): string => {
+  if (!userAgent) return "Unknown";
+  return new UAParser(userAgent).getOS().name || "Unknown";
+};
+
+/**
+ * Extracts the host from a Referer header, dropping the path and query
+ * (which may carry private data). Returns null if absent or malformed.
+ */
+const parseReferrerHost = (referrer: string | undefined): string | null => {
+  if (!referrer) return null;
+  try {
+    return new URL(referrer).host || null;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Returns the first language tag of an Accept-Language header,
+ * e.g. "en-US" for "en-US,en;q=0.9". Returns null if absent.
+ */
+const parseLanguage = (acceptLanguage: string | undefined): string | null => {
+  const language = acceptLanguage?.split(",")[0].split(";")[0].trim();
+  return language && language !== "*" ? language.slice(0, 35) : null;
+};
+
 /**
  * Logs an analytics entry for a Zap access.
  * This function is designed to be called asynchronously (fire-and-forget)
  * so it does NOT delay the response to the user.
  *
- * @param zapId - The database ID of the Zap (not shortId)
- * @param req   - The Express request object
+ * Failed attempts are logged too (with their outcome), so owners can spot
+ * someone guessing the password or quiz answer of their Zap. Every logged
+ * attempt is also pushed to the Zap's live event subscribers.
+ *
+ * @param zapId   - The database ID of the Zap (not shortId)
+ * @param req     - The Express request object
+ * @param outcome - Whether the view succeeded, or why it was refused
  */
 export const logAccess = async (
   zapId: string,
-  req: Request
+  req: Request,
+  outcome: ZapAccessOutcome = ZapAccessOutcome.SUCCESS
 ): Promise<void> => {
   try {
     const userAgent = req.headers["user-agent"] || null;
-    const ipHash = hashIp(req.ip);
+    const ipHash = await hashVisitor(zapId, req.ip, userAgent);
     const deviceType = parseDeviceType(userAgent || undefined);
+    const browser = parseBrowser(userAgent || undefined);
+    const os = parseOs(userAgent || undefined);
+    const referrerHost = parseReferrerHost(req.headers.referer);
+    const language = parseLanguage(req.headers["accept-language"]);
 
-    await prisma.zapAnalytics.create({
+    const entry = await prisma.zapAnalytics.create({
       data: {
         zapId,
         userAgent,
         ipHash,
         deviceType,
+        browser,
+        os,
+        referrerHost,
+        language,
+        outcome,
       },
+      select: { id: true, accessedAt: true },
+    });
+
+    // Live notification for the Zap's owner (see GET /api/analytics/:shortId/events)
+    await publishAccessEvent({
+      id: entry.id,
+      zapId,
+      outcome,
+      deviceType,
+      browser,
+      os,
+      referrerHost,
+      language,
+      accessedAt: entry.accessedAt.toISOString(),
     });
   } catch (error) {
     // Silently fail — analytics logging should never break the main flow
@@ -60,7 +134,8 @@ export const logAccess = async (
  * Retrieves analytics data for a specific Zap.
  *
  * @param zapId - The database ID of the Zap
- * @param limit - Max number of recent access logs to return (default 50)
+ * @param limit - Max number of recent access logs to return (default 50),
+ *   failed attempts included
  * @returns Analytics summary object
  */
 export const getAnalytics = async (zapId: string, limit: number = 50) => {
@@ -72,18 +147,55 @@ export const getAnalytics = async (zapId: string, limit: number = 50) => {
 
   if (!zap) return null;
 
-  // Get device breakdown
-  const allAnalytics = await prisma.zapAnalytics.findMany({
-    where: { zapId },
-    select: { deviceType: true },
-  });
+  const now = new Date();
+  const today = truncateToBucket(now, AnalyticsGranularity.DAY);
+  const since = new Date(today.getTime() - (DAILY_UNIQUE_VISITOR_DAYS - 1) * BUCKET_MS.DAY);
 
-  const deviceBreakdown: Record<string, number> = {};
-  for (const entry of allAnalytics) {
+  // Device breakdown of successful views: past days from the daily rollups,
+  // today counted live as its rollup may trail by a few minutes
+  const [deviceBreakdown, deviceCountsToday] = await Promise.all([
+    getRolledUpDevices(zapId, today),
+    prisma.zapAnalytics.groupBy({
+      by: ["deviceType"],
+      where: { zapId, outcome: ZapAccessOutcome.SUCCESS, accessedAt: { gte: today } },
+      _count: { _all: true },
+    }),
+  ]);
+  for (const entry of deviceCountsToday) {
     const device = entry.deviceType || "Unknown";
-    deviceBreakdown[device] = (deviceBreakdown[device] || 0) + 1;
+    deviceBreakdown[device] = (deviceBreakdown[device] || 0) + entry._count._all;
   }
 
+  // Count recent attempts by outcome, e.g. to spot password guessing
+  const outcomeCounts = await prisma.zapAnalytics.groupBy({
+    by: ["outcome"],
+    where: { zapId, accessedAt: { gte: since } },
+    _count: { _all: true },
+  });
+
+  const outcomeBreakdown: Record<string, number> = {};
+  for (const entry of outcomeCounts) {
+    outcomeBreakdown[entry.outcome.toLowerCase()] = entry._count._all;
+  }
+
+  // Unique visitors per UTC day. Visitor hashes change every day, so days
+  // cannot be added up into an all-time count.
+  const [{ series }, [{ uniqueVisitors: uniqueVisitorsToday }]] = await Promise.all([
+    getAnalyticsTimeSeries(zapId, AnalyticsGranularity.DAY, since, now),
+    // Counted live, as the rollup of the current day may trail by a few minutes
+    prisma.$queryRaw<Array<{ uniqueVisitors: number }>>`
+      SELECT COUNT(DISTINCT "ipHash")::int AS "uniqueVisitors"
+      FROM "ZapAnalytics"
+      WHERE "zapId" = ${zapId}
+        AND "outcome" = 'SUCCESS'
+        AND "accessedAt" >= ${today}`,
+  ]);
+  const dailyUniqueVisitors = series.map((bucket) => ({
+    date: bucket.bucketStart.toISOString().slice(0, 10),
+    uniqueVisitors:
+      bucket.bucketStart.getTime() === today.getTime() ? uniqueVisitorsToday : bucket.uniqueVisitors,
+  }));
+
   // Get recent access logs (paginated)
   const recentAccess = await prisma.zapAnalytics.findMany({
     where: { zapId },
@@ -93,6 +205,11 @@ export const getAnalytics = async (zapId: string, limit: number = 50) => {
       id: true,
       userAgent: true,
       deviceType: true,
+      browser: true,
+      os: true,
+      referrerHost: true,
+      language: true,
+      outcome: true,
       accessedAt: true,
     },
   });
@@ -103,7 +220,10 @@ export const getAnalytics = async (zapId: string, limit: number = 50) => {
     createdAt: zap.createdAt,
     totalViews: zap.viewCount,
     uniqueDeviceTypes: Object.keys(deviceBreakdown).length,
+    uniqueVisitorsToday,
+    dailyUniqueVisitors,
     deviceBreakdown,
+    outcomeBreakdown,
     recentAccess,
   };
 };
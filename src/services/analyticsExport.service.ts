@@ -0,0 +1,164 @@
+import { AnalyticsGranularity, ZapAccessOutcome } from "@prisma/client";
+import prisma from "../utils/prismClient";
+import { truncateToBucket } from "./analyticsRollup.service";
+
+/**
+ * Streams a Zap's raw access log for export. Rows are read in pages with a
+ * cursor, so exporting a popular Zap never holds its whole log in memory.
+ */
+
+const EXPORT_BATCH_SIZE = 1000;
+
+export type AccessLogExportFormat = "csv" | "ndjson";
+
+/** Every recorded ZapAnalytics field, in export column order */
+const ACCESS_LOG_FIELDS = {
+  id: true,
+  accessedAt: true,
+  outcome: true,
+  ipHash: true,
+  userAgent: true,
+  deviceType: true,
+  browser: true,
+  os: true,
+  referrerHost: true,
+  language: true,
+} as const;
+
+export interface AccessLogRow {
+  id: string;
+  accessedAt: Date;
+  outcome: ZapAccessOutcome;
+  ipHash: string | null;
+  userAgent: string | null;
+  deviceType: string | null;
+  browser: string | null;
+  os: string | null;
+  referrerHost: string | null;
+  language: string | null;
+  /**
+   * First successful view of the (UTC) day from this ipHash, counting views
+   * before the range. Hashes change daily, so a visitor is unique once per day.
+   */
+  uniqueVisitor: boolean;
+}
+
+export const ACCESS_LOG_COLUMNS: Array<keyof AccessLogRow> = [
+  ...(Object.keys(ACCESS_LOG_FIELDS) as Array<keyof typeof ACCESS_LOG_FIELDS>),
+  "uniqueVisitor",
+];
+
+/**
+ * Yields a Zap's access log oldest first.
+ *
+ * @param zapId - The database ID of the Zap
+ * @param range - Optional bounds on accessedAt (both inclusive)
+ */
+export async function* iterateAccessLog(
+  zapId: string,
+  range: { from?: Date; to?: Date } = {},
+): AsyncGenerator<AccessLogRow> {
+  const firstDay = range.from && truncateToBucket(range.from, AnalyticsGranularity.DAY);
+  // Visitors already counted on the UTC day being read; cleared at each new day
+  const seenVisitors = new Set<string>();
+  let seenDay = firstDay?.getTime();
+  let cursor: string | undefined;
+
+  while (true) {
+    const batch = await prisma.zapAnalytics.findMany({
+      where: { zapId, accessedAt: { gte: range.from, lte: range.to } },
+      orderBy: [{ accessedAt: "asc" }, { id: "asc" }],
+      take: EXPORT_BATCH_SIZE,
+      ...(cursor ? { cursor: { id: cursor }, skip: 1 } : {}),
+      select: ACCESS_LOG_FIELDS,
+    });
+    if (batch.length === 0) return;
+
+    // Visitors who already viewed the Zap earlier that day are not unique in the range
+    if (firstDay) {
+      const newHashes = [
+        ...new Set(
+          batch
+            .filter(
+              (row) =>
+                row.outcome === ZapAccessOutcome.SUCCESS &&
+                row.ipHash &&
+                truncateToBucket(row.accessedAt, AnalyticsGranularity.DAY).getTime() ===
+                  firstDay.getTime(),
+            )
+            .map((row) => row.ipHash!)
+            .filter((ipHash) => !seenVisitors.has(ipHash)),
+        ),
+      ];
+      if (newHashes.length > 0) {
+        const earlier = await prisma.zapAnalytics.findMany({
+          where: {
+            zapId,
+            outcome: ZapAccessOutcome.SUCCESS,
+            ipHash: { in: newHashes },
+            accessedAt: {
+              gte: firstDay,
+              lt: range.from,
+            },
+          },
+          distinct: ["ipHash"],
+          select: { ipHash: true },
+        });
+        earlier.forEach((row) => seenVisitors.add(row.ipHash!));
+      }
+    }
+
+    for (const row of batch) {
+      const day = truncateToBucket(row.accessedAt, AnalyticsGranularity.DAY).getTime();
+      if (day !== seenDay) {
+        seenVisitors.clear();
+        seenDay = day;
+      }
+      const uniqueVisitor =
+        row.outcome === ZapAccessOutcome.SUCCESS &&
+        row.ipHash !== null &&
+        !seenVisitors.has(row.ipHash);
+      if (uniqueVisitor) seenVisitors.add(row.ipHash!);
+      yield { ...row, uniqueVisitor };
+    }
+
+    if (batch.length < EXPORT_BATCH_SIZE) return;
+    cursor = batch[batch.length - 1].id;
+  }
+}
+
+/**
+ * Quotes a CSV field when needed (RFC 4180). Values a spreadsheet would run
+ * as a formula (user agents and referrers are attacker-controlled) are
+ * prefixed with an apostrophe.
+ */
+const toCsvField = (value: AccessLogRow[keyof AccessLogRow]): string => {
+  if (value === null) return "";
+  let text = value instanceof Date ? value.toISOString() : String(value);
+  if (/^[=+\-@\t\r]/.test(text)) text = `'${text}`;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Serializes access log rows as CSV (with a header line) or NDJSON.
+ *
+ * @param rows - Rows from iterateAccessLog
+ * @param format - "csv" or "ndjson"
+ * @returns One chunk per line, each ending in a newline
+ */
+export async function* formatAccessLog(
+  rows: AsyncIterable<AccessLogRow>,
+  format: AccessLogExportFormat,
+): AsyncGenerator<string> {
+  if (format === "csv") {
+    yield `${ACCESS_LOG_COLUMNS.join(",")}\r\n`;
+    for await (const row of rows) {
+      yield `${ACCESS_LOG_COLUMNS.map((column) => toCsvField(row[column])).join(",")}\r\n`;
+    }
+    return;
+  }
+
+  for await (const row of rows) {
+    yield `${JSON.stringify(row)}\n`;
+  }
+}
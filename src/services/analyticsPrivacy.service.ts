@@ -0,0 +1,115 @@
+import crypto from "crypto";
+import { AnalyticsGranularity } from "@prisma/client";
+import prisma from "../utils/prismClient";
+import { decryptText, encryptText } from "../utils/encryption";
+import { truncateToBucket } from "./analyticsRollup.service";
+
+/**
+ * Keeps the access log from identifying visitors.
+ *
+ * Visitors are hashed with a random salt that changes every UTC day and is
+ * deleted when the day is over (the scheme Plausible uses): views from the
+ * same visitor can be counted as one within a day, but a hash cannot be
+ * brute-forced back to an IP, nor matched with the same visitor's hashes on
+ * other days or other Zaps. Raw user agents and hashes are cleared once
+ * rolled up and older than ANALYTICS_RAW_RETENTION_DAYS.
+ */
+
+const DEFAULT_RETENTION_DAYS = 30;
+/** Rows from the current day are still needed to count its unique visitors */
+const MIN_RETENTION_DAYS = 2;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+let cachedSalt: { day: number; salt: string } | null = null;
+
+/**
+ * Returns the salt of the UTC day containing `now`, creating it (and
+ * deleting every earlier one) on the first call of the day. Replicas agree
+ * on the salt because it is stored in the database.
+ */
+export const getDailySalt = async (now: Date = new Date()): Promise<string> => {
+  const day = truncateToBucket(now, AnalyticsGranularity.DAY);
+  if (cachedSalt?.day === day.getTime()) return cachedSalt.salt;
+
+  // Whichever replica gets here first creates the salt; the others read it
+  await prisma.analyticsSalt.createMany({
+    data: [{ day, salt: encryptText(crypto.randomBytes(32).toString("hex")) }],
+    skipDuplicates: true,
+  });
+  const [row] = await Promise.all([
+    prisma.analyticsSalt.findUniqueOrThrow({ where: { day } }),
+    prisma.analyticsSalt.deleteMany({ where: { day: { lt: day } } }),
+  ]);
+
+  cachedSalt = { day: day.getTime(), salt: decryptText(row.salt) };
+  return cachedSalt.salt;
+};
+
+/**
+ * Hashes a visitor of a Zap for unique visitor counts.
+ *
+ * @param zapId - The database ID of the Zap, so hashes differ across Zaps
+ * @param ip - The visitor's IP address
+ * @param userAgent - The visitor's User-Agent, to tell apart people behind one IP
+ * @returns A hex HMAC-SHA256, or null if no IP is available
+ */
+export const hashVisitor = async (
+  zapId: string,
+  ip: string | undefined,
+  userAgent: string | null,
+): Promise<string | null> => {
+  if (!ip) return null;
+  const salt = await getDailySalt();
+  return crypto
+    .createHmac("sha256", salt)
+    .update(`${zapId}|${ip}|${userAgent ?? ""}`)
+    .digest("hex");
+};
+
+/**
+ * Days raw user agents and visitor hashes are kept, from
+ * ANALYTICS_RAW_RETENTION_DAYS (default 30, at least 2).
+ */
+export const getRawRetentionDays = (): number => {
+  const days = parseInt(process.env.ANALYTICS_RAW_RETENTION_DAYS || "", 10);
+  return Math.max(Number.isNaN(days) ? DEFAULT_RETENTION_DAYS : days, MIN_RETENTION_DAYS);
+};
+
+/**
+ * Clears the user agent and visitor hash of access rows past the retention
+ * period. Other fields, and the rollups computed from them, are kept. Rows
+ * newer than the latest daily rollup are never cleared, so unique visitors
+ * are always counted before their hashes go.
+ *
+ * @returns Counters for the job run
+ */
+export const pruneRawAnalytics = async (
+  now: Date = new Date(),
+): Promise<{ pruned: number; saltsDeleted: number }> => {
+  // Also covers days without any view, when getDailySalt is not called
+  const { count: saltsDeleted } = await prisma.analyticsSalt.deleteMany({
+    where: { day: { lt: truncateToBucket(now, AnalyticsGranularity.DAY) } },
+  });
+
+  const latestRollup = await prisma.zapAnalyticsRollup.aggregate({
+    where: { granularity: AnalyticsGranularity.DAY },
+    _max: { bucketStart: true },
+  });
+  if (!latestRollup._max.bucketStart) return { pruned: 0, saltsDeleted };
+
+  const retentionCutoff = new Date(now.getTime() - getRawRetentionDays() * DAY_MS);
+  const cutoff =
+    latestRollup._max.bucketStart < retentionCutoff
+      ? latestRollup._max.bucketStart
+      : retentionCutoff;
+
+  const { count: pruned } = await prisma.zapAnalytics.updateMany({
+    where: {
+      accessedAt: { lt: cutoff },
+      OR: [{ userAgent: { not: null } }, { ipHash: { not: null } }],
+    },
+    data: { userAgent: null, ipHash: null },
+  });
+
+  return { pruned, saltsDeleted };
+};
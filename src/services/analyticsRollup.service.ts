@@ -0,0 +1,226 @@
+import { AnalyticsGranularity, Prisma } from "@prisma/client";
+import prisma from "../utils/prismClient";
+
+/**
+ * Hourly and daily aggregates of successful ZapAnalytics views, so reading a
+ * popular Zap's analytics never has to scan its raw access rows.
+ *
+ * Buckets are UTC and always recomputed whole: each run starts at the latest
+ * bucket already rolled up (which may have been partial) and aggregates
+ * everything logged since, so runs are idempotent and catch up after downtime.
+ */
+
+const UPSERT_BATCH_SIZE = 100;
+
+const DATE_TRUNC_UNIT: Record<AnalyticsGranularity, string> = {
+  HOUR: "hour",
+  DAY: "day",
+};
+
+/** Length of one bucket, in ms */
+export const BUCKET_MS: Record<AnalyticsGranularity, number> = {
+  HOUR: 60 * 60 * 1000,
+  DAY: 24 * 60 * 60 * 1000,
+};
+
+/** Longest range a time series may cover, in buckets */
+export const MAX_TIME_SERIES_BUCKETS: Record<AnalyticsGranularity, number> = {
+  HOUR: 24 * 31,
+  DAY: 366,
+};
+
+type CountMap = Record<string, number>;
+
+export interface TimeSeriesBucket {
+  bucketStart: Date;
+  views: number;
+  uniqueVisitors: number;
+  devices: CountMap;
+  browsers: CountMap;
+}
+
+/**
+ * Start of the UTC bucket containing a date.
+ */
+export const truncateToBucket = (date: Date, granularity: AnalyticsGranularity): Date => {
+  const bucketStart = new Date(date);
+  if (granularity === AnalyticsGranularity.DAY) {
+    bucketStart.setUTCHours(0, 0, 0, 0);
+  } else {
+    bucketStart.setUTCMinutes(0, 0, 0);
+  }
+  return bucketStart;
+};
+
+const addCount = (counts: CountMap, key: string, count: number) => {
+  counts[key] = (counts[key] || 0) + count;
+};
+
+/**
+ * Where the next run of a granularity starts: its latest bucket, or the
+ * bucket of the oldest access on the first run.
+ */
+const findRollupStart = async (granularity: AnalyticsGranularity): Promise<Date | null> => {
+  const latest = await prisma.zapAnalyticsRollup.aggregate({
+    where: { granularity },
+    _max: { bucketStart: true },
+  });
+  if (latest._max.bucketStart) return latest._max.bucketStart;
+
+  const oldest = await prisma.zapAnalytics.aggregate({ _min: { accessedAt: true } });
+  return oldest._min.accessedAt ? truncateToBucket(oldest._min.accessedAt, granularity) : null;
+};
+
+/**
+ * Recomputes every bucket of one granularity from its latest bucket on.
+ * @returns The number of buckets written
+ */
+const rollUp = async (granularity: AnalyticsGranularity): Promise<number> => {
+  const from = await findRollupStart(granularity);
+  if (!from) return 0;
+
+  const unit = DATE_TRUNC_UNIT[granularity];
+  const [counts, visitors] = await Promise.all([
+    prisma.$queryRaw<
+      Array<{ zapId: string; bucketStart: Date; deviceType: string; browser: string; views: number }>
+    >`
+      SELECT "zapId",
+             date_trunc(${unit}, "accessedAt") AS "bucketStart",
+             COALESCE("deviceType", 'Unknown') AS "deviceType",
+             COALESCE("browser", 'Unknown') AS "browser",
+             COUNT(*)::int AS "views"
+      FROM "ZapAnalytics"
+      WHERE "accessedAt" >= ${from}
+        AND "outcome" = 'SUCCESS'
+      GROUP BY 1, 2, 3, 4`,
+    prisma.$queryRaw<Array<{ zapId: string; bucketStart: Date; uniqueVisitors: number }>>`
+      SELECT "zapId",
+             date_trunc(${unit}, "accessedAt") AS "bucketStart",
+             COUNT(DISTINCT "ipHash")::int AS "uniqueVisitors"
+      FROM "ZapAnalytics"
+      WHERE "accessedAt" >= ${from}
+        AND "outcome" = 'SUCCESS'
+      GROUP BY 1, 2`,
+  ]);
+
+  const buckets = new Map<string, TimeSeriesBucket & { zapId: string }>();
+  const bucketKey = (zapId: string, bucketStart: Date) => `${zapId}|${bucketStart.toISOString()}`;
+
+  for (const row of visitors) {
+    buckets.set(bucketKey(row.zapId, row.bucketStart), {
+      zapId: row.zapId,
+      bucketStart: row.bucketStart,
+      views: 0,
+      uniqueVisitors: row.uniqueVisitors,
+      devices: {},
+      browsers: {},
+    });
+  }
+  for (const row of counts) {
+    const bucket = buckets.get(bucketKey(row.zapId, row.bucketStart));
+    if (!bucket) continue;
+    bucket.views += row.views;
+    addCount(bucket.devices, row.deviceType, row.views);
+    addCount(bucket.browsers, row.browser, row.views);
+  }
+
+  const rows = [...buckets.values()];
+  for (let i = 0; i < rows.length; i += UPSERT_BATCH_SIZE) {
+    await prisma.$transaction(
+      rows.slice(i, i + UPSERT_BATCH_SIZE).map(({ zapId, bucketStart, ...totals }) =>
+        prisma.zapAnalyticsRollup.upsert({
+          where: { zapId_granularity_bucketStart: { zapId, granularity, bucketStart } },
+          create: { zapId, granularity, bucketStart, ...totals },
+          update: totals,
+        }),
+      ),
+    );
+  }
+
+  return rows.length;
+};
+
+/**
+ * Rolls new ZapAnalytics rows up into hourly and daily buckets.
+ * @returns Counters for the job run
+ */
+export const rollUpAnalytics = async (): Promise<{
+  hourBuckets: number;
+  dayBuckets: number;
+}> => {
+  const hourBuckets = await rollUp(AnalyticsGranularity.HOUR);
+  const dayBuckets = await rollUp(AnalyticsGranularity.DAY);
+  return { hourBuckets, dayBuckets };
+};
+
+/**
+ * Reads a Zap's time series from the rollups. Buckets without views are
+ * included with zero counts so the series has no gaps.
+ *
+ * @param zapId - The database ID of the Zap
+ * @param granularity - Bucket size
+ * @param from - Start of the range; rounded down to its bucket
+ * @param to - End of the range (inclusive)
+ * @returns The buckets and totals over the range. Unique visitors are only
+ *   meaningful per bucket, so they are not totalled.
+ */
+export const getAnalyticsTimeSeries = async (
+  zapId: string,
+  granularity: AnalyticsGranularity,
+  from: Date,
+  to: Date,
+) => {
+  const start = truncateToBucket(from, granularity);
+  const rollups = await prisma.zapAnalyticsRollup.findMany({
+    where: { zapId, granularity, bucketStart: { gte: start, lte: to } },
+    orderBy: { bucketStart: "asc" },
+    select: {
+      bucketStart: true,
+      views: true,
+      uniqueVisitors: true,
+      devices: true,
+      browsers: true,
+    },
+  });
+  const byStart = new Map(rollups.map((rollup) => [rollup.bucketStart.getTime(), rollup]));
+
+  const series: TimeSeriesBucket[] = [];
+  const totals = { views: 0, devices: {} as CountMap, browsers: {} as CountMap };
+
+  for (let time = start.getTime(); time <= to.getTime(); time += BUCKET_MS[granularity]) {
+    const rollup = byStart.get(time);
+    const bucket: TimeSeriesBucket = {
+      bucketStart: new Date(time),
+      views: rollup?.views ?? 0,
+      uniqueVisitors: rollup?.uniqueVisitors ?? 0,
+      devices: (rollup?.devices as Prisma.JsonObject as CountMap) ?? {},
+      browsers: (rollup?.browsers as Prisma.JsonObject as CountMap) ?? {},
+    };
+    series.push(bucket);
+
+    totals.views += bucket.views;
+    Object.entries(bucket.devices).forEach(([device, count]) => addCount(totals.devices, device, count));
+    Object.entries(bucket.browsers).forEach(([browser, count]) => addCount(totals.browsers, browser, count));
+  }
+
+  return { granularity: granularity.toLowerCase(), from: start, to, series, totals };
+};
+
+/**
+ * Successful views of a Zap by device type, summed from its daily rollups.
+ * @param before - First day left out, e.g. today while its rollup is partial
+ */
+export const getRolledUpDevices = async (zapId: string, before: Date): Promise<CountMap> => {
+  const rollups = await prisma.zapAnalyticsRollup.findMany({
+    where: { zapId, granularity: AnalyticsGranularity.DAY, bucketStart: { lt: before } },
+    select: { devices: true },
+  });
+
+  const devices: CountMap = {};
+  for (const rollup of rollups) {
+    Object.entries(rollup.devices as Prisma.JsonObject as CountMap).forEach(([device, count]) =>
+      addCount(devices, device, count),
+    );
+  }
+  return devices;
+};
@@ -0,0 +1,123 @@
+import prisma from "../utils/prismClient";
+import { ListedObject, StorageProvider } from "./storage";
+
+/**
+ * Finds stored objects no Zap or ZapVersion references (e.g. from a process
+ * that died mid-upload, before its PendingUpload entry recorded the file)
+ * and deletes them.
+ *
+ * Objects younger than the grace period are only reported: an upload is
+ * written to storage before its Zap row, so a fresh object without a row may
+ * simply be mid-request.
+ */
+
+const DEFAULT_GRACE_PERIOD_HOURS = parseFloat(process.env.ORPHAN_GRACE_PERIOD_HOURS || "24");
+const CHECK_BATCH_SIZE = 200;
+
+export interface ReconcileOptions {
+  /** Only report orphans, never delete */
+  dryRun?: boolean;
+  /** Orphans must be at least this old to be deleted */
+  gracePeriodHours?: number;
+}
+
+export interface OrphanedObject extends ListedObject {
+  /** true if deleted, false if kept (dry run, grace period or a failed delete) */
+  deleted: boolean;
+}
+
+export interface ReconcileReport {
+  driver: string;
+  dryRun: boolean;
+  scanned: number;
+  referenced: number;
+  orphans: OrphanedObject[];
+  deleted: number;
+  /** Orphans kept because they are younger than the grace period */
+  withinGracePeriod: number;
+  errors: number;
+}
+
+/**
+ * Which of the given stored references a Zap or ZapVersion still points at.
+ */
+const findReferencedUrls = async (urls: string[]): Promise<Set<string>> => {
+  const [zaps, versions] = await Promise.all([
+    prisma.zap.findMany({ where: { cloudUrl: { in: urls } }, select: { cloudUrl: true } }),
+    prisma.zapVersion.findMany({ where: { cloudUrl: { in: urls } }, select: { cloudUrl: true } }),
+  ]);
+  return new Set(
+    [...zaps, ...versions].map((row) => row.cloudUrl).filter((url): url is string => !!url),
+  );
+};
+
+/**
+ * Lists a storage backend and deletes the objects no row references.
+ *
+ * @param storage - Driver to reconcile
+ * @param options - dryRun and gracePeriodHours
+ * @returns What was found and done; delete failures are logged and counted
+ */
+export const reconcileStorageAssets = async (
+  storage: StorageProvider,
+  options: ReconcileOptions = {},
+): Promise<ReconcileReport> => {
+  const dryRun = options.dryRun ?? false;
+  const gracePeriodHours = options.gracePeriodHours ?? DEFAULT_GRACE_PERIOD_HOURS;
+  const cutoff = Date.now() - gracePeriodHours * 60 * 60 * 1000;
+
+  const report: ReconcileReport = {
+    driver: storage.name,
+    dryRun,
+    scanned: 0,
+    referenced: 0,
+    orphans: [],
+    deleted: 0,
+    withinGracePeriod: 0,
+    errors: 0,
+  };
+
+  const checkBatch = async (batch: ListedObject[]) => {
+    const referenced = await findReferencedUrls(batch.map((object) => object.url));
+
+    for (const object of batch) {
+      if (referenced.has(object.url)) {
+        report.referenced++;
+        continue;
+      }
+
+      const orphan: OrphanedObject = { ...object, deleted: false };
+      report.orphans.push(orphan);
+
+      if (object.lastModified.getTime() > cutoff) {
+        report.withinGracePeriod++;
+        continue;
+      }
+      if (dryRun) continue;
+
+      try {
+        await storage.delete(object.url);
+        orphan.deleted = true;
+        report.deleted++;
+      } catch (error) {
+        report.errors++;
+        console.error(`[Reconcile] Failed to delete orphaned ${object.url}:`, error);
+      }
+    }
+  };
+
+  let batch: ListedObject[] = [];
+  for await (const object of storage.list()) {
+    report.scanned++;
+    batch.push(object);
+    if (batch.length === CHECK_BATCH_SIZE) {
+      await checkBatch(batch);
+      batch = [];
+    }
+  }
+  if (batch.length > 0) {
+    await checkBatch(batch);
+  }
+
+  return report;
+};
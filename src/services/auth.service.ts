@@ -0,0 +1,157 @@
+import crypto from "crypto";
+import prisma from "../utils/prismClient";
+import {
+  generateAccessToken,
+  generateRefreshToken,
+  verifyRefreshToken,
+} from "../utils/jwt";
+
+export interface IssuedTokens {
+  accessToken: string;
+  refreshToken: string;
+  refreshTokenExpiresAt: Date;
+}
+
+/**
+ * Hashes a refresh token with SHA-256 so raw tokens are never stored.
+ */
+const hashToken = (token: string): string => {
+  return crypto.createHash("sha256").update(token).digest("hex");
+};
+
+/**
+ * Returns the expiry of a freshly signed refresh token as a Date.
+ */
+const getRefreshTokenExpiry = (refreshToken: string): Date => {
+  const { exp } = verifyRefreshToken(refreshToken);
+  return new Date((exp ?? 0) * 1000);
+};
+
+/**
+ * Issues a new access/refresh token pair and persists the refresh token.
+ *
+ * @param userId   - The user the tokens belong to
+ * @param familyId - Rotation family; a new family is started on login
+ */
+export const issueTokens = async (
+  userId: string,
+  familyId: string = crypto.randomUUID()
+): Promise<IssuedTokens> => {
+  const accessToken = generateAccessToken(userId);
+  const refreshToken = generateRefreshToken(userId);
+  const refreshTokenExpiresAt = getRefreshTokenExpiry(refreshToken);
+
+  await prisma.refreshToken.create({
+    data: {
+      userId,
+      tokenHash: hashToken(refreshToken),
+      familyId,
+      expiresAt: refreshTokenExpiresAt,
+    },
+  });
+
+  return { accessToken, refreshToken, refreshTokenExpiresAt };
+};
+
+/**
+ * Revokes every still-active token in a rotation family.
+ * Used when a refresh token is presented a second time (reuse detection).
+ */
+const revokeTokenFamily = async (familyId: string): Promise<void> => {
+  await prisma.refreshToken.updateMany({
+    where: { familyId, revokedAt: null },
+    data: { revokedAt: new Date() },
+  });
+};
+
+/**
+ * Exchanges a refresh token for a new token pair (refresh-token rotation).
+ *
+ * The presented token is revoked and replaced by a new one in the same family.
+ * If an already-revoked token is presented, the whole family is revoked so a
+ * stolen token cannot be used alongside the legitimate one.
+ *
+ * @throws Error("REFRESH_TOKEN_INVALID") if the token is unknown, expired or malformed
+ * @throws Error("REFRESH_TOKEN_REUSED") if the token was already rotated or revoked
+ */
+export const rotateRefreshToken = async (
+  refreshToken: string
+): Promise<IssuedTokens & { userId: string }> => {
+  let userId: string;
+  try {
+    ({ userId } = verifyRefreshToken(refreshToken));
+  } catch {
+    throw new Error("REFRESH_TOKEN_INVALID");
+  }
+
+  const stored = await prisma.refreshToken.findUnique({
+    where: { tokenHash: hashToken(refreshToken) },
+  });
+
+  if (!stored || stored.userId !== userId) {
+    throw new Error("REFRESH_TOKEN_INVALID");
+  }
+
+  if (stored.revokedAt) {
+    await revokeTokenFamily(stored.familyId);
+    throw new Error("REFRESH_TOKEN_REUSED");
+  }
+
+  if (stored.expiresAt.getTime() <= Date.now()) {
+    throw new Error("REFRESH_TOKEN_INVALID");
+  }
+
+  const accessToken = generateAccessToken(userId);
+  const nextRefreshToken = generateRefreshToken(userId);
+  const refreshTokenExpiresAt = getRefreshTokenExpiry(nextRefreshToken);
+
+  try {
+    await prisma.$transaction(async (tx) => {
+      // Conditional revoke so two concurrent refreshes cannot both succeed
+      const revoked = await tx.refreshToken.updateMany({
+        where: { id: stored.id, revokedAt: null },
+        data: { revokedAt: new Date() },
+      });
+
+      if (revoked.count !== 1) {
+        throw new Error("REFRESH_TOKEN_REUSED");
+      }
+
+      const replacement = await tx.refreshToken.create({
+        data: {
+          userId,
+          tokenHash: hashToken(nextRefreshToken),
+          familyId: stored.familyId,
+          expiresAt: refreshTokenExpiresAt,
+        },
+      });
+
+      await tx.refreshToken.update({
+        where: { id: stored.id },
+        data: { replacedById: replacement.id },
+      });
+    });
+  } catch (error) {
+    if (error instanceof Error && error.message === "REFRESH_TOKEN_REUSED") {
+      await revokeTokenFamily(stored.familyId);
+    }
+    throw error;
+  }
+
+  return {
+    userId,
+    accessToken,
+    refreshToken: nextRefreshToken,
+    refreshTokenExpiresAt,
+  };
+};
+
+/**
+ * Revokes a single refresh token (logout). Unknown tokens are ignored.
+ */
+export const revokeRefreshToken = async (refreshToken: string): Promise<void> => {
+  await prisma.refreshToken.updateMany({
+    where: { tokenHash: hashToken(refreshToken), revokedAt: null },
+    data: { revokedAt: new Date() },
+  });
+};
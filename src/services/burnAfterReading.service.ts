@@ -0,0 +1,65 @@
+import { Zap, ZapTombstoneReason } from "@prisma/client";
+import prisma from "../utils/prismClient";
+import { CONTENT_URL_TTL_SECONDS } from "../utils/contentLink";
+import { deleteStoredObject } from "./storage";
+import { deleteZaps } from "./zapDeletion.service";
+
+/**
+ * Burn-after-reading Zaps are burned inside the transaction that counts their
+ * only view (see recordZapView), which deletes the row and leaves a "burned"
+ * tombstone. A stored file is the one exception, since the viewer still has
+ * to download it through the contentUrl issued for that view: the row keeps
+ * it until that download completes, or the link has expired, and is then
+ * deleted here through deleteZaps.
+ */
+
+/**
+ * Deletes the file a burned Zap kept for its single download, then the Zap.
+ *
+ * @param zap - The burned Zap
+ * @returns true if this call purged the file (false if another request did)
+ */
+export const purgeBurnedContent = async (
+  zap: Pick<Zap, "id" | "shortId" | "cloudUrl">,
+): Promise<boolean> => {
+  if (!zap.cloudUrl) return false;
+
+  // Clear the row first so only one request deletes the asset
+  const { count } = await prisma.zap.updateMany({
+    where: { id: zap.id, burnedAt: { not: null }, cloudUrl: zap.cloudUrl },
+    data: { cloudUrl: null, fileKey: null },
+  });
+  if (count === 0) return false;
+
+  await deleteZaps([zap.shortId], ZapTombstoneReason.BURNED);
+  await deleteStoredObject(zap.cloudUrl);
+  return true;
+};
+
+/**
+ * Deletes burned Zaps whose content link has expired, purging the file of
+ * any whose download never completed. Rows burned without a file are
+ * normally deleted by the view itself already.
+ *
+ * @returns Counters for the job run
+ */
+export const purgeBurnedZaps = async (): Promise<{ filesPurged: number; zapsDeleted: number }> => {
+  const linkExpiredBefore = new Date(Date.now() - CONTENT_URL_TTL_SECONDS * 1000);
+  const burnedZaps = await prisma.zap.findMany({
+    where: { burnedAt: { lt: linkExpiredBefore } },
+    select: { id: true, shortId: true, cloudUrl: true },
+  });
+
+  let filesPurged = 0;
+  const withoutFile: string[] = [];
+  for (const zap of burnedZaps) {
+    if (!zap.cloudUrl) {
+      withoutFile.push(zap.shortId);
+    } else if (await purgeBurnedContent(zap)) {
+      filesPurged++;
+    }
+  }
+
+  const { deleted } = await deleteZaps(withoutFile, ZapTombstoneReason.BURNED);
+  return { filesPurged, zapsDeleted: filesPurged + deleted.length };
+};
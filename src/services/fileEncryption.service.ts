@@ -0,0 +1,249 @@
+import crypto from "crypto";
+import { pipeline, Readable, Transform, TransformCallback } from "stream";
+import { decryptText, encryptText } from "../utils/encryption";
+import type { ByteRange, StorageProvider, UploadBody } from "./storage";
+
+/**
+ * Encrypted file Zaps. Each Zap gets a random data key, stored in Zap.fileKey
+ * wrapped with the master key (encryptText), so key rotation only has to
+ * re-wrap the data key, never re-upload the file.
+ *
+ * Stored objects hold only ciphertext, cut into independently authenticated
+ * AES-256-GCM segments so downloads (and byte ranges) can be decrypted on the
+ * fly without buffering the file:
+ *
+ *   "ZLE1" | nonce prefix (8) | segment 0 | segment 1 | ... | final segment
+ *
+ * Every segment is up to 64KB of ciphertext followed by its 16-byte tag. Its
+ * nonce is the prefix plus the segment index, and a final-segment flag is
+ * authenticated as additional data, so segments cannot be reordered or the
+ * file truncated without decryption failing.
+ */
+
+const ALGORITHM = "aes-256-gcm";
+const MAGIC = Buffer.from("ZLE1");
+const NONCE_PREFIX_LENGTH = 8;
+const HEADER_LENGTH = MAGIC.length + NONCE_PREFIX_LENGTH;
+const SEGMENT_SIZE = 64 * 1024;
+const TAG_LENGTH = 16;
+const SEALED_SEGMENT_SIZE = SEGMENT_SIZE + TAG_LENGTH;
+const DATA_KEY_LENGTH = 32;
+
+export const ENCRYPTED_FILE_CONTENT_TYPE = "application/octet-stream";
+
+export interface FileKey {
+  dataKey: Buffer;
+  /** Value stored in Zap.fileKey */
+  wrappedKey: string;
+}
+
+const segmentCount = (size: number): number => Math.max(1, Math.ceil(size / SEGMENT_SIZE));
+
+const segmentNonce = (noncePrefix: Buffer, index: number): Buffer => {
+  const nonce = Buffer.alloc(NONCE_PREFIX_LENGTH + 4);
+  noncePrefix.copy(nonce);
+  nonce.writeUInt32BE(index, NONCE_PREFIX_LENGTH);
+  return nonce;
+};
+
+const segmentAad = (isFinal: boolean): Buffer => Buffer.from([isFinal ? 1 : 0]);
+
+const sealSegment = (
+  dataKey: Buffer,
+  noncePrefix: Buffer,
+  index: number,
+  plaintext: Buffer,
+  isFinal: boolean,
+): Buffer => {
+  const cipher = crypto.createCipheriv(ALGORITHM, dataKey, segmentNonce(noncePrefix, index));
+  cipher.setAAD(segmentAad(isFinal));
+  return Buffer.concat([cipher.update(plaintext), cipher.final(), cipher.getAuthTag()]);
+};
+
+const openSegment = (
+  dataKey: Buffer,
+  noncePrefix: Buffer,
+  index: number,
+  sealed: Buffer,
+  isFinal: boolean,
+): Buffer => {
+  if (sealed.length < TAG_LENGTH) {
+    throw new Error("ENCRYPTED_FILE_CORRUPT");
+  }
+  const decipher = crypto.createDecipheriv(ALGORITHM, dataKey, segmentNonce(noncePrefix, index));
+  decipher.setAAD(segmentAad(isFinal));
+  decipher.setAuthTag(sealed.subarray(sealed.length - TAG_LENGTH));
+  try {
+    return Buffer.concat([
+      decipher.update(sealed.subarray(0, sealed.length - TAG_LENGTH)),
+      decipher.final(),
+    ]);
+  } catch {
+    throw new Error("ENCRYPTED_FILE_CORRUPT");
+  }
+};
+
+/**
+ * Creates a data key for a new encrypted Zap.
+ * @returns The raw key and its wrapped form for Zap.fileKey
+ */
+export const generateFileKey = (): FileKey => {
+  const dataKey = crypto.randomBytes(DATA_KEY_LENGTH);
+  return { dataKey, wrappedKey: encryptText(dataKey.toString("base64")) };
+};
+
+/**
+ * Unwraps a Zap's data key with the master keyring.
+ * @param wrappedKey - Value of Zap.fileKey
+ */
+export const unwrapFileKey = (wrappedKey: string): Buffer => {
+  return Buffer.from(decryptText(wrappedKey), "base64");
+};
+
+/**
+ * Size of the stored object for a file of the given size.
+ * @param size - Plaintext size in bytes
+ */
+export const getEncryptedSize = (size: number): number => {
+  return HEADER_LENGTH + size + segmentCount(size) * TAG_LENGTH;
+};
+
+/**
+ * Transform stream that turns plaintext into the segmented format above.
+ * @param dataKey - The Zap's data key
+ */
+export const createEncryptStream = (dataKey: Buffer): Transform => {
+  const noncePrefix = crypto.randomBytes(NONCE_PREFIX_LENGTH);
+  let pending = Buffer.alloc(0);
+  let index = 0;
+  let headerWritten = false;
+
+  const writeHeader = (stream: Transform) => {
+    if (headerWritten) return;
+    stream.push(Buffer.concat([MAGIC, noncePrefix]));
+    headerWritten = true;
+  };
+
+  return new Transform({
+    transform(chunk: Buffer, _encoding, callback: TransformCallback) {
+      writeHeader(this);
+      pending = Buffer.concat([pending, chunk]);
+      // Hold back a full segment until we know whether more data follows
+      while (pending.length > SEGMENT_SIZE) {
+        this.push(sealSegment(dataKey, noncePrefix, index++, pending.subarray(0, SEGMENT_SIZE), false));
+        pending = pending.subarray(SEGMENT_SIZE);
+      }
+      callback();
+    },
+    flush(callback: TransformCallback) {
+      writeHeader(this);
+      this.push(sealSegment(dataKey, noncePrefix, index, pending, true));
+      callback();
+    },
+  });
+};
+
+/**
+ * Encrypts an upload body for storage.
+ * @param body - Buffered or streamed plaintext, as from openUploadedFile()
+ * @param dataKey - The Zap's data key
+ * @returns Stream of the stored object's bytes
+ */
+export const encryptUploadBody = (body: UploadBody, dataKey: Buffer): Readable => {
+  const source = Buffer.isBuffer(body) ? Readable.from([body]) : body;
+  return pipeline(source, createEncryptStream(dataKey), () => {
+    // Errors reach the consumer through the returned stream
+  });
+};
+
+const readAll = async (stream: Readable): Promise<Buffer> => {
+  const chunks: Buffer[] = [];
+  for await (const chunk of stream) {
+    chunks.push(Buffer.from(chunk));
+  }
+  return Buffer.concat(chunks);
+};
+
+/**
+ * Streams decrypted bytes of an encrypted stored object. Only the segments
+ * covering the requested range are fetched from storage.
+ *
+ * @param storage - Driver that owns the object
+ * @param url - Stored reference (Zap.cloudUrl)
+ * @param dataKey - The Zap's unwrapped data key
+ * @param size - Plaintext size in bytes (ZapVersion.size)
+ * @param range - Optional inclusive plaintext byte range
+ * @returns Plaintext stream; it errors with ENCRYPTED_FILE_CORRUPT if any
+ *   segment fails authentication
+ */
+export const openDecryptedStream = async (
+  storage: StorageProvider,
+  url: string,
+  dataKey: Buffer,
+  size: number,
+  range?: ByteRange,
+): Promise<Readable> => {
+  const header = await readAll((await storage.stream(url, { start: 0, end: HEADER_LENGTH - 1 })).stream);
+  if (header.length !== HEADER_LENGTH || !header.subarray(0, MAGIC.length).equals(MAGIC)) {
+    throw new Error("ENCRYPTED_FILE_CORRUPT");
+  }
+  const noncePrefix = header.subarray(MAGIC.length);
+
+  const start = range?.start ?? 0;
+  const end = range?.end ?? size - 1;
+  const finalIndex = segmentCount(size) - 1;
+  const firstIndex = Math.floor(start / SEGMENT_SIZE);
+  const lastIndex = Math.min(Math.floor(Math.max(end, 0) / SEGMENT_SIZE), finalIndex);
+
+  const object = await storage.stream(url, {
+    start: HEADER_LENGTH + firstIndex * SEALED_SEGMENT_SIZE,
+    end: Math.min(HEADER_LENGTH + (lastIndex + 1) * SEALED_SEGMENT_SIZE, getEncryptedSize(size)) - 1,
+  });
+
+  let pending = Buffer.alloc(0);
+  let index = firstIndex;
+  let skip = start - firstIndex * SEGMENT_SIZE;
+  let remaining = Math.max(end - start + 1, 0);
+
+  const emitSegment = (stream: Transform, sealed: Buffer) => {
+    const plaintext = openSegment(dataKey, noncePrefix, index, sealed, index === finalIndex);
+    index++;
+    const slice = plaintext.subarray(skip, skip + remaining);
+    skip = Math.max(skip - plaintext.length, 0);
+    remaining -= slice.length;
+    if (slice.length > 0) stream.push(slice);
+  };
+
+  const decryptor = new Transform({
+    transform(chunk: Buffer, _encoding, callback: TransformCallback) {
+      pending = Buffer.concat([pending, chunk]);
+      try {
+        // The final segment may be short, so it is only opened on flush
+        while (pending.length >= SEALED_SEGMENT_SIZE && index < finalIndex) {
+          emitSegment(this, pending.subarray(0, SEALED_SEGMENT_SIZE));
+          pending = pending.subarray(SEALED_SEGMENT_SIZE);
+        }
+        callback();
+      } catch (error) {
+        callback(error as Error);
+      }
+    },
+    flush(callback: TransformCallback) {
+      try {
+        if (pending.length > 0) {
+          emitSegment(this, pending);
+        }
+        if (remaining > 0 || index <= lastIndex) {
+          throw new Error("ENCRYPTED_FILE_CORRUPT");
+        }
+        callback();
+      } catch (error) {
+        callback(error as Error);
+      }
+    },
+  });
+
+  return pipeline(object.stream, decryptor, () => {
+    // Errors reach the consumer through the returned stream
+  });
+};
@@ -0,0 +1,150 @@
+import { PendingUploadStatus, Prisma } from "@prisma/client";
+import prisma from "../utils/prismClient";
+import { deleteStoredObject, getStorage, StoredObject, UploadBody, UploadOptions } from "./storage";
+
+/**
+ * Outbox for uploads: a file is written to storage before the row that
+ * references it, so every upload is recorded as a PendingUpload first. The
+ * request commits it in the same transaction that creates the row; if the
+ * request fails, or dies, before that, the file is deleted - right away by
+ * the request itself, or by the pending-uploads job once the entry has been
+ * pending for longer than PENDING_UPLOAD_TIMEOUT_MINUTES.
+ */
+
+const PENDING_UPLOAD_TIMEOUT_MINUTES = parseInt(
+  process.env.PENDING_UPLOAD_TIMEOUT_MINUTES || "60",
+  10,
+);
+
+export interface PendingStoredObject extends StoredObject {
+  /** Pass to commitPendingUpload() / rollBackPendingUpload() */
+  pendingUploadId: string;
+}
+
+/**
+ * Records a pending upload, then writes the file to the active storage
+ * driver.
+ *
+ * @param body - File contents
+ * @param options - Upload options, as for StorageProvider.upload()
+ * @returns The stored object and its pending upload id
+ */
+export const uploadPending = async (
+  body: UploadBody,
+  options: UploadOptions,
+): Promise<PendingStoredObject> => {
+  const pending = await prisma.pendingUpload.create({
+    data: { fileName: options.fileName },
+  });
+
+  let stored: StoredObject;
+  try {
+    stored = await getStorage().upload(body, options);
+  } catch (error) {
+    // Nothing to roll back; a partial write is left to the orphaned-assets job
+    await prisma.pendingUpload.delete({ where: { id: pending.id } }).catch(() => undefined);
+    throw error;
+  }
+
+  await prisma.pendingUpload.update({
+    where: { id: pending.id },
+    data: { storageUrl: stored.url },
+  });
+  return { ...stored, pendingUploadId: pending.id };
+};
+
+/**
+ * Marks a pending upload committed. Call it inside the transaction that
+ * creates the row referencing the file.
+ *
+ * @param tx - The transaction
+ * @param pendingUploadId - From uploadPending()
+ * @throws Error("PENDING_UPLOAD_EXPIRED") if the upload was already rolled
+ *   back, which aborts the transaction
+ */
+export const commitPendingUpload = async (
+  tx: Prisma.TransactionClient,
+  pendingUploadId: string,
+): Promise<void> => {
+  const { count } = await tx.pendingUpload.updateMany({
+    where: { id: pendingUploadId, status: PendingUploadStatus.PENDING },
+    data: { status: PendingUploadStatus.COMMITTED, committedAt: new Date() },
+  });
+  if (count === 0) {
+    throw new Error("PENDING_UPLOAD_EXPIRED");
+  }
+};
+
+/**
+ * Deletes the file of a rolled-back upload, then its outbox entry. The entry
+ * is kept for the next job run if the file cannot be deleted.
+ */
+const deleteRolledBackUpload = async (upload: { id: string; storageUrl: string | null }) => {
+  if (!(await deleteStoredObject(upload.storageUrl))) return false;
+  await prisma.pendingUpload.delete({ where: { id: upload.id } });
+  return true;
+};
+
+/**
+ * Rolls back a pending upload whose row was never created, deleting the
+ * file. Committed uploads are left alone.
+ *
+ * @param pendingUploadId - From uploadPending()
+ */
+export const rollBackPendingUpload = async (pendingUploadId: string): Promise<void> => {
+  try {
+    const { count } = await prisma.pendingUpload.updateMany({
+      where: { id: pendingUploadId, status: PendingUploadStatus.PENDING },
+      data: { status: PendingUploadStatus.ROLLED_BACK },
+    });
+    if (count === 0) return;
+
+    const upload = await prisma.pendingUpload.findUnique({ where: { id: pendingUploadId } });
+    if (upload) await deleteRolledBackUpload(upload);
+  } catch (error) {
+    // The pending-uploads job retries
+    console.error(`Error rolling back pending upload ${pendingUploadId}:`, error);
+  }
+};
+
+/**
+ * Rolls back uploads pending for longer than the timeout, retries file
+ * deletions that failed before, and prunes committed entries.
+ *
+ * @returns Counters for the job run
+ */
+export const rollBackStalePendingUploads = async (): Promise<{
+  rolledBack: number;
+  rollbackErrors: number;
+  committedPruned: number;
+}> => {
+  const cutoff = new Date(Date.now() - PENDING_UPLOAD_TIMEOUT_MINUTES * 60 * 1000);
+
+  // A request still running past the timeout then fails to commit, so no row
+  // is ever created for these files
+  await prisma.pendingUpload.updateMany({
+    where: { status: PendingUploadStatus.PENDING, createdAt: { lt: cutoff } },
+    data: { status: PendingUploadStatus.ROLLED_BACK },
+  });
+
+  const rolledBackUploads = await prisma.pendingUpload.findMany({
+    where: { status: PendingUploadStatus.ROLLED_BACK },
+    select: { id: true, storageUrl: true },
+  });
+
+  let rolledBack = 0;
+  let rollbackErrors = 0;
+  for (const upload of rolledBackUploads) {
+    if (await deleteRolledBackUpload(upload)) {
+      rolledBack++;
+    } else {
+      rollbackErrors++;
+    }
+  }
+
+  const { count: committedPruned } = await prisma.pendingUpload.deleteMany({
+    where: { status: PendingUploadStatus.COMMITTED },
+  });
+
+  return { rolledBack, rollbackErrors, committedPruned };
+};
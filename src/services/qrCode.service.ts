@@ -0,0 +1,285 @@
+import crypto from "crypto";
+import https from "https";
+import QRCode from "qrcode";
+import { PNG } from "pngjs";
+import { PDFDocument } from "pdf-lib";
+import { FORBIDDEN_HOST_ERROR, getIpLiteral, isBlockedAddress, publicLookup } from "../utils/publicAddress";
+
+/**
+ * Renders the QR code of a Zap's short link as SVG, PNG or PDF, with custom
+ * colors, size, margin and error correction, and optionally a logo in the
+ * middle.
+ *
+ * Logos are PNGs fetched over HTTPS from public hosts only: every address
+ * the host resolves to is checked at connection time, so the fetch cannot
+ * be pointed at the server's own network.
+ */
+
+export const QR_FORMATS = ["svg", "png", "pdf"] as const;
+export type QrFormat = (typeof QR_FORMATS)[number];
+
+export const QR_ERROR_CORRECTION_LEVELS = ["L", "M", "Q", "H"] as const;
+export type QrErrorCorrectionLevel = (typeof QR_ERROR_CORRECTION_LEVELS)[number];
+
+export const QR_CONTENT_TYPES: Record<QrFormat, string> = {
+  svg: "image/svg+xml",
+  png: "image/png",
+  pdf: "application/pdf",
+};
+
+export interface QrCodeOptions {
+  format: QrFormat;
+  /** Width and height, in pixels (points for PDF) */
+  size: number;
+  /** Quiet zone around the code, in modules */
+  margin: number;
+  errorCorrectionLevel: QrErrorCorrectionLevel;
+  /** #rrggbbaa */
+  foreground: string;
+  /** #rrggbbaa */
+  background: string;
+  /** HTTPS URL of a PNG to draw in the middle */
+  logoUrl?: string;
+}
+
+/** Share of the code's width covered by the logo; level H restores up to 30% */
+const LOGO_SIZE_RATIO = 0.22;
+/** Background-colored border around the logo, as a share of the logo's size */
+const LOGO_PADDING_RATIO = 0.1;
+const LOGO_MAX_BYTES = 512 * 1024;
+const LOGO_MAX_DIMENSION = 2048;
+/** Decoding takes 4 bytes per pixel whatever the file size */
+const LOGO_MAX_PIXELS = 1024 * 1024;
+const LOGO_TIMEOUT_MS = 5000;
+const PNG_SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+/**
+ * Downloads a logo.
+ * @throws Error "QR_LOGO_FORBIDDEN_HOST", "QR_LOGO_UNAVAILABLE", "QR_LOGO_TOO_LARGE"
+ *   or "QR_LOGO_NOT_PNG"
+ */
+export const fetchLogo = (logoUrl: string): Promise<Buffer> =>
+  new Promise((resolve, reject) => {
+    const url = new URL(logoUrl);
+    if (url.protocol !== "https:") {
+      reject(new Error("QR_LOGO_UNAVAILABLE"));
+      return;
+    }
+    const literal = getIpLiteral(url);
+    if (literal && isBlockedAddress(literal)) {
+      reject(new Error("QR_LOGO_FORBIDDEN_HOST"));
+      return;
+    }
+
+    const request = https.get(url, { lookup: publicLookup, timeout: LOGO_TIMEOUT_MS }, (response) => {
+      if (response.statusCode !== 200) {
+        response.resume();
+        reject(new Error("QR_LOGO_UNAVAILABLE"));
+        return;
+      }
+      if (Number(response.headers["content-length"]) > LOGO_MAX_BYTES) {
+        response.destroy();
+        reject(new Error("QR_LOGO_TOO_LARGE"));
+        return;
+      }
+
+      const chunks: Buffer[] = [];
+      let received = 0;
+      response.on("data", (chunk: Buffer) => {
+        received += chunk.length;
+        if (received > LOGO_MAX_BYTES) {
+          response.destroy();
+          reject(new Error("QR_LOGO_TOO_LARGE"));
+          return;
+        }
+        chunks.push(chunk);
+      });
+      response.on("error", () => reject(new Error("QR_LOGO_UNAVAILABLE")));
+      response.on("end", () => {
+        const body = Buffer.concat(chunks);
+        if (!body.subarray(0, PNG_SIGNATURE.length).equals(PNG_SIGNATURE)) {
+          reject(new Error("QR_LOGO_NOT_PNG"));
+          return;
+        }
+        resolve(body);
+      });
+    });
+
+    request.on("timeout", () => request.destroy(new Error("QR_LOGO_UNAVAILABLE")));
+    request.on("error", (error) =>
+      reject(new Error(error.message === FORBIDDEN_HOST_ERROR ? "QR_LOGO_FORBIDDEN_HOST" : "QR_LOGO_UNAVAILABLE")),
+    );
+  });
+
+/**
+ * Reads a PNG's dimensions from its IHDR chunk, which must come first.
+ * Returns null if the header is not there.
+ */
+const readPngDimensions = (png: Buffer): { width: number; height: number } | null => {
+  // Signature (8), chunk length (4), "IHDR" (4), width (4), height (4)
+  if (png.length < 24 || png.toString("ascii", 12, 16) !== "IHDR") return null;
+  return { width: png.readUInt32BE(16), height: png.readUInt32BE(20) };
+};
+
+/**
+ * Decodes a logo PNG. Its size is checked from the header first, since a
+ * few KB of compressed data can decode to gigabytes of pixels.
+ * @throws Error "QR_LOGO_NOT_PNG" if it cannot be decoded or is too large
+ */
+const decodeLogo = (logo: Buffer): PNG => {
+  const dimensions = readPngDimensions(logo);
+  if (
+    !dimensions ||
+    dimensions.width > LOGO_MAX_DIMENSION ||
+    dimensions.height > LOGO_MAX_DIMENSION ||
+    dimensions.width * dimensions.height > LOGO_MAX_PIXELS
+  ) {
+    throw new Error("QR_LOGO_NOT_PNG");
+  }
+
+  try {
+    return PNG.sync.read(logo);
+  } catch {
+    throw new Error("QR_LOGO_NOT_PNG");
+  }
+};
+
+/**
+ * Strong ETag for a rendered code. Logos are identified by URL, so a logo
+ * changed in place is picked up once cached copies expire.
+ */
+export const getQrCodeETag = (text: string, options: QrCodeOptions): string => {
+  const hash = crypto
+    .createHash("sha256")
+    .update(JSON.stringify([text, options.format, options.size, options.margin,
+      options.errorCorrectionLevel, options.foreground, options.background, options.logoUrl ?? null]))
+    .digest("base64url");
+  return `"qr-${hash.slice(0, 32)}"`;
+};
+
+const parseColor = (color: string): [number, number, number, number] => {
+  const value = parseInt(color.slice(1), 16);
+  return [(value >>> 24) & 0xff, (value >>> 16) & 0xff, (value >>> 8) & 0xff, value & 0xff];
+};
+
+/** Where the logo goes: a centered square of side `box`, in the same unit as `total` */
+const getLogoBox = (total: number) => {
+  const box = total * LOGO_SIZE_RATIO;
+  const padding = box * LOGO_PADDING_RATIO;
+  return { start: (total - box) / 2, box, padding };
+};
+
+const renderSvg = async (text: string, options: QrCodeOptions, logo: PNG | null, logoBytes: Buffer | null) => {
+  const svg = await QRCode.toString(text, {
+    type: "svg",
+    width: options.size,
+    margin: options.margin,
+    errorCorrectionLevel: options.errorCorrectionLevel,
+    color: { dark: options.foreground, light: options.background },
+  });
+  if (!logo || !logoBytes) return Buffer.from(svg);
+
+  // qrcode draws in module units: viewBox="0 0 <modules> <modules>"
+  const modules = Number(/viewBox="0 0 (\d+) \d+"/.exec(svg)?.[1]);
+  const { start, box, padding } = getLogoBox(modules);
+  const scale = Math.min(box / logo.width, box / logo.height);
+  const width = logo.width * scale;
+  const height = logo.height * scale;
+  const [red, green, blue, alpha] = parseColor(options.background);
+
+  const overlay =
+    `<rect x="${start - padding}" y="${start - padding}" width="${box + 2 * padding}" height="${box + 2 * padding}" ` +
+    `fill="rgb(${red},${green},${blue})" fill-opacity="${(alpha / 255).toFixed(3)}"/>` +
+    `<image x="${(modules - width) / 2}" y="${(modules - height) / 2}" width="${width}" height="${height}" ` +
+    `href="data:image/png;base64,${logoBytes.toString("base64")}"/>`;
+  return Buffer.from(svg.replace("</svg>", `${overlay}</svg>`));
+};
+
+/**
+ * Draws the logo, scaled to fit its box, over a background-colored square in
+ * the middle of the code.
+ */
+const drawLogo = (code: PNG, logo: PNG, background: string) => {
+  const { start, box, padding } = getLogoBox(code.width);
+  const [red, green, blue, alpha] = parseColor(background);
+
+  const padStart = Math.floor(start - padding);
+  const padEnd = Math.ceil(start + box + padding);
+  for (let y = padStart; y < padEnd; y++) {
+    for (let x = padStart; x < padEnd; x++) {
+      const index = (y * code.width + x) * 4;
+      code.data[index] = red;
+      code.data[index + 1] = green;
+      code.data[index + 2] = blue;
+      code.data[index + 3] = alpha;
+    }
+  }
+
+  // Nearest-neighbour scaling, alpha-blended onto the square
+  const scale = Math.min(box / logo.width, box / logo.height);
+  const width = Math.max(1, Math.round(logo.width * scale));
+  const height = Math.max(1, Math.round(logo.height * scale));
+  const left = Math.round((code.width - width) / 2);
+  const top = Math.round((code.height - height) / 2);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const source = (Math.min(Math.floor(y / scale), logo.height - 1) * logo.width +
+        Math.min(Math.floor(x / scale), logo.width - 1)) * 4;
+      const target = ((top + y) * code.width + left + x) * 4;
+      const opacity = logo.data[source + 3] / 255;
+      for (let channel = 0; channel < 3; channel++) {
+        code.data[target + channel] = Math.round(
+          logo.data[source + channel] * opacity + code.data[target + channel] * (1 - opacity),
+        );
+      }
+      code.data[target + 3] = Math.round(255 * opacity + code.data[target + 3] * (1 - opacity));
+    }
+  }
+};
+
+const renderPng = async (text: string, options: QrCodeOptions, logo: PNG | null) => {
+  const png = await QRCode.toBuffer(text, {
+    type: "png",
+    width: options.size,
+    margin: options.margin,
+    errorCorrectionLevel: options.errorCorrectionLevel,
+    color: { dark: options.foreground, light: options.background },
+  });
+  if (!logo) return png;
+
+  const code = PNG.sync.read(png);
+  drawLogo(code, logo, options.background);
+  return PNG.sync.write(code);
+};
+
+const renderPdf = async (text: string, options: QrCodeOptions, logo: PNG | null) => {
+  const document = await PDFDocument.create();
+  document.setTitle(text);
+  document.setCreator("ZapLink");
+  const page = document.addPage([options.size, options.size]);
+  const image = await document.embedPng(await renderPng(text, options, logo));
+  page.drawImage(image, { x: 0, y: 0, width: options.size, height: options.size });
+  return Buffer.from(await document.save());
+};
+
+/**
+ * Renders a QR code.
+ *
+ * @param text - What the code encodes, i.e. the Zap's short link
+ * @param options - Format and appearance
+ * @returns The file's bytes
+ * @throws Error "QR_LOGO_*" when the logo cannot be used (see fetchLogo)
+ */
+export const renderQrCode = async (text: string, options: QrCodeOptions): Promise<Buffer> => {
+  const logoBytes = options.logoUrl ? await fetchLogo(options.logoUrl) : null;
+  const logo = logoBytes ? decodeLogo(logoBytes) : null;
+
+  switch (options.format) {
+    case "svg":
+      return renderSvg(text, options, logo, logoBytes);
+    case "pdf":
+      return renderPdf(text, options, logo);
+    default:
+      return renderPng(text, options, logo);
+  }
+};
@@ -0,0 +1,312 @@
+import crypto from "crypto";
+import fs from "fs";
+import os from "os";
+import * as path from "path";
+import { Readable, Transform } from "stream";
+import { pipeline } from "stream/promises";
+
+/**
+ * Resumable uploads (tus-style): a client initiates a session, PUTs numbered
+ * chunks in any order (re-sending a chunk simply replaces it), asks which byte
+ * ranges have arrived, and finally completes the session. Chunks are staged
+ * under UPLOAD_TMP_DIR/<uploadId>/ next to a session.json describing the file.
+ */
+
+const UPLOAD_TMP_DIR =
+  process.env.UPLOAD_TMP_DIR || path.join(os.tmpdir(), "zaplink-uploads");
+
+export const RESUMABLE_MAX_FILE_SIZE = parseInt(
+  process.env.RESUMABLE_UPLOAD_MAX_SIZE || String(2 * 1024 * 1024 * 1024),
+  10,
+); // Default: 2GB
+export const RESUMABLE_MIN_CHUNK_SIZE = 256 * 1024; // 256KB
+export const RESUMABLE_MAX_CHUNK_SIZE = 10 * 1024 * 1024; // same cap as multer uploads
+const DEFAULT_CHUNK_SIZE = 5 * 1024 * 1024;
+const SESSION_TTL_MS =
+  parseInt(process.env.RESUMABLE_UPLOAD_TTL_HOURS || "24", 10) * 60 * 60 * 1000;
+
+const SESSION_FILE = "session.json";
+const ASSEMBLED_FILE = "assembled";
+const FINALIZE_LOCK = "finalize.lock";
+const UPLOAD_ID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/;
+const CHUNK_FILE_PATTERN = /^\d+$/;
+
+export interface UploadSession {
+  id: string;
+  fileName: string;
+  mimeType: string | null;
+  size: number;
+  chunkSize: number;
+  totalChunks: number;
+  ownerId: string | null;
+  createdAt: string;
+  expiresAt: string;
+}
+
+export interface ByteRangeStatus {
+  start: number;
+  end: number;
+}
+
+interface CreateUploadSessionInput {
+  fileName: string;
+  size: number;
+  mimeType?: string | null;
+  chunkSize?: number;
+}
+
+const sessionDir = (uploadId: string): string => path.join(UPLOAD_TMP_DIR, uploadId);
+
+/**
+ * Expected byte length of a chunk; only the last one may be shorter.
+ */
+export const getChunkLength = (session: UploadSession, index: number): number => {
+  if (index < session.totalChunks - 1) return session.chunkSize;
+  return session.size - session.chunkSize * (session.totalChunks - 1);
+};
+
+/**
+ * Starts a resumable upload and reserves its staging directory.
+ * @param input - File name, total size and optional MIME type / chunk size
+ * @param ownerId - Signed-in user starting the upload, if any
+ * @throws Error("UPLOAD_TOO_LARGE") when size exceeds RESUMABLE_UPLOAD_MAX_SIZE
+ */
+export const createUploadSession = async (
+  input: CreateUploadSessionInput,
+  ownerId: string | null,
+): Promise<UploadSession> => {
+  if (input.size > RESUMABLE_MAX_FILE_SIZE) {
+    throw new Error("UPLOAD_TOO_LARGE");
+  }
+
+  const chunkSize = input.chunkSize ?? DEFAULT_CHUNK_SIZE;
+  const now = Date.now();
+  const session: UploadSession = {
+    id: crypto.randomUUID(),
+    fileName: path.basename(input.fileName),
+    mimeType: input.mimeType ?? null,
+    size: input.size,
+    chunkSize,
+    totalChunks: Math.max(1, Math.ceil(input.size / chunkSize)),
+    ownerId,
+    createdAt: new Date(now).toISOString(),
+    expiresAt: new Date(now + SESSION_TTL_MS).toISOString(),
+  };
+
+  const dir = sessionDir(session.id);
+  await fs.promises.mkdir(dir, { recursive: true });
+  await fs.promises.writeFile(path.join(dir, SESSION_FILE), JSON.stringify(session));
+
+  return session;
+};
+
+/**
+ * Loads a session by id.
+ * @throws Error("UPLOAD_NOT_FOUND") for unknown ids, Error("UPLOAD_EXPIRED") past expiresAt
+ */
+export const getUploadSession = async (uploadId: string): Promise<UploadSession> => {
+  if (!UPLOAD_ID_PATTERN.test(uploadId)) {
+    throw new Error("UPLOAD_NOT_FOUND");
+  }
+
+  let session: UploadSession;
+  try {
+    const raw = await fs.promises.readFile(path.join(sessionDir(uploadId), SESSION_FILE), "utf8");
+    session = JSON.parse(raw);
+  } catch (error: any) {
+    if (error.code === "ENOENT") throw new Error("UPLOAD_NOT_FOUND");
+    throw error;
+  }
+
+  if (new Date(session.expiresAt).getTime() <= Date.now()) {
+    throw new Error("UPLOAD_EXPIRED");
+  }
+  return session;
+};
+
+/**
+ * Stores one chunk. The body is streamed to disk and only becomes visible
+ * (renamed into place) once exactly the expected number of bytes arrived.
+ * @throws Error("CHUNK_OUT_OF_RANGE") or Error("CHUNK_SIZE_MISMATCH")
+ */
+export const writeUploadChunk = async (
+  session: UploadSession,
+  index: number,
+  body: Readable,
+): Promise<void> => {
+  if (!Number.isInteger(index) || index < 0 || index >= session.totalChunks) {
+    throw new Error("CHUNK_OUT_OF_RANGE");
+  }
+
+  const expectedLength = getChunkLength(session, index);
+  const dir = sessionDir(session.id);
+  const partPath = path.join(dir, `${index}.${crypto.randomBytes(4).toString("hex")}.part`);
+
+  let received = 0;
+  const counter = new Transform({
+    transform(chunk: Buffer, _encoding, callback) {
+      received += chunk.length;
+      if (received > expectedLength) {
+        callback(new Error("CHUNK_SIZE_MISMATCH"));
+        return;
+      }
+      callback(null, chunk);
+    },
+  });
+
+  try {
+    await pipeline(body, counter, fs.createWriteStream(partPath));
+    if (received !== expectedLength) {
+      throw new Error("CHUNK_SIZE_MISMATCH");
+    }
+    await fs.promises.rename(partPath, path.join(dir, String(index)));
+  } catch (error) {
+    await fs.promises.rm(partPath, { force: true });
+    throw error;
+  }
+};
+
+/**
+ * Indexes of the chunks fully received so far, ascending.
+ */
+export const getReceivedChunks = async (session: UploadSession): Promise<number[]> => {
+  const entries = await fs.promises.readdir(sessionDir(session.id));
+  return entries
+    .filter((entry) => CHUNK_FILE_PATTERN.test(entry))
+    .map(Number)
+    .filter((index) => index < session.totalChunks)
+    .sort((a, b) => a - b);
+};
+
+/**
+ * Collapses received chunk indexes into inclusive byte ranges.
+ */
+export const toByteRanges = (
+  session: UploadSession,
+  chunks: number[],
+): ByteRangeStatus[] => {
+  const ranges: ByteRangeStatus[] = [];
+  for (const index of chunks) {
+    const start = index * session.chunkSize;
+    const end = start + getChunkLength(session, index) - 1;
+    const last = ranges[ranges.length - 1];
+    if (last && last.end + 1 === start) {
+      last.end = end;
+    } else {
+      ranges.push({ start, end });
+    }
+  }
+  return ranges;
+};
+
+/**
+ * Number of bytes received contiguously from the start of the file
+ * (the tus `Upload-Offset`).
+ */
+export const getUploadOffset = (session: UploadSession, chunks: number[]): number => {
+  const first = toByteRanges(session, chunks)[0];
+  return first && first.start === 0 ? first.end + 1 : 0;
+};
+
+/**
+ * Concatenates every chunk into a single file on disk and returns it shaped
+ * like a multer disk upload, so it can go through the regular createZap path.
+ * @throws Error("UPLOAD_INCOMPLETE") if chunks are missing,
+ *   Error("UPLOAD_IN_PROGRESS") if the session is already being finalized
+ */
+export const assembleUpload = async (
+  session: UploadSession,
+): Promise<Express.Multer.File> => {
+  const dir = sessionDir(session.id);
+
+  try {
+    await (await fs.promises.open(path.join(dir, FINALIZE_LOCK), "wx")).close();
+  } catch (error: any) {
+    if (error.code === "EEXIST") throw new Error("UPLOAD_IN_PROGRESS");
+    throw error;
+  }
+
+  try {
+    const received = await getReceivedChunks(session);
+    if (received.length !== session.totalChunks) {
+      throw new Error("UPLOAD_INCOMPLETE");
+    }
+
+    const assembledPath = path.join(dir, ASSEMBLED_FILE);
+    const output = fs.createWriteStream(assembledPath);
+    for (const index of received) {
+      await pipeline(fs.createReadStream(path.join(dir, String(index))), output, {
+        end: false,
+      });
+    }
+    await new Promise<void>((resolve, reject) => {
+      output.on("error", reject);
+      output.end(resolve);
+    });
+
+    return {
+      fieldname: "file",
+      originalname: session.fileName,
+      encoding: "7bit",
+      mimetype: session.mimeType || "application/octet-stream",
+      size: session.size,
+      destination: dir,
+      filename: ASSEMBLED_FILE,
+      path: assembledPath,
+    } as Express.Multer.File;
+  } catch (error) {
+    await fs.promises.rm(path.join(dir, FINALIZE_LOCK), { force: true });
+    throw error;
+  }
+};
+
+/**
+ * Releases a session after a failed finalize so the client can retry it.
+ * Received chunks are kept.
+ */
+export const releaseUploadSession = async (uploadId: string): Promise<void> => {
+  const dir = sessionDir(uploadId);
+  await fs.promises.rm(path.join(dir, ASSEMBLED_FILE), { force: true });
+  await fs.promises.rm(path.join(dir, FINALIZE_LOCK), { force: true });
+};
+
+/**
+ * Removes a session and every staged chunk.
+ */
+export const deleteUploadSession = async (uploadId: string): Promise<void> => {
+  if (!UPLOAD_ID_PATTERN.test(uploadId)) return;
+  await fs.promises.rm(sessionDir(uploadId), { recursive: true, force: true });
+};
+
+/**
+ * Deletes staging directories of abandoned sessions past their expiresAt.
+ * @returns Number of sessions removed
+ */
+export const cleanupExpiredUploadSessions = async (): Promise<number> => {
+  let entries: string[];
+  try {
+    entries = await fs.promises.readdir(UPLOAD_TMP_DIR);
+  } catch (error: any) {
+    if (error.code === "ENOENT") return 0;
+    throw error;
+  }
+
+  let removed = 0;
+  for (const uploadId of entries.filter((entry) => UPLOAD_ID_PATTERN.test(entry))) {
+    try {
+      await getUploadSession(uploadId);
+    } catch (error: any) {
+      if (error.message === "UPLOAD_NOT_FOUND") {
+        // session.json is written right after the directory; only sweep stale leftovers
+        const { mtimeMs } = await fs.promises.stat(sessionDir(uploadId));
+        if (Date.now() - mtimeMs < SESSION_TTL_MS) continue;
+      } else if (error.message !== "UPLOAD_EXPIRED") {
+        console.error(`[Cleanup] Could not read upload session ${uploadId}:`, error);
+        continue;
+      }
+      await deleteUploadSession(uploadId);
+      removed++;
+    }
+  }
+  return removed;
+};
@@ -0,0 +1,98 @@
+import { Readable } from "stream";
+import { ReadableStream } from "stream/web";
+import cloudinary from "../../middlewares/cloudinary";
+import {
+  deleteFromCloudinary,
+  listCloudinaryAssets,
+  uploadToCloudinary,
+} from "../../utils/cloudinaryHelper";
+import {
+  ByteRange,
+  ListedObject,
+  StorageProvider,
+  StoredObject,
+  StoredObjectStream,
+  UploadBody,
+  UploadOptions,
+} from "./storage.types";
+
+const CLOUDINARY_DELIVERY_HOST = "res.cloudinary.com";
+
+/**
+ * Cloudinary driver. Assets are public `upload` type deliveries, so the
+ * stored secure_url is already directly fetchable.
+ */
+export class CloudinaryStorageProvider implements StorageProvider {
+  readonly name = "cloudinary" as const;
+
+  async upload(body: UploadBody, options: UploadOptions): Promise<StoredObject> {
+    const result = await uploadToCloudinary(body);
+    const size = Buffer.isBuffer(body) ? body.length : (options.size ?? result.bytes);
+    return { url: result.secure_url, size };
+  }
+
+  async stream(url: string, range?: ByteRange): Promise<StoredObjectStream> {
+    const headers: Record<string, string> = {};
+    if (range) {
+      headers.Range = `bytes=${range.start}-${range.end ?? ""}`;
+    }
+
+    const response = await fetch(url, { headers });
+    if (!response.ok || !response.body) {
+      throw new Error(`Cloudinary responded with ${response.status} for ${url}`);
+    }
+    // A 200 would be the whole file, which callers would serve as the range
+    if (range && response.status !== 206) {
+      throw new Error(`Cloudinary ignored the range request for ${url}`);
+    }
+
+    const contentRange = response.headers.get("content-range");
+    const contentLength = response.headers.get("content-length");
+    const size = contentRange
+      ? parseInt(contentRange.split("/")[1], 10)
+      : contentLength
+        ? parseInt(contentLength, 10)
+        : undefined;
+
+    return {
+      stream: Readable.fromWeb(response.body as ReadableStream<Uint8Array>),
+      size: Number.isFinite(size) ? size : undefined,
+      contentType: response.headers.get("content-type") || undefined,
+    };
+  }
+
+  async delete(url: string): Promise<void> {
+    await deleteFromCloudinary(url);
+  }
+
+  /**
+   * Only delivery URLs of the configured cloud are ours: anyone can link to
+   * an asset of another cloud, e.g. as the target of a URL Zap.
+   */
+  owns(url: string): boolean {
+    const cloudName = cloudinary.config().cloud_name;
+    if (!cloudName) return false;
+
+    let parsed: URL;
+    try {
+      parsed = new URL(url);
+    } catch {
+      return false;
+    }
+    return (
+      /^https?:$/.test(parsed.protocol) &&
+      parsed.hostname.toLowerCase() === CLOUDINARY_DELIVERY_HOST &&
+      parsed.pathname.split("/")[1] === cloudName
+    );
+  }
+
+  async *list(): AsyncIterable<ListedObject> {
+    for await (const asset of listCloudinaryAssets()) {
+      yield {
+        url: asset.secure_url,
+        size: asset.bytes,
+        lastModified: new Date(asset.created_at),
+      };
+    }
+  }
+}
@@ -0,0 +1,99 @@
+import { Zap } from "@prisma/client";
+import { CloudinaryStorageProvider } from "./cloudinary.driver";
+import { LocalStorageProvider } from "./local.driver";
+import { S3StorageProvider } from "./s3.driver";
+import { StorageDriverName, StorageProvider } from "./storage.types";
+
+export * from "./storage.types";
+
+const drivers: Partial<Record<StorageDriverName, StorageProvider>> = {};
+
+const createDriver = (name: StorageDriverName): StorageProvider => {
+  switch (name) {
+    case "local":
+      return new LocalStorageProvider();
+    case "s3":
+      return new S3StorageProvider();
+    case "cloudinary":
+      return new CloudinaryStorageProvider();
+  }
+};
+
+const getDriver = (name: StorageDriverName): StorageProvider => {
+  if (!drivers[name]) {
+    drivers[name] = createDriver(name);
+  }
+  return drivers[name]!;
+};
+
+/**
+ * Returns the name of the driver new uploads go to, from STORAGE_DRIVER.
+ * Defaults to cloudinary.
+ */
+export const getStorageDriverName = (): StorageDriverName => {
+  const name = (process.env.STORAGE_DRIVER || "cloudinary").toLowerCase();
+  if (name !== "cloudinary" && name !== "local" && name !== "s3") {
+    throw new Error(
+      `Unknown STORAGE_DRIVER "${name}". Expected cloudinary, local or s3.`
+    );
+  }
+  return name;
+};
+
+/**
+ * Returns the storage provider new uploads should be written to.
+ */
+export const getStorage = (): StorageProvider => getDriver(getStorageDriverName());
+
+/**
+ * Returns a specific storage provider, e.g. one rows still point at after
+ * STORAGE_DRIVER was switched.
+ * @param name - Driver name
+ */
+export const getStorageByName = (name: StorageDriverName): StorageProvider => getDriver(name);
+
+/**
+ * Returns the storage provider that produced a stored reference, or null for
+ * references no driver owns (e.g. the destination of a URL Zap).
+ * @param url - A Zap.cloudUrl / ZapVersion.cloudUrl value
+ */
+export const getStorageForUrl = (url: string | null | undefined): StorageProvider | null => {
+  if (!url) return null;
+
+  const candidates: StorageDriverName[] = ["local", "s3", "cloudinary"];
+  for (const name of candidates) {
+    // Only instantiate the S3 client when the reference actually is an S3 one
+    if (name === "s3" && !url.startsWith("s3://")) continue;
+    const driver = getDriver(name);
+    if (driver.owns(url)) return driver;
+  }
+  return null;
+};
+
+/**
+ * The stored file a Zap holds, if any. URL Zaps keep the user's target link
+ * in cloudUrl, which is never one of our objects even when it looks like one.
+ * @param zap - The Zap, or one of its versions along with the Zap's type
+ */
+export const getZapFileUrl = (zap: Pick<Zap, "type" | "cloudUrl">): string | null =>
+  zap.type !== "URL" && getStorageForUrl(zap.cloudUrl) ? zap.cloudUrl : null;
+
+/**
+ * Deletes a stored object through whichever driver owns it. References no
+ * driver owns are ignored, and failures are logged rather than thrown so
+ * cleanup of one asset never blocks the rest.
+ * @param url - A Zap.cloudUrl / ZapVersion.cloudUrl value
+ * @returns false if the driver failed to delete the object
+ */
+export const deleteStoredObject = async (url: string | null | undefined): Promise<boolean> => {
+  const driver = getStorageForUrl(url);
+  if (!driver) return true;
+
+  try {
+    await driver.delete(url!);
+    return true;
+  } catch (error) {
+    console.error(`Error deleting ${url} from ${driver.name} storage:`, error);
+    return false;
+  }
+};
@@ -0,0 +1,103 @@
+import crypto from "crypto";
+import fs from "fs";
+import * as path from "path";
+import { pipeline } from "stream/promises";
+import {
+  ByteRange,
+  ListedObject,
+  StorageProvider,
+  StoredObject,
+  StoredObjectStream,
+  UploadBody,
+  UploadOptions,
+} from "./storage.types";
+
+const LOCAL_URL_PREFIX = "local://";
+const FOLDER = "zaplink_folders";
+
+/**
+ * Local filesystem driver for self-hosting and offline CI.
+ * Objects are stored under LOCAL_STORAGE_DIR (default ./uploads) and
+ * referenced as `local://zaplink_folders/<file>`.
+ */
+export class LocalStorageProvider implements StorageProvider {
+  readonly name = "local" as const;
+  private readonly rootDir: string;
+
+  constructor(rootDir: string = process.env.LOCAL_STORAGE_DIR || "./uploads") {
+    this.rootDir = path.resolve(rootDir);
+  }
+
+  /**
+   * Maps a storage key to a path on disk, refusing anything that would
+   * escape the storage root (path traversal).
+   */
+  resolveKey(key: string): string {
+    const filePath = path.resolve(this.rootDir, key);
+    if (!filePath.startsWith(this.rootDir + path.sep)) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+    return filePath;
+  }
+
+  keyFromUrl(url: string): string {
+    if (!this.owns(url)) {
+      throw new Error(`Not a local storage reference: ${url}`);
+    }
+    return url.slice(LOCAL_URL_PREFIX.length);
+  }
+
+  async upload(body: UploadBody, options: UploadOptions): Promise<StoredObject> {
+    const ext = path.extname(options.fileName).toLowerCase().replace(/[^a-z0-9.]/g, "");
+    const key = `${FOLDER}/${Date.now()}-${crypto.randomBytes(8).toString("hex")}${ext}`;
+    const filePath = this.resolveKey(key);
+
+    await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+    if (Buffer.isBuffer(body)) {
+      await fs.promises.writeFile(filePath, body);
+    } else {
+      await pipeline(body, fs.createWriteStream(filePath));
+    }
+    const { size } = await fs.promises.stat(filePath);
+
+    return { url: `${LOCAL_URL_PREFIX}${key}`, size };
+  }
+
+  async stream(url: string, range?: ByteRange): Promise<StoredObjectStream> {
+    const filePath = this.resolveKey(this.keyFromUrl(url));
+    const stats = await fs.promises.stat(filePath);
+
+    return {
+      stream: fs.createReadStream(filePath, range),
+      size: stats.size,
+    };
+  }
+
+  async delete(url: string): Promise<void> {
+    try {
+      await fs.promises.unlink(this.resolveKey(this.keyFromUrl(url)));
+    } catch (error: any) {
+      if (error.code !== "ENOENT") throw error;
+    }
+  }
+
+  owns(url: string): boolean {
+    return url.startsWith(LOCAL_URL_PREFIX);
+  }
+
+  async *list(): AsyncIterable<ListedObject> {
+    let entries: fs.Dirent[];
+    try {
+      entries = await fs.promises.readdir(this.resolveKey(FOLDER), { withFileTypes: true });
+    } catch (error: any) {
+      if (error.code === "ENOENT") return;
+      throw error;
+    }
+
+    for (const entry of entries.filter((entry) => entry.isFile())) {
+      const key = `${FOLDER}/${entry.name}`;
+      const { size, mtime } = await fs.promises.stat(this.resolveKey(key));
+      yield { url: `${LOCAL_URL_PREFIX}${key}`, size, lastModified: mtime };
+    }
+  }
+}
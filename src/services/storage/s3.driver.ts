@@ -0,0 +1,144 @@
+import crypto from "crypto";
+import * as path from "path";
+import { Readable } from "stream";
+import {
+  DeleteObjectCommand,
+  GetObjectCommand,
+  ListObjectsV2Command,
+  PutObjectCommand,
+  S3Client,
+} from "@aws-sdk/client-s3";
+import {
+  ByteRange,
+  ListedObject,
+  StorageProvider,
+  StoredObject,
+  StoredObjectStream,
+  UploadBody,
+  UploadOptions,
+} from "./storage.types";
+
+const S3_URL_PREFIX = "s3://";
+const FOLDER = "zaplink_folders";
+
+/**
+ * S3-compatible driver (AWS S3, MinIO, R2, ...). Objects are referenced as
+ * `s3://<bucket>/<key>`; the bucket is kept in the reference so rows stay
+ * readable if S3_BUCKET is later changed.
+ */
+export class S3StorageProvider implements StorageProvider {
+  readonly name = "s3" as const;
+  private readonly client: S3Client;
+  private readonly bucket: string;
+
+  constructor() {
+    const {
+      S3_BUCKET,
+      S3_REGION,
+      S3_ENDPOINT,
+      S3_ACCESS_KEY_ID,
+      S3_SECRET_ACCESS_KEY,
+      S3_FORCE_PATH_STYLE,
+    } = process.env;
+
+    if (!S3_BUCKET) {
+      throw new Error(
+        "S3_BUCKET environment variable is not set. " +
+          "Please set it in your .env file when STORAGE_DRIVER=s3."
+      );
+    }
+
+    this.bucket = S3_BUCKET;
+    this.client = new S3Client({
+      region: S3_REGION || "us-east-1",
+      endpoint: S3_ENDPOINT || undefined,
+      forcePathStyle: S3_FORCE_PATH_STYLE === "true",
+      credentials:
+        S3_ACCESS_KEY_ID && S3_SECRET_ACCESS_KEY
+          ? {
+              accessKeyId: S3_ACCESS_KEY_ID,
+              secretAccessKey: S3_SECRET_ACCESS_KEY,
+            }
+          : undefined,
+    });
+  }
+
+  private parseUrl(url: string): { bucket: string; key: string } {
+    if (!this.owns(url)) {
+      throw new Error(`Not an S3 storage reference: ${url}`);
+    }
+    const rest = url.slice(S3_URL_PREFIX.length);
+    const slash = rest.indexOf("/");
+    return { bucket: rest.slice(0, slash), key: rest.slice(slash + 1) };
+  }
+
+  async upload(body: UploadBody, options: UploadOptions): Promise<StoredObject> {
+    const ext = path.extname(options.fileName).toLowerCase().replace(/[^a-z0-9.]/g, "");
+    const key = `${FOLDER}/${Date.now()}-${crypto.randomBytes(8).toString("hex")}${ext}`;
+
+    await this.client.send(
+      new PutObjectCommand({
+        Bucket: this.bucket,
+        Key: key,
+        Body: body,
+        ContentType: options.contentType,
+        ContentLength: Buffer.isBuffer(body) ? body.length : options.size,
+      })
+    );
+
+    const size = Buffer.isBuffer(body) ? body.length : (options.size ?? 0);
+    return { url: `${S3_URL_PREFIX}${this.bucket}/${key}`, size };
+  }
+
+  async stream(url: string, range?: ByteRange): Promise<StoredObjectStream> {
+    const { bucket, key } = this.parseUrl(url);
+    const result = await this.client.send(
+      new GetObjectCommand({
+        Bucket: bucket,
+        Key: key,
+        Range: range ? `bytes=${range.start}-${range.end ?? ""}` : undefined,
+      })
+    );
+
+    const size = result.ContentRange
+      ? parseInt(result.ContentRange.split("/")[1], 10)
+      : result.ContentLength;
+
+    return {
+      stream: result.Body as Readable,
+      size: Number.isFinite(size) ? size : undefined,
+      contentType: result.ContentType,
+    };
+  }
+
+  async delete(url: string): Promise<void> {
+    const { bucket, key } = this.parseUrl(url);
+    await this.client.send(new DeleteObjectCommand({ Bucket: bucket, Key: key }));
+  }
+
+  owns(url: string): boolean {
+    return url.startsWith(S3_URL_PREFIX);
+  }
+
+  async *list(): AsyncIterable<ListedObject> {
+    let continuationToken: string | undefined;
+    do {
+      const page = await this.client.send(
+        new ListObjectsV2Command({
+          Bucket: this.bucket,
+          Prefix: `${FOLDER}/`,
+          ContinuationToken: continuationToken,
+        })
+      );
+      for (const object of page.Contents ?? []) {
+        if (!object.Key) continue;
+        yield {
+          url: `${S3_URL_PREFIX}${this.bucket}/${object.Key}`,
+          size: object.Size,
+          lastModified: object.LastModified ?? new Date(0),
+        };
+      }
+      continuationToken = page.IsTruncated ? page.NextContinuationToken : undefined;
+    } while (continuationToken);
+  }
+}
@@ -0,0 +1,67 @@
+import { Readable } from "stream";
+
+export type StorageDriverName = "cloudinary" | "local" | "s3";
+
+export interface UploadOptions {
+  /** Original file name, used to keep the extension on the stored object */
+  fileName: string;
+  /** MIME type reported by the client, if any */
+  contentType?: string;
+  /** Byte length of a streamed body (required by S3 for streams) */
+  size?: number;
+}
+
+/** File contents to store: fully buffered, or streamed from disk */
+export type UploadBody = Buffer | Readable;
+
+export interface StoredObject {
+  /** Reference persisted in Zap.cloudUrl / ZapVersion.cloudUrl */
+  url: string;
+  size: number;
+}
+
+/** Inclusive byte range, as in an HTTP `Range: bytes=start-end` header */
+export interface ByteRange {
+  start: number;
+  end?: number;
+}
+
+export interface StoredObjectStream {
+  stream: Readable;
+  /** Size of the whole object in bytes, when the backend reports it */
+  size?: number;
+  contentType?: string;
+}
+
+/** An object found by StorageProvider.list() */
+export interface ListedObject {
+  /** Same form of reference as upload() returns */
+  url: string;
+  size?: number;
+  /** When the object was written */
+  lastModified: Date;
+}
+
+/**
+ * A place uploaded Zap content is kept. Every driver addresses objects by the
+ * `url` it returned from upload(), so rows written by one driver keep working
+ * after STORAGE_DRIVER is switched to another.
+ */
+export interface StorageProvider {
+  readonly name: StorageDriverName;
+
+  /** Stores a file and returns the reference to persist */
+  upload(body: UploadBody, options: UploadOptions): Promise<StoredObject>;
+
+  /** Opens a read stream for a stored object, optionally for a byte range */
+  stream(url: string, range?: ByteRange): Promise<StoredObjectStream>;
+
+  /** Deletes a stored object. Missing objects are not an error. */
+  delete(url: string): Promise<void>;
+
+  /** Whether a stored reference was produced by this driver */
+  owns(url: string): boolean;
+
+  /** Every object in the zaplink_folders folder, page by page */
+  list(): AsyncIterable<ListedObject>;
+}
@@ -0,0 +1,64 @@
+import { ZapTombstone, ZapTombstoneReason } from "@prisma/client";
+import prisma from "../utils/prismClient";
+import { ApiError } from "../utils/ApiError";
+
+/**
+ * Tombstones outlive deleted Zaps: they let the API tell a viewer why a link
+ * stopped working (410) instead of answering 404 as for a typo, and they keep
+ * a shortId from ever being issued again. They are written by deleteZaps()
+ * (zapDeletion.service), in the same transaction that deletes the row.
+ */
+
+/**
+ * Whether a shortId belonged to a Zap that has since been deleted.
+ * @param shortId - Candidate shortId
+ */
+export const isShortIdRetired = async (shortId: string): Promise<boolean> => {
+  const tombstone = await prisma.zapTombstone.findUnique({
+    where: { shortId },
+    select: { id: true },
+  });
+  return !!tombstone;
+};
+
+/**
+ * Builds the 410 message for a deleted Zap.
+ * @param tombstone - The Zap's tombstone
+ */
+export const describeTombstone = (tombstone: ZapTombstone): string => {
+  switch (tombstone.reason) {
+    case ZapTombstoneReason.EXPIRED:
+      return `This Zap expired on ${(tombstone.expiresAt ?? tombstone.deletedAt).toISOString()}.`;
+    case ZapTombstoneReason.VIEW_LIMIT:
+      return "This Zap reached its view limit.";
+    case ZapTombstoneReason.BURNED:
+      return "This Zap was burned after reading.";
+    default:
+      return `This Zap was deleted by its owner on ${tombstone.deletedAt.toISOString()}.`;
+  }
+};
+
+/**
+ * The error to send for a shortId with no Zap: 410 with the reason if the Zap
+ * was deleted, otherwise 404.
+ *
+ * @param shortId - The requested shortId
+ * @param notFoundMessage - Message for the 404 case
+ */
+export const getMissingZapError = async (
+  shortId: string,
+  notFoundMessage = "Zap not found.",
+): Promise<ApiError> => {
+  const tombstone = await prisma.zapTombstone.findUnique({ where: { shortId } });
+  if (!tombstone) {
+    return new ApiError(404, notFoundMessage);
+  }
+
+  return new ApiError(410, describeTombstone(tombstone), [
+    {
+      reason: tombstone.reason.toLowerCase(),
+      deletedAt: tombstone.deletedAt.toISOString(),
+      expiresAt: tombstone.expiresAt?.toISOString() ?? null,
+    },
+  ]);
+};
@@ -0,0 +1,357 @@
+import crypto from "crypto";
+import https from "https";
+import { Prisma, Zap } from "@prisma/client";
+import prisma from "../utils/prismClient";
+import { decryptText, encryptText } from "../utils/encryption";
+import { FORBIDDEN_HOST_ERROR, getIpLiteral, isBlockedAddress, publicLookup } from "../utils/publicAddress";
+
+/**
+ * Outgoing webhooks for Zap lifecycle events.
+ *
+ * Events are queued as WebhookDelivery rows, in the caller's transaction
+ * where there is one, so an event is recorded exactly when the change it
+ * describes is committed. Deliveries are sent right after they are queued
+ * and retried by the webhook-deliveries job with exponential backoff; after
+ * WEBHOOK_MAX_ATTEMPTS failures they move to WebhookDeadLetter, from which
+ * the owner can redeliver them.
+ *
+ * Deliveries go over HTTPS to public addresses only, checked again on every
+ * attempt since a host's DNS may change after the subscription was made.
+ *
+ * Each request carries `X-Zaplink-Signature: t=<unix seconds>,v1=<hex>`, an
+ * HMAC-SHA256 of "<t>.<raw body>" keyed with the subscription's secret.
+ */
+
+export const WEBHOOK_EVENTS = [
+  "zap.created",
+  "zap.viewed",
+  "zap.exhausted",
+  "zap.expired",
+  "zap.deleted",
+] as const;
+
+export type WebhookEvent = (typeof WEBHOOK_EVENTS)[number];
+
+export const WEBHOOK_SIGNATURE_HEADER = "X-Zaplink-Signature";
+
+const WEBHOOK_MAX_ATTEMPTS = parseInt(process.env.WEBHOOK_MAX_ATTEMPTS || "8", 10);
+const WEBHOOK_TIMEOUT_MS = parseInt(process.env.WEBHOOK_TIMEOUT_MS || "10000", 10);
+const RETRY_BASE_DELAY_MS = 30 * 1000;
+const RETRY_MAX_DELAY_MS = 6 * 60 * 60 * 1000;
+/** How long a claimed delivery is hidden from other workers */
+const CLAIM_LEASE_MS = 5 * 60 * 1000;
+const CLAIM_BATCH_SIZE = 20;
+const MAX_ERROR_LENGTH = 500;
+const FORBIDDEN_URL_ERROR = "URL is not an HTTPS URL on a public address";
+
+/** The Zap fields an event describes */
+export type WebhookZap = Pick<
+  Zap,
+  "id" | "shortId" | "ownerId" | "name" | "type" | "viewCount" | "viewLimit" | "expiresAt"
+>;
+
+export const WEBHOOK_ZAP_SELECT = {
+  id: true,
+  shortId: true,
+  ownerId: true,
+  name: true,
+  type: true,
+  viewCount: true,
+  viewLimit: true,
+  expiresAt: true,
+} as const;
+
+interface ClaimedDelivery {
+  id: string;
+  subscriptionId: string | null;
+  event: string;
+  payload: Prisma.JsonValue;
+  url: string;
+  secret: string;
+  attempts: number;
+  createdAt: Date;
+}
+
+/**
+ * Creates a signing secret for a new subscription.
+ * @returns The secret to show the subscriber once, and its encrypted form to store
+ */
+export const generateWebhookSecret = (): { secret: string; encrypted: string } => {
+  const secret = `whsec_${crypto.randomBytes(32).toString("hex")}`;
+  return { secret, encrypted: encryptText(secret) };
+};
+
+/**
+ * Signs a request body the way subscribers are told to verify it.
+ * @param secret - The subscription's plain secret
+ * @param body - The raw request body
+ * @param timestamp - Unix seconds sent in the header
+ * @returns The value of the X-Zaplink-Signature header
+ */
+export const signWebhookPayload = (secret: string, body: string, timestamp: number): string => {
+  const signature = crypto
+    .createHmac("sha256", secret)
+    .update(`${timestamp}.${body}`)
+    .digest("hex");
+  return `t=${timestamp},v1=${signature}`;
+};
+
+/**
+ * Delay before the next attempt once `attempts` attempts have failed.
+ */
+export const getRetryDelayMs = (attempts: number): number =>
+  Math.min(RETRY_BASE_DELAY_MS * 2 ** Math.max(attempts - 1, 0), RETRY_MAX_DELAY_MS);
+
+/**
+ * Queues an event for every subscription of the Zap and of its owner that
+ * wants it.
+ *
+ * @param db - The Prisma client, or the transaction making the change
+ * @param zap - The Zap the event is about
+ * @param event - Event type
+ * @param details - Extra fields for the payload's data, e.g. { reason }
+ * @returns The number of deliveries queued
+ */
+export const enqueueWebhookEvent = async (
+  db: Prisma.TransactionClient,
+  zap: WebhookZap,
+  event: WebhookEvent,
+  details: Record<string, string | number | null> = {},
+): Promise<number> => {
+  const subscriptions = await db.webhookSubscription.findMany({
+    where: {
+      AND: [
+        {
+          OR: [
+            { zapId: zap.id },
+            ...(zap.ownerId ? [{ ownerId: zap.ownerId, zapId: null }] : []),
+          ],
+        },
+        { OR: [{ events: { isEmpty: true } }, { events: { has: event } }] },
+      ],
+    },
+    select: { id: true, url: true, secret: true },
+  });
+  if (subscriptions.length === 0) return 0;
+
+  const payload = {
+    id: crypto.randomUUID(),
+    type: event,
+    createdAt: new Date().toISOString(),
+    data: {
+      shortId: zap.shortId,
+      name: zap.name,
+      type: zap.type,
+      viewCount: zap.viewCount,
+      viewLimit: zap.viewLimit,
+      expiresAt: zap.expiresAt?.toISOString() ?? null,
+      ...details,
+    },
+  };
+
+  const { count } = await db.webhookDelivery.createMany({
+    data: subscriptions.map((subscription) => ({
+      subscriptionId: subscription.id,
+      event,
+      payload,
+      url: subscription.url,
+      secret: subscription.secret,
+    })),
+  });
+  return count;
+};
+
+/**
+ * Claims due deliveries. Rows locked by another worker are skipped, and
+ * claimed rows are leased so a crashed worker's deliveries are retried.
+ */
+const claimDueDeliveries = (): Promise<ClaimedDelivery[]> => {
+  const leaseUntil = new Date(Date.now() + CLAIM_LEASE_MS);
+  return prisma.$queryRaw<ClaimedDelivery[]>`
+    UPDATE "WebhookDelivery" SET "nextAttemptAt" = ${leaseUntil}
+    WHERE "id" IN (
+      SELECT "id" FROM "WebhookDelivery"
+      WHERE "nextAttemptAt" <= now()
+      ORDER BY "nextAttemptAt"
+      LIMIT ${CLAIM_BATCH_SIZE}
+      FOR UPDATE SKIP LOCKED
+    )
+    RETURNING "id", "subscriptionId", "event", "payload", "url", "secret", "attempts", "createdAt"`;
+};
+
+/**
+ * POSTs one delivery. Only public hosts are connected to, so a subscription
+ * cannot be used to probe the server's own network through lastError.
+ * @returns null on a 2xx response, otherwise what went wrong
+ */
+const sendDelivery = (delivery: ClaimedDelivery): Promise<string | null> =>
+  new Promise((resolve) => {
+    const url = new URL(delivery.url);
+    const literal = getIpLiteral(url);
+    if (url.protocol !== "https:" || (literal && isBlockedAddress(literal))) {
+      resolve(FORBIDDEN_URL_ERROR);
+      return;
+    }
+
+    const body = JSON.stringify(delivery.payload);
+    const timestamp = Math.floor(Date.now() / 1000);
+    const request = https.request(
+      url,
+      {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "Content-Length": Buffer.byteLength(body),
+          "User-Agent": "ZapLink-Webhooks/1.0",
+          "X-Zaplink-Event": delivery.event,
+          "X-Zaplink-Delivery": delivery.id,
+          [WEBHOOK_SIGNATURE_HEADER]: signWebhookPayload(decryptText(delivery.secret), body, timestamp),
+        },
+        lookup: publicLookup,
+        timeout: WEBHOOK_TIMEOUT_MS,
+      },
+      (response) => {
+        // Only the status matters; redirects are not followed
+        response.resume();
+        const status = response.statusCode ?? 0;
+        resolve(status >= 200 && status < 300 ? null : `HTTP ${status}`);
+      },
+    );
+
+    request.on("timeout", () => request.destroy(new Error("Request timed out")));
+    request.on("error", (error) =>
+      resolve(error.message === FORBIDDEN_HOST_ERROR ? FORBIDDEN_URL_ERROR : error.message),
+    );
+    request.end(body);
+  });
+
+type DeliveryResult = "delivered" | "retrying" | "deadLettered";
+
+/**
+ * Sends a claimed delivery and records the result: removed from the queue
+ * on success, rescheduled on failure, moved to the dead letters once out of
+ * attempts.
+ */
+const attemptDelivery = async (delivery: ClaimedDelivery): Promise<DeliveryResult> => {
+  const error = await sendDelivery(delivery);
+  if (error === null) {
+    await prisma.webhookDelivery.delete({ where: { id: delivery.id } });
+    return "delivered";
+  }
+
+  const attempts = delivery.attempts + 1;
+  const lastError = error.slice(0, MAX_ERROR_LENGTH);
+
+  if (attempts < WEBHOOK_MAX_ATTEMPTS) {
+    await prisma.webhookDelivery.update({
+      where: { id: delivery.id },
+      data: {
+        attempts,
+        lastError,
+        nextAttemptAt: new Date(Date.now() + getRetryDelayMs(attempts)),
+      },
+    });
+    return "retrying";
+  }
+
+  await prisma.$transaction([
+    // The subscription may have been removed with its Zap; nothing to redeliver to
+    ...(delivery.subscriptionId
+      ? [
+          prisma.webhookDeadLetter.create({
+            data: {
+              subscriptionId: delivery.subscriptionId,
+              event: delivery.event,
+              payload: delivery.payload as Prisma.InputJsonValue,
+              attempts,
+              lastError,
+              createdAt: delivery.createdAt,
+            },
+          }),
+        ]
+      : []),
+    prisma.webhookDelivery.delete({ where: { id: delivery.id } }),
+  ]);
+  console.error(`[Webhooks] Delivery ${delivery.id} to ${delivery.url} failed ${attempts} times: ${lastError}`);
+  return "deadLettered";
+};
+
+/**
+ * Sends every delivery that is due.
+ * @returns Counters for the job run
+ */
+export const processWebhookDeliveries = async (): Promise<{
+  delivered: number;
+  retrying: number;
+  deadLettered: number;
+}> => {
+  const metrics = { delivered: 0, retrying: 0, deadLettered: 0 };
+
+  while (true) {
+    const batch = await claimDueDeliveries();
+    if (batch.length === 0) break;
+
+    const results = await Promise.all(batch.map(attemptDelivery));
+    results.forEach((result) => metrics[result]++);
+
+    if (batch.length < CLAIM_BATCH_SIZE) break;
+  }
+
+  return metrics;
+};
+
+let dispatching: Promise<unknown> | null = null;
+let dispatchAgain = false;
+
+/**
+ * Sends newly queued deliveries in the background, without waiting for the
+ * next run of the webhook-deliveries job. Call after the queuing transaction
+ * has committed.
+ */
+export const dispatchWebhooksSoon = (): void => {
+  if (dispatching) {
+    dispatchAgain = true;
+    return;
+  }
+
+  dispatching = processWebhookDeliveries()
+    .catch((error) => console.error("[Webhooks] Dispatch failed:", error))
+    .finally(() => {
+      dispatching = null;
+      if (dispatchAgain) {
+        dispatchAgain = false;
+        dispatchWebhooksSoon();
+      }
+    });
+};
+
+/**
+ * Queues a dead letter for delivery again, to the subscription's current URL,
+ * with a fresh set of attempts.
+ * @param deadLetterId - The dead letter to redeliver
+ * @returns The new delivery's id, or null if the dead letter does not exist
+ */
+export const redeliverDeadLetter = async (deadLetterId: string): Promise<string | null> => {
+  const delivery = await prisma.$transaction(async (tx) => {
+    const deadLetter = await tx.webhookDeadLetter.findUnique({
+      where: { id: deadLetterId },
+      include: { subscription: { select: { url: true, secret: true } } },
+    });
+    if (!deadLetter) return null;
+
+    await tx.webhookDeadLetter.delete({ where: { id: deadLetter.id } });
+    return tx.webhookDelivery.create({
+      data: {
+        subscriptionId: deadLetter.subscriptionId,
+        event: deadLetter.event,
+        payload: deadLetter.payload as Prisma.InputJsonValue,
+        url: deadLetter.subscription.url,
+        secret: deadLetter.subscription.secret,
+      },
+      select: { id: true },
+    });
+  });
+
+  if (delivery) dispatchWebhooksSoon();
+  return delivery?.id ?? null;
+};
@@ -0,0 +1,127 @@
+import { Prisma, ZapTombstoneReason } from "@prisma/client";
+import prisma from "../utils/prismClient";
+import { deleteStoredObject, getZapFileUrl } from "./storage";
+import {
+  dispatchWebhooksSoon,
+  enqueueWebhookEvent,
+  WEBHOOK_ZAP_SELECT,
+} from "./webhook.service";
+
+/**
+ * The one way Zaps are deleted, whether by their owner or by a cleanup job:
+ * the rows go first (with their versions and analytics, and a tombstone left
+ * in their place, and zap.expired / zap.deleted webhooks queued), then every
+ * stored asset they referenced.
+ */
+
+export interface ZapDeletionResult {
+  /** shortIds of the Zaps that were deleted (missing ones are skipped) */
+  deleted: string[];
+  assetsDeleted: number;
+  assetErrors: number;
+}
+
+/**
+ * Deletes Zap rows and records a tombstone for each, queuing their webhooks.
+ * Callers delete the stored assets once the transaction has committed.
+ *
+ * @param tx - Transaction the rows are deleted in
+ * @param shortIds - Zaps to delete
+ * @param reason - Why they are being deleted
+ * @returns The deleted Zaps and the number of webhook deliveries queued
+ */
+export const deleteZapRows = async (
+  tx: Prisma.TransactionClient,
+  shortIds: string[],
+  reason: ZapTombstoneReason,
+) => {
+  let webhooksQueued = 0;
+  const found = await tx.zap.findMany({
+    where: { shortId: { in: shortIds } },
+    select: {
+      ...WEBHOOK_ZAP_SELECT,
+      burnedAt: true,
+      cloudUrl: true,
+      versions: { select: { cloudUrl: true } },
+    },
+  });
+  if (found.length === 0) return { deleted: found, webhooksQueued };
+
+  await tx.zapTombstone.createMany({
+    data: found.map((zap) => ({
+      shortId: zap.shortId,
+      reason: zap.burnedAt ? ZapTombstoneReason.BURNED : reason,
+      expiresAt: zap.expiresAt,
+    })),
+    skipDuplicates: true,
+  });
+
+  // Queued before the delete, which removes the Zap's own subscriptions
+  for (const zap of found) {
+    const tombstoneReason = zap.burnedAt ? ZapTombstoneReason.BURNED : reason;
+    webhooksQueued +=
+      tombstoneReason === ZapTombstoneReason.EXPIRED
+        ? await enqueueWebhookEvent(tx, zap, "zap.expired")
+        : await enqueueWebhookEvent(tx, zap, "zap.deleted", {
+            reason: tombstoneReason.toLowerCase(),
+          });
+  }
+
+  await tx.zap.deleteMany({ where: { id: { in: found.map((zap) => zap.id) } } });
+
+  return { deleted: found, webhooksQueued };
+};
+
+/**
+ * Deletes Zaps and records a tombstone for each in one transaction, then
+ * deletes their files (current and older versions) from storage. A Zap that
+ * was burned after reading keeps "burned" as its reason, whatever removed it.
+ *
+ * Assets are deleted only after the rows are gone, so a failure can leave an
+ * orphaned file but never a Zap pointing at a missing one. Asset failures are
+ * logged and counted, not thrown.
+ *
+ * @param shortIds - Zaps to delete
+ * @param reason - Why they are being deleted
+ */
+export const deleteZaps = async (
+  shortIds: string[],
+  reason: ZapTombstoneReason,
+): Promise<ZapDeletionResult> => {
+  if (shortIds.length === 0) {
+    return { deleted: [], assetsDeleted: 0, assetErrors: 0 };
+  }
+
+  const { deleted: zaps, webhooksQueued } = await prisma.$transaction((tx) =>
+    deleteZapRows(tx, shortIds, reason),
+  );
+
+  if (webhooksQueued > 0) {
+    dispatchWebhooksSoon();
+  }
+
+  // URL Zaps store the target link in cloudUrl; only uploaded assets are owned
+  // by a storage driver.
+  const assetUrls = new Set(
+    zaps
+      .flatMap((zap) => [
+        getZapFileUrl(zap),
+        ...(zap.versions ?? []).map((version) =>
+          getZapFileUrl({ type: zap.type, cloudUrl: version.cloudUrl }),
+        ),
+      ])
+      .filter((url): url is string => url !== null),
+  );
+
+  let assetsDeleted = 0;
+  let assetErrors = 0;
+  for (const assetUrl of assetUrls) {
+    if (await deleteStoredObject(assetUrl)) {
+      assetsDeleted++;
+    } else {
+      assetErrors++;
+    }
+  }
+
+  return { deleted: zaps.map((zap) => zap.shortId), assetsDeleted, assetErrors };
+};
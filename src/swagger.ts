@@ -56,10 +56,41 @@ const options: swaggerJsdoc.Options = {
               description: "Name of the file or content",
               example: "document.pdf",
             },
-            cloudUrl: {
+            contentUrl: {
               type: "string",
-              description: "URL to the uploaded content",
-              example: "https://cloudinary.com/path/to/file",
+              nullable: true,
+              description: "Short-lived signed link to the file, returned after a view is counted",
+              example: "https://api.example.com/api/zaps/abc123/content?view=1&expires=1767225599&signature=9f2c...",
+            },
+            encrypted: {
+              type: "boolean",
+              description: "Whether the file is encrypted at rest",
+              example: false,
+            },
+            e2eEncrypted: {
+              type: "boolean",
+              description: "Whether the content was encrypted end-to-end by the client",
+              example: false,
+            },
+            e2eMetadata: {
+              type: "string",
+              nullable: true,
+              description: "Opaque client data stored with an end-to-end encrypted Zap",
+            },
+            burnAfterReading: {
+              type: "boolean",
+              description: "Whether the content is destroyed on its first view",
+              example: false,
+            },
+            burnedAt: {
+              type: "string",
+              format: "date-time",
+              nullable: true,
+              description: "When a burn-after-reading Zap was viewed and destroyed",
+            },
+            ciphertext: {
+              type: "string",
+              description: "End-to-end encrypted text Zaps only: the ciphertext exactly as uploaded",
             },
             originalUrl: {
               type: "string",
@@ -197,6 +228,22 @@ const options: swaggerJsdoc.Options = {
                   type: "integer",
                   example: 3,
                 },
+                uniqueVisitorsToday: {
+                  type: "integer",
+                  description: "Distinct visitors with a successful view since midnight UTC",
+                  example: 7,
+                },
+                dailyUniqueVisitors: {
+                  type: "array",
+                  description: "Distinct visitors per UTC day over the last 30 days, oldest first",
+                  items: {
+                    type: "object",
+                    properties: {
+                      date: { type: "string", format: "date", example: "2026-10-18" },
+                      uniqueVisitors: { type: "integer", example: 7 },
+                    },
+                  },
+                },
                 deviceBreakdown: {
                   type: "object",
                   additionalProperties: {
@@ -208,6 +255,17 @@ const options: swaggerJsdoc.Options = {
                     Tablet: 2,
                   },
                 },
+                outcomeBreakdown: {
+                  type: "object",
+                  description: "Access attempts of the last 30 days, successful or refused, by outcome",
+                  additionalProperties: {
+                    type: "integer",
+                  },
+                  example: {
+                    success: 42,
+                    wrong_password: 7,
+                  },
+                },
                 recentAccess: {
                   type: "array",
                   items: {
@@ -216,6 +274,21 @@ const options: swaggerJsdoc.Options = {
                       id: { type: "string" },
                       userAgent: { type: "string" },
                       deviceType: { type: "string" },
+                      browser: { type: "string", example: "Chrome" },
+                      os: { type: "string", example: "Windows" },
+                      referrerHost: { type: "string", nullable: true, example: "twitter.com" },
+                      language: { type: "string", nullable: true, example: "en-US" },
+                      outcome: {
+                        type: "string",
+                        enum: [
+                          "SUCCESS",
+                          "WRONG_PASSWORD",
+                          "WRONG_QUIZ",
+                          "LOCKED",
+                          "EXPIRED",
+                          "LIMIT_REACHED",
+                        ],
+                      },
                       accessedAt: { type: "string", format: "date-time" },
                     },
                   },
@@ -232,6 +305,103 @@ const options: swaggerJsdoc.Options = {
             },
           },
         },
+        AnalyticsTimeSeriesResponse: {
+          type: "object",
+          properties: {
+            statusCode: {
+              type: "integer",
+              example: 200,
+            },
+            data: {
+              type: "object",
+              properties: {
+                granularity: {
+                  type: "string",
+                  enum: ["hour", "day"],
+                },
+                from: { type: "string", format: "date-time" },
+                to: { type: "string", format: "date-time" },
+                series: {
+                  type: "array",
+                  items: {
+                    type: "object",
+                    properties: {
+                      bucketStart: { type: "string", format: "date-time" },
+                      views: { type: "integer", example: 12 },
+                      uniqueVisitors: { type: "integer", example: 9 },
+                      devices: {
+                        type: "object",
+                        additionalProperties: { type: "integer" },
+                        example: { Desktop: 8, Mobile: 4 },
+                      },
+                      browsers: {
+                        type: "object",
+                        additionalProperties: { type: "integer" },
+                        example: { Chrome: 7, Safari: 5 },
+                      },
+                    },
+                  },
+                },
+                totals: {
+                  type: "object",
+                  properties: {
+                    views: { type: "integer", example: 120 },
+                    devices: {
+                      type: "object",
+                      additionalProperties: { type: "integer" },
+                    },
+                    browsers: {
+                      type: "object",
+                      additionalProperties: { type: "integer" },
+                    },
+                  },
+                },
+              },
+            },
+            message: {
+              type: "string",
+              example: "Analytics time series retrieved successfully.",
+            },
+            success: {
+              type: "boolean",
+              example: true,
+            },
+          },
+        },
+        AuthResponse: {
+          type: "object",
+          properties: {
+            statusCode: {
+              type: "integer",
+              example: 200,
+            },
+            data: {
+              type: "object",
+              properties: {
+                user: {
+                  type: "object",
+                  properties: {
+                    id: { type: "string", example: "clxyz123abc" },
+                    email: { type: "string", example: "jane@example.com" },
+                    name: { type: "string", example: "Jane" },
+                  },
+                },
+                accessToken: {
+                  type: "string",
+                  description: "Short-lived JWT to send as `Authorization: Bearer <token>`",
+                },
+              },
+            },
+            message: {
+              type: "string",
+              example: "Logged in.",
+            },
+            success: {
+              type: "boolean",
+              example: true,
+            },
+          },
+        },
       },
       securitySchemes: {
         bearerAuth: {
@@ -250,6 +420,18 @@ const options: swaggerJsdoc.Options = {
         name: "Analytics",
         description: "Click tracking and usage analytics for shared links",
       },
+      {
+        name: "Auth",
+        description: "User accounts, login and token refresh",
+      },
+      {
+        name: "Uploads",
+        description: "Resumable chunked uploads for large files",
+      },
+      {
+        name: "Webhooks",
+        description: "Signed notifications of Zap lifecycle events",
+      },
       {
         name: "Health",
         description: "Server health and status checks",
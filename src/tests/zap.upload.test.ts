@@ -14,11 +14,20 @@ jest.mock("../utils/prismClient", () => ({
     default: {
         zap: {
             create: jest.fn().mockResolvedValue({ id: 1, shortId: "mocked-short-id-1234", type: "TEXT" }),
+            findUnique: jest.fn().mockResolvedValue(null),
+            update: jest.fn()
+        },
+        zapTombstone: {
             findUnique: jest.fn().mockResolvedValue(null)
         },
         zapAnalytics: {
             create: jest.fn()
-        }
+        },
+        webhookSubscription: {
+            findMany: jest.fn().mockResolvedValue([])
+        },
+        $transaction: jest.fn((callback: (tx: unknown) => unknown) =>
+            callback(jest.requireMock("../utils/prismClient").default))
     }
 }));
 
@@ -81,6 +90,46 @@ describe("ZAP Upload API Endpoints", () => {
             expect(response.body.data).toHaveProperty("zapId");
         });
 
+        it("should store end-to-end encrypted text unchanged and return it as sent", async () => {
+            const prisma = jest.requireMock("../utils/prismClient").default;
+            // Longer than the 5000 characters plain text is cut to
+            const ciphertext = `${"QUJD".repeat(1500)}.${"c2VjcmV0".repeat(100)}`;
+
+            const created = await request(app)
+                .post("/api/zaps/upload")
+                .field("type", "text")
+                .field("e2e", "true")
+                .field("textContent", ciphertext);
+
+            expect(created.status).toBe(201);
+            const { data } = prisma.zap.create.mock.calls[prisma.zap.create.mock.calls.length - 1][0];
+            expect(data.originalUrl).toBe(`E2E_CONTENT:${ciphertext}`);
+
+            const storedZap = {
+                ...data,
+                id: "cuid1",
+                viewCount: 0,
+                viewLimit: null,
+                expiresAt: null,
+                unlockAt: null,
+                passwordHash: null,
+                quizQuestion: null,
+                quizAnswerHash: null,
+                burnAfterReading: false,
+                burnedAt: null,
+                cloudUrl: null,
+                fileKey: null,
+            };
+            prisma.zap.findUnique.mockResolvedValue(storedZap);
+            prisma.zap.update.mockResolvedValue({ ...storedZap, viewCount: 1 });
+
+            const viewed = await request(app).get(`/api/zaps/${data.shortId}`);
+
+            prisma.zap.findUnique.mockResolvedValue(null);
+            expect(viewed.status).toBe(200);
+            expect(viewed.body.data.ciphertext).toBe(ciphertext);
+        });
+
         it("should fail validation (400) if an invalid viewLimit type is provided", async () => {
             const response = await request(app)
                 .post("/api/zaps/upload")
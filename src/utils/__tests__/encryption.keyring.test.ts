@@ -0,0 +1,121 @@
+import crypto from "crypto";
+
+type EncryptionModule = typeof import("../encryption");
+
+const OLD_KEY = "old-key-0123456789abcdef0123456789";
+const NEW_KEY = "new-key-0123456789abcdef0123456789";
+
+const ENV_VARS = [
+  "TEXT_ENCRYPTION_KEY",
+  "TEXT_ENCRYPTION_KEYS",
+  "TEXT_ENCRYPTION_ACTIVE_KEY_ID",
+];
+const originalEnv = Object.fromEntries(ENV_VARS.map((name) => [name, process.env[name]]));
+
+// Loads a fresh copy of the module so the keyring is read from the given env
+const loadEncryption = (env: Record<string, string>): EncryptionModule => {
+  ENV_VARS.forEach((name) => delete process.env[name]);
+  Object.assign(process.env, env);
+  let module: EncryptionModule | undefined;
+  jest.isolateModules(() => {
+    module = require("../encryption");
+  });
+  return module!;
+};
+
+// Ciphertext in the format used before key ids existed
+const legacyEncrypt = (text: string, masterKey: string): string => {
+  const salt = crypto.randomBytes(64);
+  const iv = crypto.randomBytes(16);
+  const key = crypto.pbkdf2Sync(masterKey, salt, 100000, 32, "sha256");
+  const cipher = crypto.createCipheriv("aes-256-gcm", key, iv);
+  const encrypted = cipher.update(text, "utf8", "base64") + cipher.final("base64");
+  return [salt, iv, cipher.getAuthTag()]
+    .map((part) => part.toString("base64"))
+    .concat(encrypted)
+    .join(":");
+};
+
+describe("encryption - keyring and key rotation", () => {
+  beforeEach(() => {
+    jest.spyOn(console, "error").mockImplementation(() => {});
+  });
+
+  afterAll(() => {
+    ENV_VARS.forEach((name) => {
+      if (originalEnv[name] === undefined) delete process.env[name];
+      else process.env[name] = originalEnv[name];
+    });
+  });
+
+  it("should tag new ciphertext with the active key id", () => {
+    const { encryptText, decryptText, getEncryptionKeyId, isEncrypted } = loadEncryption({
+      TEXT_ENCRYPTION_KEYS: `k2:${NEW_KEY},k1:${OLD_KEY}`,
+    });
+
+    const encrypted = encryptText("secret note");
+
+    expect(encrypted.startsWith("v2:k2:")).toBe(true);
+    expect(isEncrypted(encrypted)).toBe(true);
+    expect(getEncryptionKeyId(encrypted)).toBe("k2");
+    expect(decryptText(encrypted)).toBe("secret note");
+  });
+
+  it("should decrypt ciphertext written with a retired key", () => {
+    const before = loadEncryption({ TEXT_ENCRYPTION_KEYS: `k1:${OLD_KEY}` });
+    const encrypted = before.encryptText("written before rotation");
+
+    const after = loadEncryption({
+      TEXT_ENCRYPTION_KEYS: `k2:${NEW_KEY},k1:${OLD_KEY}`,
+    });
+
+    expect(after.decryptText(encrypted)).toBe("written before rotation");
+    expect(after.getEncryptionKeyId(after.reEncryptText(encrypted))).toBe("k2");
+  });
+
+  it("should decrypt legacy ciphertext with TEXT_ENCRYPTION_KEY as the default key", () => {
+    const legacy = legacyEncrypt("legacy note", OLD_KEY);
+    const { decryptText, getEncryptionKeyId, isEncrypted } = loadEncryption({
+      TEXT_ENCRYPTION_KEY: OLD_KEY,
+      TEXT_ENCRYPTION_KEYS: `k2:${NEW_KEY}`,
+    });
+
+    expect(isEncrypted(legacy)).toBe(true);
+    expect(getEncryptionKeyId(legacy)).toBe("default");
+    expect(decryptText(legacy)).toBe("legacy note");
+  });
+
+  it("should encrypt with the configured active key", () => {
+    const { encryptText, getActiveKeyId } = loadEncryption({
+      TEXT_ENCRYPTION_KEYS: `k2:${NEW_KEY},k1:${OLD_KEY}`,
+      TEXT_ENCRYPTION_ACTIVE_KEY_ID: "k1",
+    });
+
+    expect(getActiveKeyId()).toBe("k1");
+    expect(encryptText("note").startsWith("v2:k1:")).toBe(true);
+  });
+
+  it("should fail clearly when the key is no longer in the keyring", () => {
+    const before = loadEncryption({ TEXT_ENCRYPTION_KEYS: `k1:${OLD_KEY}` });
+    const encrypted = before.encryptText("orphaned");
+
+    const after = loadEncryption({ TEXT_ENCRYPTION_KEYS: `k2:${NEW_KEY}` });
+
+    expect(() => after.decryptText(encrypted)).toThrow('Encryption key "k1" is not in the keyring');
+  });
+
+  it("should reject an invalid keyring", () => {
+    expect(() =>
+      loadEncryption({ TEXT_ENCRYPTION_KEYS: `k1:${OLD_KEY},k1:${NEW_KEY}` }).encryptText("x")
+    ).toThrow('lists key "k1" more than once');
+    expect(() =>
+      loadEncryption({ TEXT_ENCRYPTION_KEYS: "k1:too-short" }).encryptText("x")
+    ).toThrow("at least 32 characters");
+    expect(() =>
+      loadEncryption({
+        TEXT_ENCRYPTION_KEYS: `k1:${OLD_KEY}`,
+        TEXT_ENCRYPTION_ACTIVE_KEY_ID: "k9",
+      }).encryptText("x")
+    ).toThrow("not in the keyring");
+  });
+});
@@ -0,0 +1,35 @@
+import dns from "dns";
+import { isBlockedAddress, isPublicHost } from "../publicAddress";
+
+describe("publicAddress", () => {
+  afterEach(() => jest.restoreAllMocks());
+
+  it("should block private, loopback and link-local addresses", () => {
+    expect(isBlockedAddress("10.0.0.5")).toBe(true);
+    expect(isBlockedAddress("169.254.169.254")).toBe(true);
+    expect(isBlockedAddress("::ffff:192.168.1.1")).toBe(true);
+    expect(isBlockedAddress("fd12::1")).toBe(true);
+    expect(isBlockedAddress("93.184.216.34")).toBe(false);
+    expect(isBlockedAddress("2606:2800:220:1::1")).toBe(false);
+  });
+
+  it("should only accept hosts that resolve to public addresses", async () => {
+    const lookup = jest.spyOn(dns.promises, "lookup") as unknown as jest.Mock;
+
+    expect(await isPublicHost(new URL("https://127.0.0.1:8080/hook"))).toBe(false);
+    expect(await isPublicHost(new URL("https://[::1]/hook"))).toBe(false);
+    expect(lookup).not.toHaveBeenCalled();
+
+    lookup.mockResolvedValueOnce([{ address: "93.184.216.34", family: 4 }]);
+    expect(await isPublicHost(new URL("https://example.com/hook"))).toBe(true);
+
+    lookup.mockResolvedValueOnce([
+      { address: "93.184.216.34", family: 4 },
+      { address: "10.0.0.5", family: 4 },
+    ]);
+    expect(await isPublicHost(new URL("https://internal.example/hook"))).toBe(false);
+
+    lookup.mockRejectedValueOnce(new Error("getaddrinfo ENOTFOUND"));
+    expect(await isPublicHost(new URL("https://missing.example/hook"))).toBe(false);
+  });
+});
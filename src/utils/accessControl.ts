@@ -1,3 +1,4 @@
+import crypto from "crypto";
 import bcrypt from "bcrypt";
 import { Zap } from "@prisma/client";
 
@@ -121,3 +122,53 @@ export const validateFileAccess = (
 
   return { allowed: true };
 };
+
+/**
+ * Compare a provided deletion token against the Zap's token in constant time
+ * @param zap - The Zap record (only deletionToken is read)
+ * @param providedToken - The token supplied by the client
+ * @returns boolean
+ */
+export const hasValidDeletionToken = (
+  zap: Pick<Zap, "deletionToken">,
+  providedToken: string | null | undefined
+): boolean => {
+  if (!zap.deletionToken || !providedToken) {
+    return false;
+  }
+
+  const expected = Buffer.from(zap.deletionToken);
+  const provided = Buffer.from(providedToken);
+
+  return (
+    expected.length === provided.length &&
+    crypto.timingSafeEqual(expected, provided)
+  );
+};
+
+/**
+ * Who is allowed to manage (edit/delete) a Zap
+ */
+export type ZapManagerRole = "owner" | "deletion_token";
+
+/**
+ * Determine whether the caller may manage a Zap, either as its
+ * authenticated owner or by presenting its deletion token
+ * @param zap - The Zap record (only ownerId and deletionToken are read)
+ * @param userId - The authenticated user's id, if any
+ * @param deletionToken - The deletion token supplied by the client, if any
+ * @returns The role that grants access, or null if access is denied
+ */
+export const getZapManagerRole = (
+  zap: Pick<Zap, "ownerId" | "deletionToken">,
+  userId: string | null | undefined,
+  deletionToken: string | null | undefined
+): ZapManagerRole | null => {
+  if (userId && zap.ownerId && zap.ownerId === userId) {
+    return "owner";
+  }
+  if (hasValidDeletionToken(zap, deletionToken)) {
+    return "deletion_token";
+  }
+  return null;
+};
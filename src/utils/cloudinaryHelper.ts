@@ -1,63 +1,120 @@
+import { Readable } from "stream";
 import cloudinary from "../middlewares/cloudinary";
 
+const FOLDER = "zaplink_folders";
+// upload_stream is called with resource_type "auto", so assets land in any of these
+const RESOURCE_TYPES = ["image", "video", "raw"] as const;
+
+export interface CloudinaryUploadResponse {
+  secure_url: string;
+  public_id: string;
+  resource_type: string;
+  format: string;
+  [key: string]: any;
+}
+
+/**
+ * Uploads a file to the zaplink_folders folder on Cloudinary.
+ * @param body The file contents, buffered or as a stream.
+ * @returns The Cloudinary upload result (secure_url, public_id, ...).
+ */
+export const uploadToCloudinary = (
+  body: Buffer | Readable
+): Promise<CloudinaryUploadResponse> => {
+  return new Promise<CloudinaryUploadResponse>((resolve, reject) => {
+    const options = { folder: FOLDER, resource_type: "auto" as const };
+    const callback = (error: any, result: any) => {
+      if (error) reject(error);
+      else resolve(result as CloudinaryUploadResponse);
+    };
+
+    if (Buffer.isBuffer(body)) {
+      cloudinary.uploader.upload_stream(options, callback).end(body);
+    } else {
+      // Streams come from resumable uploads and may exceed the 100MB single-request limit
+      body
+        .on("error", reject)
+        .pipe(cloudinary.uploader.upload_chunked_stream(options, callback));
+    }
+  });
+};
+
 /**
  * Extracts the public_id from a Cloudinary URL and deletes the asset.
+ * An asset that is already gone counts as deleted.
  * @param cloudUrl The full Cloudinary URL of the asset.
+ * @throws If the URL is not a Cloudinary upload URL or Cloudinary did not delete the asset.
  */
-export const deleteFromCloudinary = async (cloudUrl: string) => {
-  try {
-    if (!cloudUrl) return;
-
-    // Example URL: https://res.cloudinary.com/cloud_name/image/upload/v1234567890/zaplink_folders/filename_1234567890.pdf
-    
-    // 1. Determine resource type
-    let resourceType = "raw";
-    if (cloudUrl.includes("/image/upload/")) {
-      resourceType = "image";
-    } else if (cloudUrl.includes("/video/upload/")) {
-      resourceType = "video";
-    } else if (cloudUrl.includes("/raw/upload/")) {
-      resourceType = "raw";
-    }
+export const deleteFromCloudinary = async (cloudUrl: string): Promise<void> => {
+  if (!cloudUrl) return;
 
-    // 2. Extract public_id
-    // The public_id includes the folder structure but excludes the version (v1234567890) and the file extension (for images/videos)
-    const urlParts = cloudUrl.split("/");
-    const uploadIndex = urlParts.findIndex(part => part === "upload");
-    
-    if (uploadIndex === -1) {
-      console.error("Invalid Cloudinary URL format:", cloudUrl);
-      return;
-    }
+  // Example URL: https://res.cloudinary.com/cloud_name/image/upload/v1234567890/zaplink_folders/filename_1234567890.pdf
 
-    // Skip the version number (e.g., v1234567890) which is usually right after "upload" if it starts with 'v' and is numeric
-    let startIndex = uploadIndex + 1;
-    if (urlParts[startIndex].match(/^v\d+$/)) {
-      startIndex++;
-    }
+  // 1. Determine resource type
+  let resourceType = "raw";
+  if (cloudUrl.includes("/image/upload/")) {
+    resourceType = "image";
+  } else if (cloudUrl.includes("/video/upload/")) {
+    resourceType = "video";
+  } else if (cloudUrl.includes("/raw/upload/")) {
+    resourceType = "raw";
+  }
 
-    const publicIdWithExtension = urlParts.slice(startIndex).join("/");
-    
-    let publicId = publicIdWithExtension;
-    // Cloudinary destroy requires the extension for 'raw' files, but NOT for 'image' or 'video' files
-    if (resourceType !== "raw") {
-      const lastDotIndex = publicId.lastIndexOf(".");
-      if (lastDotIndex !== -1) {
-        publicId = publicId.substring(0, lastDotIndex);
-      }
-    } else {
-      // For raw files, if it has a .pdf extension, cloudinary sometimes wants it, sometimes not. 
-      // Safe bet: keep the extension for raw files like PDFs, zip, etc. as stored.
+  // 2. Extract public_id
+  // The public_id includes the folder structure but excludes the version (v1234567890) and the file extension (for images/videos)
+  const urlParts = cloudUrl.split("/");
+  const uploadIndex = urlParts.findIndex(part => part === "upload");
+
+  if (uploadIndex === -1) {
+    throw new Error(`Invalid Cloudinary URL format: ${cloudUrl}`);
+  }
+
+  // Skip the version number (e.g., v1234567890) which is usually right after "upload" if it starts with 'v' and is numeric
+  let startIndex = uploadIndex + 1;
+  if (urlParts[startIndex].match(/^v\d+$/)) {
+    startIndex++;
+  }
+
+  const publicIdWithExtension = urlParts.slice(startIndex).join("/");
+
+  let publicId = publicIdWithExtension;
+  // Cloudinary destroy requires the extension for 'raw' files, but NOT for 'image' or 'video' files
+  if (resourceType !== "raw") {
+    const lastDotIndex = publicId.lastIndexOf(".");
+    if (lastDotIndex !== -1) {
+      publicId = publicId.substring(0, lastDotIndex);
     }
+  } else {
+    // For raw files, if it has a .pdf extension, cloudinary sometimes wants it, sometimes not. 
+    // Safe bet: keep the extension for raw files like PDFs, zip, etc. as stored.
+  }
 
-    console.log(`Attempting to delete Cloudinary asset: ${publicId} (type: ${resourceType})`);
-    
-    const result = await cloudinary.uploader.destroy(publicId, { resource_type: resourceType });
-    console.log(`Cloudinary deletion result for ${publicId}:`, result);
-    
-    return result;
+  console.log(`Attempting to delete Cloudinary asset: ${publicId} (type: ${resourceType})`);
 
-  } catch (error) {
-    console.error("Error deleting from Cloudinary:", error);
+  // destroy resolves with { result: "error" } rather than rejecting for most failures
+  const { result } = await cloudinary.uploader.destroy(publicId, { resource_type: resourceType });
+  if (result !== "ok" && result !== "not found") {
+    throw new Error(`Cloudinary could not delete ${publicId}: ${result}`);
   }
 };
+
+/**
+ * Lists every asset in the zaplink_folders folder through the Admin API,
+ * following pagination cursors.
+ */
+export async function* listCloudinaryAssets(): AsyncGenerator<CloudinaryUploadResponse> {
+  for (const resourceType of RESOURCE_TYPES) {
+    let nextCursor: string | undefined;
+    do {
+      const page = await cloudinary.api.resources({
+        type: "upload",
+        prefix: `${FOLDER}/`,
+        resource_type: resourceType,
+        max_results: 500,
+        next_cursor: nextCursor,
+      });
+      yield* page.resources as CloudinaryUploadResponse[];
+      nextCursor = page.next_cursor;
+    } while (nextCursor);
+  }
+}
@@ -0,0 +1,65 @@
+/**
+ * Helpers for serving stored file bytes over HTTP.
+ */
+
+export interface ResolvedRange {
+  start: number;
+  /** Inclusive */
+  end: number;
+}
+
+/**
+ * Parses a `Range` header against the full size of a file (RFC 9110 §14).
+ * Only single byte ranges are supported; anything else is ignored and the
+ * whole file is served, which the RFC allows.
+ *
+ * @param header - The raw Range header, if any
+ * @param size - Total size of the file in bytes
+ * @returns The range to serve, null to serve the whole file, or
+ *   "unsatisfiable" when the range lies outside the file (respond 416)
+ */
+export const parseRangeHeader = (
+  header: string | undefined,
+  size: number,
+): ResolvedRange | null | "unsatisfiable" => {
+  if (!header) return null;
+
+  const match = /^bytes=(\d*)-(\d*)$/.exec(header.trim());
+  if (!match || (match[1] === "" && match[2] === "")) return null;
+
+  let start: number;
+  let end: number;
+  if (match[1] === "") {
+    // Suffix range: the last N bytes
+    const suffixLength = parseInt(match[2], 10);
+    if (suffixLength === 0) return "unsatisfiable";
+    start = Math.max(0, size - suffixLength);
+    end = size - 1;
+  } else {
+    start = parseInt(match[1], 10);
+    if (start >= size) return "unsatisfiable";
+    end = match[2] === "" ? size - 1 : Math.min(parseInt(match[2], 10), size - 1);
+    if (end < start) return null;
+  }
+
+  return { start, end };
+};
+
+/**
+ * Builds a Content-Disposition header with an ASCII fallback name and the
+ * exact UTF-8 name (RFC 6266 / RFC 8187).
+ *
+ * @param type - "inline" to display in the browser, "attachment" to download
+ * @param fileName - Name to present to the user
+ */
+export const buildContentDisposition = (
+  type: "inline" | "attachment",
+  fileName: string,
+): string => {
+  const fallback = fileName.replace(/[^\x20-\x7e]|["\\]/g, "_");
+  const encoded = encodeURIComponent(fileName).replace(
+    /['()*]/g,
+    (char) => `%${char.charCodeAt(0).toString(16).toUpperCase()}`,
+  );
+  return `${type}; filename="${fallback}"; filename*=UTF-8''${encoded}`;
+};
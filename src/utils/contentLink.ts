@@ -0,0 +1,50 @@
+import { Zap } from "@prisma/client";
+import { signUrlPayload, verifyUrlSignature } from "./urlSigner";
+
+export const CONTENT_URL_TTL_SECONDS = parseInt(
+  process.env.CONTENT_URL_TTL_SECONDS || "300",
+  10,
+); // Default: 5 minutes
+
+export interface ContentLinkParams {
+  view: number;
+  expires: number;
+  signature: string;
+}
+
+// Bound to the Zap's id (not just its shortId) and to the view it was issued for
+const contentLinkPayload = (zap: Pick<Zap, "id" | "shortId">, view: number) =>
+  `content:${zap.id}:${zap.shortId}:${view}`;
+
+/**
+ * Issues a short-lived link to GET /api/zaps/:shortId/content for a viewer
+ * who has just passed the access checks.
+ *
+ * @param zap - The Zap after its view was counted
+ * @returns Absolute URL with view, expires and signature query params
+ */
+export const buildSignedContentUrl = (
+  zap: Pick<Zap, "id" | "shortId" | "viewCount">,
+): string => {
+  const expires = Math.floor(Date.now() / 1000) + CONTENT_URL_TTL_SECONDS;
+  const view = zap.viewCount;
+  const signature = signUrlPayload(contentLinkPayload(zap, view), expires);
+  const domain = process.env.BASE_URL || "http://localhost:5000";
+
+  return `${domain}/api/zaps/${zap.shortId}/content?view=${view}&expires=${expires}&signature=${signature}`;
+};
+
+/**
+ * Checks a content link's signature and expiry.
+ * @returns true if the link was issued for this Zap and has not expired
+ */
+export const verifySignedContentUrl = (
+  zap: Pick<Zap, "id" | "shortId">,
+  params: ContentLinkParams,
+): boolean => {
+  return verifyUrlSignature(
+    contentLinkPayload(zap, params.view),
+    params.expires,
+    params.signature,
+  );
+};
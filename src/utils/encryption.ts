@@ -3,50 +3,154 @@ import dotenv from "dotenv";
 
 dotenv.config();
 
-const ENCRYPTION_KEY = process.env.TEXT_ENCRYPTION_KEY;
 const ALGORITHM = "aes-256-gcm";
 const IV_LENGTH = 16; // For GCM mode
 const AUTH_TAG_LENGTH = 16; // Authentication tag length for GCM
 const SALT_LENGTH = 64; // Salt length for key derivation
+const FORMAT_VERSION = "v2"; // Ciphertext that names the key it was encrypted with
+const DEFAULT_KEY_ID = "default"; // Id of TEXT_ENCRYPTION_KEY in the keyring
+const KEY_ID_REGEX = /^[A-Za-z0-9_-]+$/;
+
+interface Keyring {
+  keys: Map<string, string>;
+  activeKeyId: string;
+}
+
+let keyring: Keyring | null = null;
 
 /**
- * Validates that the encryption key is properly configured
- * @throws Error if encryption key is not set or invalid
+ * Loads the keyring from the environment:
+ * - TEXT_ENCRYPTION_KEYS: comma-separated `id:secret` pairs, newest first
+ * - TEXT_ENCRYPTION_KEY: single key, registered under the id "default"
+ * - TEXT_ENCRYPTION_ACTIVE_KEY_ID: key used for new ciphertext (defaults to
+ *   the first entry of TEXT_ENCRYPTION_KEYS, else "default")
+ *
+ * Every other key is retired: still used for decryption, never for
+ * encryption. Ciphertext written before key ids existed is decrypted with
+ * the "default" key.
+ *
+ * @throws Error if no key is configured or an entry is invalid
  */
-const validateEncryptionKey = (): void => {
-  if (!ENCRYPTION_KEY || ENCRYPTION_KEY.trim().length === 0) {
+const loadKeyring = (): Keyring => {
+  const keys = new Map<string, string>();
+
+  const entries = (process.env.TEXT_ENCRYPTION_KEYS || "")
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+  for (const entry of entries) {
+    const separator = entry.indexOf(":");
+    const id = entry.slice(0, separator);
+    const secret = entry.slice(separator + 1);
+    if (separator <= 0 || !KEY_ID_REGEX.test(id)) {
+      throw new Error(
+        "TEXT_ENCRYPTION_KEYS must be a comma-separated list of id:secret pairs (ids may use letters, digits, _ and -)."
+      );
+    }
+    if (keys.has(id)) {
+      throw new Error(`TEXT_ENCRYPTION_KEYS lists key "${id}" more than once.`);
+    }
+    keys.set(id, secret);
+  }
+
+  const legacyKey = process.env.TEXT_ENCRYPTION_KEY;
+  if (legacyKey && legacyKey.trim().length > 0 && !keys.has(DEFAULT_KEY_ID)) {
+    keys.set(DEFAULT_KEY_ID, legacyKey);
+  }
+
+  if (keys.size === 0) {
     throw new Error(
-      "TEXT_ENCRYPTION_KEY is not set in environment variables. Please configure it in .env file."
+      "TEXT_ENCRYPTION_KEY is not set in environment variables. Please configure it (or TEXT_ENCRYPTION_KEYS) in .env file."
     );
   }
-  if (ENCRYPTION_KEY.length < 32) {
+
+  for (const [id, secret] of keys) {
+    if (secret.length < 32) {
+      throw new Error(
+        `Encryption key "${id}" must be at least 32 characters long for secure encryption.`
+      );
+    }
+  }
+
+  const activeKeyId =
+    process.env.TEXT_ENCRYPTION_ACTIVE_KEY_ID ||
+    (entries.length > 0 ? keys.keys().next().value! : DEFAULT_KEY_ID);
+  if (!keys.has(activeKeyId)) {
     throw new Error(
-      "TEXT_ENCRYPTION_KEY must be at least 32 characters long for secure encryption."
+      `TEXT_ENCRYPTION_ACTIVE_KEY_ID "${activeKeyId}" is not in the keyring.`
     );
   }
+
+  return { keys, activeKeyId };
+};
+
+/**
+ * Returns the keyring, loading it on first use
+ * @throws Error if the keyring is not properly configured
+ */
+const getKeyring = (): Keyring => {
+  if (!keyring) {
+    keyring = loadKeyring();
+  }
+  return keyring;
 };
 
 /**
- * Derives a 32-byte encryption key from the master key using PBKDF2
+ * Derives a 32-byte encryption key from a master key using PBKDF2
+ * @param masterKey - Secret from the keyring
  * @param salt - Salt for key derivation
  * @returns Derived key buffer
  */
-const deriveKey = (salt: Buffer): Buffer => {
-  if (!ENCRYPTION_KEY) {
-    throw new Error("Encryption key is not configured");
+const deriveKey = (masterKey: string, salt: Buffer): Buffer => {
+  return crypto.pbkdf2Sync(masterKey, salt, 100000, 32, "sha256");
+};
+
+/**
+ * Splits ciphertext into the id of the key it was encrypted with and its
+ * salt:iv:authTag:encryptedData parts
+ * @param encryptedText - Ciphertext in either the current or the legacy format
+ * @returns null if the text is in neither format
+ */
+const parseCiphertext = (
+  encryptedText: string
+): { keyId: string; parts: string[] } | null => {
+  const parts = encryptedText.split(":");
+  if (parts.length === 6 && parts[0] === FORMAT_VERSION && KEY_ID_REGEX.test(parts[1])) {
+    return { keyId: parts[1], parts: parts.slice(2) };
+  }
+  if (parts.length === 4) {
+    return { keyId: DEFAULT_KEY_ID, parts };
   }
-  return crypto.pbkdf2Sync(ENCRYPTION_KEY, salt, 100000, 32, "sha256");
+  return null;
+};
+
+/**
+ * Returns the id of the key new ciphertext is encrypted with
+ * @throws Error if the keyring is not properly configured
+ */
+export const getActiveKeyId = (): string => getKeyring().activeKeyId;
+
+/**
+ * Returns the id of the key a ciphertext was encrypted with ("default" for
+ * ciphertext written before key ids existed)
+ * @param encryptedText - Ciphertext produced by encryptText
+ * @returns The key id, or null if the text is not encrypted
+ */
+export const getEncryptionKeyId = (encryptedText: string): string | null => {
+  if (!isEncrypted(encryptedText)) return null;
+  return parseCiphertext(encryptedText)!.keyId;
 };
 
 /**
  * Encrypts text content using AES-256-GCM
  * @param text - Plain text to encrypt
- * @returns Encrypted text in format: salt:iv:authTag:encryptedData (all base64 encoded)
+ * @returns Encrypted text in format: v2:keyId:salt:iv:authTag:encryptedData
+ *   (all but the version and key id base64 encoded)
  * @throws Error if encryption fails or key is invalid
  */
 export const encryptText = (text: string): string => {
   try {
-    validateEncryptionKey();
+    const { keys, activeKeyId } = getKeyring();
 
     if (!text || text.length === 0) {
       throw new Error("Cannot encrypt empty text");
@@ -55,8 +159,8 @@ export const encryptText = (text: string): string => {
     // Generate random salt for key derivation
     const salt = crypto.randomBytes(SALT_LENGTH);
     
-    // Derive encryption key from master key
-    const key = deriveKey(salt);
+    // Derive encryption key from the active master key
+    const key = deriveKey(keys.get(activeKeyId)!, salt);
 
     // Generate random initialization vector
     const iv = crypto.randomBytes(IV_LENGTH);
@@ -71,9 +175,11 @@ export const encryptText = (text: string): string => {
     // Get authentication tag (for GCM mode integrity verification)
     const authTag = cipher.getAuthTag();
 
-    // Combine salt, iv, authTag, and encrypted data
-    // Format: salt:iv:authTag:encryptedData (all base64 encoded)
+    // Combine key id, salt, iv, authTag, and encrypted data
+    // Format: v2:keyId:salt:iv:authTag:encryptedData
     const result = [
+      FORMAT_VERSION,
+      activeKeyId,
       salt.toString("base64"),
       iv.toString("base64"),
       authTag.toString("base64"),
@@ -90,28 +196,37 @@ export const encryptText = (text: string): string => {
 };
 
 /**
- * Decrypts text content encrypted with encryptText function
- * @param encryptedText - Encrypted text in format: salt:iv:authTag:encryptedData
+ * Decrypts text content encrypted with encryptText function, using whichever
+ * key in the keyring it was encrypted with
+ * @param encryptedText - Encrypted text in format v2:keyId:salt:iv:authTag:encryptedData,
+ *   or the legacy salt:iv:authTag:encryptedData (decrypted with the "default" key)
  * @returns Decrypted plain text
- * @throws Error if decryption fails, data is corrupted, or key is invalid
+ * @throws Error if decryption fails, data is corrupted, or the key is not in the keyring
  */
 export const decryptText = (encryptedText: string): string => {
   try {
-    validateEncryptionKey();
+    const { keys } = getKeyring();
 
     if (!encryptedText || encryptedText.length === 0) {
       throw new Error("Cannot decrypt empty text");
     }
 
     // Split the encrypted text into its components
-    const parts = encryptedText.split(":");
-    if (parts.length !== 4) {
+    const parsed = parseCiphertext(encryptedText);
+    if (!parsed) {
       throw new Error(
         "Invalid encrypted text format. Data may be corrupted or not properly encrypted."
       );
     }
 
-    const [saltBase64, ivBase64, authTagBase64, encryptedData] = parts;
+    const masterKey = keys.get(parsed.keyId);
+    if (!masterKey) {
+      throw new Error(
+        `Encryption key "${parsed.keyId}" is not in the keyring. Add it to TEXT_ENCRYPTION_KEYS.`
+      );
+    }
+
+    const [saltBase64, ivBase64, authTagBase64, encryptedData] = parsed.parts;
 
     // Convert from base64 to buffers
     const salt = Buffer.from(saltBase64, "base64");
@@ -130,7 +245,7 @@ export const decryptText = (encryptedText: string): string => {
     }
 
     // Derive the same key using the stored salt
-    const key = deriveKey(salt);
+    const key = deriveKey(masterKey, salt);
 
     // Create decipher
     const decipher = crypto.createDecipheriv(ALGORITHM, key, iv);
@@ -158,6 +273,16 @@ export const decryptText = (encryptedText: string): string => {
   }
 };
 
+/**
+ * Re-encrypts ciphertext with the active key
+ * @param encryptedText - Ciphertext produced by encryptText with any key in the keyring
+ * @returns Ciphertext under the active key
+ * @throws Error if decryption or encryption fails
+ */
+export const reEncryptText = (encryptedText: string): string => {
+  return encryptText(decryptText(encryptedText));
+};
+
 /**
  * Checks if a string appears to be encrypted by our encryption function
  * @param text - Text to check
@@ -165,12 +290,13 @@ export const decryptText = (encryptedText: string): string => {
  */
 export const isEncrypted = (text: string): boolean => {
   if (!text) return false;
-  
-  // Check if format matches our encryption format (4 base64 parts separated by colons)
-  const parts = text.split(":");
-  if (parts.length !== 4) return false;
-  
+
+  // Check if format matches our encryption format: 4 base64 parts separated
+  // by colons, optionally preceded by the format version and key id
+  const parsed = parseCiphertext(text);
+  if (!parsed) return false;
+
   // Basic validation that each part looks like base64
   const base64Regex = /^[A-Za-z0-9+/]+=*$/;
-  return parts.every(part => part.length > 0 && base64Regex.test(part));
+  return parsed.parts.every(part => part.length > 0 && base64Regex.test(part));
 };
@@ -1,6 +1,37 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import { Readable } from 'stream';
 import { fromBuffer as fileTypeFromBuffer } from 'file-type';
 import { ApiError } from './ApiError';
 
+// file-type never needs more than this many leading bytes to detect a format
+const SIGNATURE_SAMPLE_BYTES = 4100;
+
+/**
+ * Returns the leading bytes of an upload. Multer memory uploads carry a buffer;
+ * assembled resumable uploads live on disk at file.path.
+ */
+const readSignatureSample = async (file: Express.Multer.File): Promise<Buffer> => {
+    if (file.buffer) return file.buffer;
+
+    const handle = await fs.promises.open(file.path, 'r');
+    try {
+        const sample = Buffer.alloc(SIGNATURE_SAMPLE_BYTES);
+        const { bytesRead } = await handle.read(sample, 0, SIGNATURE_SAMPLE_BYTES, 0);
+        return sample.subarray(0, bytesRead);
+    } finally {
+        await handle.close();
+    }
+};
+
+/**
+ * Returns the contents of an upload for storage: the buffer for memory uploads,
+ * a read stream for files on disk.
+ */
+export const openUploadedFile = (file: Express.Multer.File): Buffer | Readable => {
+    return file.buffer ?? fs.createReadStream(file.path);
+};
+
 export const validateFileSignature = async (file: Express.Multer.File) => {
     // 1. Check if the buffer exists (Keploy/Multer usually provides this)
     if (!file.buffer) {
@@ -33,4 +64,46 @@ export const validateFileSignature = async (file: Express.Multer.File) => {
     }
 
     return type;
-};
\ No newline at end of file
+};
+
+/**
+ * TEAM T066: rejects uploads whose magic bytes do not match their extension.
+ * Unlike validateFileSignature this does not restrict which types may be shared;
+ * it is the check every Zap upload (new Zaps and new versions) goes through.
+ * @throws ApiError 415 for an unknown signature, 400 for a spoofed extension
+ */
+export const assertFileSignatureMatches = async (file: Express.Multer.File) => {
+    const detectedType = await fileTypeFromBuffer(await readSignatureSample(file));
+    const providedExt = file.originalname.split('.').pop()?.toLowerCase() || '';
+
+    if (!detectedType) {
+        throw new ApiError(415, "Unknown file signature. Upload blocked.");
+    }
+
+    const actualExt = detectedType.ext as string;
+    const isJpeg =
+        (actualExt === 'jpg' || actualExt === 'jpeg') &&
+        (providedExt === 'jpg' || providedExt === 'jpeg');
+
+    if (actualExt !== providedExt && !isJpeg) {
+        throw new ApiError(400, `MIME Spoofing Detected! Content is ${actualExt}, claims ${providedExt}.`);
+    }
+
+    return detectedType;
+};
+
+/**
+ * SHA-256 checksum of an upload's contents, hex encoded.
+ * Files on disk are hashed as a stream so large uploads are never fully buffered.
+ */
+export const computeFileChecksum = async (file: Express.Multer.File): Promise<string> => {
+    const hash = crypto.createHash('sha256');
+    if (file.buffer) {
+        return hash.update(file.buffer).digest('hex');
+    }
+
+    for await (const chunk of fs.createReadStream(file.path)) {
+        hash.update(chunk);
+    }
+    return hash.digest('hex');
+};
@@ -1,5 +1,11 @@
+import crypto from 'crypto'
 import jwt from 'jsonwebtoken'
 
+export interface TokenPayload {
+    userId: string;
+    exp?: number;
+}
+
 const getAccessTokenSecret = (): string => {
     const secret = process.env.ACCESS_TOKEN_SECRET;
     if (!secret) {
@@ -38,8 +44,40 @@ const generateRefreshToken = (userId: string): string => {
     return jwt.sign(
         { userId },
         getRefreshTokenSecret(),
-        { expiresIn: expiresIn as jwt.SignOptions['expiresIn'] }
+        {
+            expiresIn: expiresIn as jwt.SignOptions['expiresIn'],
+            // Unique id so two refresh tokens issued in the same second never collide
+            jwtid: crypto.randomUUID(),
+        }
     )
 }
 
-export { generateAccessToken, generateRefreshToken };
+const toTokenPayload = (decoded: string | jwt.JwtPayload): TokenPayload => {
+    if (typeof decoded === 'string' || typeof decoded.userId !== 'string') {
+        throw new Error('Invalid token payload');
+    }
+    return { userId: decoded.userId, exp: decoded.exp };
+}
+
+/**
+ * Verifies an access token and returns its payload.
+ * @throws Error if the token is invalid, expired or malformed
+ */
+const verifyAccessToken = (token: string): TokenPayload => {
+    return toTokenPayload(jwt.verify(token, getAccessTokenSecret()));
+}
+
+/**
+ * Verifies a refresh token and returns its payload.
+ * @throws Error if the token is invalid, expired or malformed
+ */
+const verifyRefreshToken = (token: string): TokenPayload => {
+    return toTokenPayload(jwt.verify(token, getRefreshTokenSecret()));
+}
+
+export {
+    generateAccessToken,
+    generateRefreshToken,
+    verifyAccessToken,
+    verifyRefreshToken,
+};
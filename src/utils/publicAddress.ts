@@ -0,0 +1,84 @@
+import dns from "dns";
+import net from "net";
+
+/**
+ * Keeps outgoing requests to user-supplied URLs (QR logos, webhooks) on the
+ * public internet, so they cannot be pointed at the server's own network.
+ *
+ * Hosts are checked again at connection time through publicLookup, since a
+ * name that resolved to a public address when it was saved may not later.
+ */
+
+/** Message of the error publicLookup fails with */
+export const FORBIDDEN_HOST_ERROR = "FORBIDDEN_HOST";
+
+const blockedAddresses = new net.BlockList();
+[
+  ["0.0.0.0", 8],
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10],
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16],
+  ["172.16.0.0", 12],
+  ["192.0.0.0", 24],
+  ["192.168.0.0", 16],
+  ["198.18.0.0", 15],
+  ["224.0.0.0", 4],
+  ["240.0.0.0", 4],
+].forEach(([network, prefix]) => blockedAddresses.addSubnet(network as string, prefix as number, "ipv4"));
+[
+  ["::", 128],
+  ["::1", 128],
+  ["fc00::", 7],
+  ["fe80::", 10],
+  ["ff00::", 8],
+].forEach(([network, prefix]) => blockedAddresses.addSubnet(network as string, prefix as number, "ipv6"));
+
+/**
+ * Whether an address is loopback, private, link-local or otherwise not on
+ * the public internet. IPv4-mapped IPv6 addresses are checked as IPv4.
+ */
+export const isBlockedAddress = (address: string): boolean =>
+  blockedAddresses.check(address, net.isIPv6(address) ? "ipv6" : "ipv4");
+
+/**
+ * The address of a URL's host when it is an IP literal, which is connected
+ * to without a lookup.
+ */
+export const getIpLiteral = (url: URL): string | null => {
+  const literal = url.hostname.replace(/^\[|\]$/g, "");
+  return net.isIP(literal) ? literal : null;
+};
+
+/**
+ * dns.lookup that fails with FORBIDDEN_HOST_ERROR for hosts resolving to a
+ * blocked address. Pass as the `lookup` option of http(s) requests.
+ */
+export const publicLookup: net.LookupFunction = (hostname, options, callback) => {
+  dns.lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) return callback(error, "", 0);
+    if (addresses.length === 0 || addresses.some(({ address }) => isBlockedAddress(address))) {
+      return callback(new Error(FORBIDDEN_HOST_ERROR), "", 0);
+    }
+    if (options.all) {
+      return (callback as unknown as (err: null, all: dns.LookupAddress[]) => void)(null, addresses);
+    }
+    callback(null, addresses[0].address, addresses[0].family);
+  });
+};
+
+/**
+ * Whether every address a URL's host currently resolves to is public.
+ * Hosts that do not resolve are not public.
+ */
+export const isPublicHost = async (url: URL): Promise<boolean> => {
+  const literal = getIpLiteral(url);
+  if (literal) return !isBlockedAddress(literal);
+
+  try {
+    const addresses = await dns.promises.lookup(url.hostname, { all: true });
+    return addresses.length > 0 && !addresses.some(({ address }) => isBlockedAddress(address));
+  } catch {
+    return false;
+  }
+};
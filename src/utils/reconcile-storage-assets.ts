@@ -0,0 +1,107 @@
+/**
+ * Admin Script: Reconcile Stored Files With the Database
+ *
+ * This script lists every object in the zaplink_folders folder of a storage
+ * backend, reports the ones no Zap or ZapVersion references (orphans), and
+ * deletes orphans older than the grace period. The orphaned-assets job does
+ * the same for the active driver every night.
+ *
+ * ⚠️ IMPORTANT:
+ * - Deleted files cannot be recovered; run with --dry-run first
+ * - Point DATABASE_URL at the database that owns the bucket/folder, or every
+ *   file will look orphaned
+ *
+ * Usage:
+ *   npm run reconcile-assets -- --dry-run
+ *   npm run reconcile-assets -- --driver=s3 --grace-hours=48
+ */
+
+import prisma from "./prismClient";
+import { getStorageByName, getStorageDriverName, StorageDriverName } from "../services/storage";
+import { reconcileStorageAssets } from "../services/assetReconciliation.service";
+import * as readline from "readline";
+
+const argValue = (name: string): string | undefined =>
+  process.argv.find((arg) => arg.startsWith(`--${name}=`))?.split("=")[1];
+
+const DRY_RUN = process.argv.includes("--dry-run");
+const DRIVER = (argValue("driver") as StorageDriverName | undefined) ?? getStorageDriverName();
+const graceHoursArg = argValue("grace-hours");
+const GRACE_PERIOD_HOURS = graceHoursArg !== undefined ? parseFloat(graceHoursArg) : undefined;
+
+const rl = readline.createInterface({
+  input: process.stdin,
+  output: process.stdout,
+});
+
+async function askConfirmation(question: string): Promise<boolean> {
+  return new Promise((resolve) => {
+    rl.question(question, (answer) => {
+      resolve(answer.toLowerCase() === "yes" || answer.toLowerCase() === "y");
+    });
+  });
+}
+
+async function reconcile() {
+  console.log("=".repeat(70));
+  console.log(`Storage Reconciliation (${DRIVER}${DRY_RUN ? ", dry run" : ""})`);
+  console.log("=".repeat(70));
+
+  if (!["cloudinary", "local", "s3"].includes(DRIVER)) {
+    console.error(`\n❌ Unknown driver "${DRIVER}". Expected cloudinary, local or s3.`);
+    rl.close();
+    process.exit(1);
+  }
+  if (GRACE_PERIOD_HOURS !== undefined && !(GRACE_PERIOD_HOURS >= 0)) {
+    console.error("\n❌ --grace-hours must be a number of hours.");
+    rl.close();
+    process.exit(1);
+  }
+
+  if (!DRY_RUN) {
+    console.log("\n⚠️  WARNING: Orphaned files past the grace period will be deleted");
+    const confirmed = await askConfirmation("Do you want to continue? (yes/no): ");
+    if (!confirmed) {
+      console.log("\n❌ Reconciliation cancelled.");
+      rl.close();
+      return;
+    }
+  }
+
+  try {
+    const report = await reconcileStorageAssets(getStorageByName(DRIVER), {
+      dryRun: DRY_RUN,
+      gracePeriodHours: GRACE_PERIOD_HOURS,
+    });
+
+    if (report.orphans.length > 0) {
+      console.log("\nOrphaned files:");
+      for (const orphan of report.orphans) {
+        const status = orphan.deleted ? "deleted" : "kept";
+        console.log(`   ${orphan.lastModified.toISOString()}  ${orphan.url}  (${status})`);
+      }
+    }
+
+    console.log("\n" + "=".repeat(70));
+    console.log("Reconciliation Complete");
+    console.log("=".repeat(70));
+    console.log(`Files scanned: ${report.scanned}, referenced: ${report.referenced}`);
+    console.log(`🔍 Orphaned: ${report.orphans.length}`);
+    console.log(`⏳ Within grace period: ${report.withinGracePeriod}`);
+    console.log(`🗑️  Deleted: ${report.deleted}`);
+    console.log(`❌ Errors: ${report.errors}`);
+
+    if (report.errors > 0) {
+      process.exitCode = 1;
+    }
+  } catch (error) {
+    console.error("\n❌ Reconciliation failed with error:");
+    console.error(error);
+    process.exit(1);
+  } finally {
+    rl.close();
+    await prisma.$disconnect();
+  }
+}
+
+reconcile();
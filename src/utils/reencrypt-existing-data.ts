@@ -0,0 +1,265 @@
+/**
+ * Migration Script: Re-encrypt Text Content With the Active Key
+ *
+ * This script rewrites every encrypted TEXT_CONTENT:, DOCX_CONTENT: and
+ * PPTX_CONTENT: payload (current content and version history), and every
+ * encrypted file Zap's data key, that is not yet encrypted with the active
+ * key. Stored files are not touched. Run it after rotating keys, then retire
+ * the old key once the script reports no errors.
+ *
+ * ⚠️ IMPORTANT:
+ * - Backup your database before running this script
+ * - This script modifies data in place
+ * - TEXT_ENCRYPTION_KEYS must contain the new key AND every old key
+ * - TEXT_ENCRYPTION_ACTIVE_KEY_ID (or the first key listed) is the target key
+ *
+ * Usage:
+ *   npm run reencrypt
+ *   npm run reencrypt -- --batch-size=200
+ */
+
+import prisma from "./prismClient";
+import {
+  getActiveKeyId,
+  getEncryptionKeyId,
+  reEncryptText,
+} from "./encryption";
+import * as readline from "readline";
+
+const CONTENT_PREFIXES = ["TEXT_CONTENT:", "DOCX_CONTENT:", "PPTX_CONTENT:"];
+
+const batchSizeArg = process.argv.find((arg) => arg.startsWith("--batch-size="));
+const BATCH_SIZE = Math.max(
+  1,
+  parseInt(batchSizeArg?.split("=")[1] || "100", 10) || 100
+);
+
+const rl = readline.createInterface({
+  input: process.stdin,
+  output: process.stdout,
+});
+
+async function askConfirmation(question: string): Promise<boolean> {
+  return new Promise((resolve) => {
+    rl.question(question, (answer) => {
+      resolve(answer.toLowerCase() === "yes" || answer.toLowerCase() === "y");
+    });
+  });
+}
+
+interface ReEncryptionStats {
+  scanned: number;
+  reEncrypted: number;
+  skipped: number;
+  errors: Array<{ id: string; error: string }>;
+}
+
+/**
+ * Re-encrypts a stored originalUrl value if it was encrypted with another key
+ * @param originalUrl - Value of Zap.originalUrl or ZapVersion.originalUrl
+ * @param activeKeyId - Id of the key to re-encrypt with
+ * @returns The new value, or null if the row does not need rewriting
+ */
+const reEncryptStoredContent = (
+  originalUrl: string | null,
+  activeKeyId: string
+): string | null => {
+  if (!originalUrl) return null;
+
+  const prefix = CONTENT_PREFIXES.find((p) => originalUrl.startsWith(p));
+  if (!prefix) return null;
+
+  const content = originalUrl.substring(prefix.length);
+  const keyId = getEncryptionKeyId(content);
+  // Plaintext is left to encrypt-existing-data.ts
+  if (keyId === null || keyId === activeKeyId) return null;
+
+  return `${prefix}${reEncryptText(content)}`;
+};
+
+/**
+ * Re-wraps an encrypted file Zap's data key if it was wrapped with another key
+ * @param fileKey - Value of Zap.fileKey
+ * @param activeKeyId - Id of the key to re-wrap with
+ * @returns The new value, or null if the row does not need rewriting
+ */
+const reWrapFileKey = (
+  fileKey: string | null,
+  activeKeyId: string
+): string | null => {
+  if (!fileKey) return null;
+
+  const keyId = getEncryptionKeyId(fileKey);
+  if (keyId === null || keyId === activeKeyId) return null;
+
+  return reEncryptText(fileKey);
+};
+
+/**
+ * Walks a table in id order, BATCH_SIZE rows at a time, rewriting rows whose
+ * value is encrypted with an old key
+ */
+async function reEncryptTable(
+  label: string,
+  fetchBatch: (cursor: string | undefined) => Promise<Array<{ id: string; value: string | null }>>,
+  rewrite: (value: string | null, activeKeyId: string) => string | null,
+  update: (id: string, value: string) => Promise<unknown>,
+  activeKeyId: string
+): Promise<ReEncryptionStats> {
+  const stats: ReEncryptionStats = { scanned: 0, reEncrypted: 0, skipped: 0, errors: [] };
+  let cursor: string | undefined;
+
+  while (true) {
+    const rows = await fetchBatch(cursor);
+    if (rows.length === 0) break;
+    cursor = rows[rows.length - 1].id;
+
+    for (const row of rows) {
+      stats.scanned++;
+      try {
+        const newValue = rewrite(row.value, activeKeyId);
+        if (newValue === null) {
+          stats.skipped++;
+          continue;
+        }
+
+        await update(row.id, newValue);
+        stats.reEncrypted++;
+      } catch (error) {
+        const errorMsg =
+          error instanceof Error ? error.message : "Unknown error";
+        stats.errors.push({ id: row.id, error: errorMsg });
+        console.error(`❌ Error re-encrypting ${label} ${row.id}:`, errorMsg);
+      }
+    }
+
+    console.log(`   ${label}: ${stats.scanned} scanned, ${stats.reEncrypted} re-encrypted`);
+  }
+
+  return stats;
+}
+
+async function migrateToActiveKey() {
+  console.log("=".repeat(70));
+  console.log("Text Content Re-encryption");
+  console.log("=".repeat(70));
+
+  let activeKeyId: string;
+  try {
+    activeKeyId = getActiveKeyId();
+  } catch (error) {
+    console.error("\n❌ Encryption keyring is not configured:");
+    console.error(error instanceof Error ? error.message : error);
+    rl.close();
+    process.exit(1);
+  }
+
+  console.log(`\n⚠️  WARNING: This will re-encrypt all text content and file keys with key "${activeKeyId}"`);
+  console.log("   Make sure you have a database backup before proceeding!\n");
+
+  const confirmed = await askConfirmation(
+    "Do you want to continue? (yes/no): "
+  );
+
+  if (!confirmed) {
+    console.log("\n❌ Migration cancelled.");
+    rl.close();
+    return;
+  }
+
+  console.log(`\n🔍 Scanning database in batches of ${BATCH_SIZE}...\n`);
+
+  const contentFilter = {
+    OR: CONTENT_PREFIXES.map((prefix) => ({ originalUrl: { startsWith: prefix } })),
+  };
+
+  try {
+    const zapStats = await reEncryptTable(
+      "Zap",
+      async (cursor) =>
+        (
+          await prisma.zap.findMany({
+            where: contentFilter,
+            select: { id: true, originalUrl: true },
+            orderBy: { id: "asc" },
+            take: BATCH_SIZE,
+            ...(cursor ? { skip: 1, cursor: { id: cursor } } : {}),
+          })
+        ).map(({ id, originalUrl }) => ({ id, value: originalUrl })),
+      reEncryptStoredContent,
+      (id, originalUrl) => prisma.zap.update({ where: { id }, data: { originalUrl } }),
+      activeKeyId
+    );
+
+    const versionStats = await reEncryptTable(
+      "ZapVersion",
+      async (cursor) =>
+        (
+          await prisma.zapVersion.findMany({
+            where: contentFilter,
+            select: { id: true, originalUrl: true },
+            orderBy: { id: "asc" },
+            take: BATCH_SIZE,
+            ...(cursor ? { skip: 1, cursor: { id: cursor } } : {}),
+          })
+        ).map(({ id, originalUrl }) => ({ id, value: originalUrl })),
+      reEncryptStoredContent,
+      (id, originalUrl) => prisma.zapVersion.update({ where: { id }, data: { originalUrl } }),
+      activeKeyId
+    );
+
+    const fileKeyStats = await reEncryptTable(
+      "File key",
+      async (cursor) =>
+        (
+          await prisma.zap.findMany({
+            where: { fileKey: { not: null } },
+            select: { id: true, fileKey: true },
+            orderBy: { id: "asc" },
+            take: BATCH_SIZE,
+            ...(cursor ? { skip: 1, cursor: { id: cursor } } : {}),
+          })
+        ).map(({ id, fileKey }) => ({ id, value: fileKey })),
+      reWrapFileKey,
+      (id, fileKey) => prisma.zap.update({ where: { id }, data: { fileKey } }),
+      activeKeyId
+    );
+
+    const errors = [...zapStats.errors, ...versionStats.errors, ...fileKeyStats.errors];
+    const reEncrypted = zapStats.reEncrypted + versionStats.reEncrypted + fileKeyStats.reEncrypted;
+    const skipped = zapStats.skipped + versionStats.skipped + fileKeyStats.skipped;
+
+    console.log("\n" + "=".repeat(70));
+    console.log("Migration Complete");
+    console.log("=".repeat(70));
+    console.log(
+      `Zaps scanned: ${zapStats.scanned}, versions scanned: ${versionStats.scanned}, file keys scanned: ${fileKeyStats.scanned}`
+    );
+    console.log(`✅ Re-encrypted: ${reEncrypted}`);
+    console.log(`⏭️  Skipped (already on "${activeKeyId}" or not encrypted): ${skipped}`);
+    console.log(`❌ Errors: ${errors.length}`);
+
+    if (errors.length > 0) {
+      console.log("\n❌ Errors encountered:");
+      errors.forEach(({ id, error }) => {
+        console.log(`   ID ${id}: ${error}`);
+      });
+      console.log("\n   Keep the old keys in TEXT_ENCRYPTION_KEYS until these are resolved.");
+      process.exitCode = 1;
+    } else {
+      console.log(
+        `\n✅ All encrypted text content and file keys now use key "${activeKeyId}". Old keys can be retired.`
+      );
+    }
+  } catch (error) {
+    console.error("\n❌ Migration failed with error:");
+    console.error(error);
+    process.exit(1);
+  } finally {
+    rl.close();
+    await prisma.$disconnect();
+  }
+}
+
+// Run migration
+migrateToActiveKey();
@@ -0,0 +1,50 @@
+import crypto from "crypto";
+
+const getUrlSigningSecret = (): string => {
+  const secret = process.env.URL_SIGNING_SECRET;
+  if (!secret) {
+    throw new Error(
+      "URL_SIGNING_SECRET environment variable is not set. " +
+        "Please set it in your .env file to a strong, random secret."
+    );
+  }
+  return secret;
+};
+
+/**
+ * Signs a payload together with its expiry using HMAC-SHA256.
+ * @param payload - The value the signature is bound to (e.g. a storage key)
+ * @param expiresAt - Expiry as a Unix timestamp in seconds
+ * @returns Hex-encoded signature
+ */
+export const signUrlPayload = (payload: string, expiresAt: number): string => {
+  return crypto
+    .createHmac("sha256", getUrlSigningSecret())
+    .update(`${payload}:${expiresAt}`)
+    .digest("hex");
+};
+
+/**
+ * Verifies a signature produced by signUrlPayload and checks it has not expired.
+ * @param payload - The value the signature should be bound to
+ * @param expiresAt - Expiry as a Unix timestamp in seconds
+ * @param signature - Hex-encoded signature from the URL
+ * @returns true if the signature is valid and unexpired
+ */
+export const verifyUrlSignature = (
+  payload: string,
+  expiresAt: number,
+  signature: string
+): boolean => {
+  if (!Number.isFinite(expiresAt) || expiresAt * 1000 < Date.now()) {
+    return false;
+  }
+
+  const expected = Buffer.from(signUrlPayload(payload, expiresAt), "hex");
+  const provided = Buffer.from(signature, "hex");
+
+  return (
+    expected.length === provided.length &&
+    crypto.timingSafeEqual(expected, provided)
+  );
+};
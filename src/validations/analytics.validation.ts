@@ -0,0 +1,53 @@
+import { z } from "zod";
+
+const isoDateSchema = (field: string) =>
+    z.string().refine((val) => !isNaN(new Date(val).getTime()), {
+        message: `${field} must be a valid datetime.`,
+    });
+
+const paramsSchema = z.object({
+    shortId: z.string().min(1, "shortId is required"),
+});
+
+const isOrderedRange = (query: { from?: string; to?: string }) =>
+    !query.from || !query.to || new Date(query.from) <= new Date(query.to);
+
+const orderedRangeMessage = { message: "from must not be after to.", path: ["from"] };
+
+// GET /api/analytics/:shortId/timeseries
+export const analyticsTimeSeriesSchema = z.object({
+    params: paramsSchema,
+    query: z
+        .object({
+            token: z.string().optional(),
+            granularity: z
+                .enum(["hour", "day"], { message: "granularity must be hour or day." })
+                .optional(),
+            from: isoDateSchema("from").optional(),
+            to: isoDateSchema("to").optional(),
+        })
+        .refine(isOrderedRange, orderedRangeMessage),
+});
+
+// GET /api/analytics/:shortId/export
+export const analyticsExportSchema = z.object({
+    params: paramsSchema,
+    query: z
+        .object({
+            token: z.string().optional(),
+            format: z
+                .enum(["csv", "ndjson"], { message: "format must be csv or ndjson." })
+                .optional(),
+            from: isoDateSchema("from").optional(),
+            to: isoDateSchema("to").optional(),
+        })
+        .refine(isOrderedRange, orderedRangeMessage),
+});
+
+// GET /api/analytics/:shortId/events
+export const analyticsEventsSchema = z.object({
+    params: paramsSchema,
+    query: z.object({
+        token: z.string().optional(),
+    }),
+});
@@ -0,0 +1,18 @@
+import { z } from "zod";
+
+// POST /api/auth/register
+export const registerSchema = z.object({
+    body: z.object({
+        email: z.string().email("Invalid email address"),
+        password: z.string().min(1, "password is required"),
+        name: z.string().max(100, "name must be at most 100 characters").optional(),
+    }),
+});
+
+// POST /api/auth/login
+export const loginSchema = z.object({
+    body: z.object({
+        email: z.string().email("Invalid email address"),
+        password: z.string().min(1, "password is required"),
+    }),
+});
@@ -0,0 +1,50 @@
+import { z } from "zod";
+import { createZapSchema } from "./zap.validation";
+import {
+    RESUMABLE_MAX_CHUNK_SIZE,
+    RESUMABLE_MIN_CHUNK_SIZE,
+} from "../services/resumableUpload.service";
+
+// Shared schemas
+const uploadIdSchema = z.string().uuid("Invalid uploadId");
+
+// POST /api/uploads
+export const initiateUploadSchema = z.object({
+    body: z.object({
+        fileName: z.string().min(1, "fileName is required").max(255),
+        size: z.number().int().positive("size must be a positive integer."),
+        mimeType: z.string().optional(),
+        chunkSize: z
+            .number()
+            .int()
+            .min(RESUMABLE_MIN_CHUNK_SIZE, `chunkSize must be at least ${RESUMABLE_MIN_CHUNK_SIZE} bytes.`)
+            .max(RESUMABLE_MAX_CHUNK_SIZE, `chunkSize must be at most ${RESUMABLE_MAX_CHUNK_SIZE} bytes.`)
+            .optional(),
+    }),
+});
+
+// GET/DELETE /api/uploads/:uploadId
+export const uploadSessionSchema = z.object({
+    params: z.object({
+        uploadId: uploadIdSchema,
+    }),
+});
+
+// PUT /api/uploads/:uploadId/chunks/:index
+export const uploadChunkSchema = z.object({
+    params: z.object({
+        uploadId: uploadIdSchema,
+        index: z.string().regex(/^\d+$/, "index must be a non-negative integer."),
+    }),
+});
+
+// POST /api/uploads/:uploadId/complete
+// Accepts the same Zap settings as POST /api/zaps/upload; the content is the uploaded file.
+export const completeUploadSchema = z.object({
+    params: z.object({
+        uploadId: uploadIdSchema,
+    }),
+    body: createZapSchema.shape.body
+        .omit({ originalUrl: true, textContent: true })
+        .optional(),
+});
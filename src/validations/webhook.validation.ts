@@ -0,0 +1,35 @@
+import { z } from "zod";
+import { WEBHOOK_EVENTS } from "../services/webhook.service";
+
+const idParamsSchema = z.object({
+    id: z.string().min(1, "id is required"),
+});
+
+// POST /api/webhooks
+export const createWebhookSchema = z.object({
+    body: z.object({
+        url: z
+            .string()
+            .url("url must be a valid URL.")
+            .max(2048, "url must be at most 2048 characters.")
+            .refine((val) => /^https:\/\//i.test(val), {
+                message: "url must use https.",
+            }),
+        events: z
+            .array(z.enum(WEBHOOK_EVENTS, { message: `events must be among ${WEBHOOK_EVENTS.join(", ")}.` }))
+            .optional(),
+        shortId: z.string().min(1, "shortId cannot be empty").optional(),
+    }),
+});
+
+// DELETE /api/webhooks/:id, GET /api/webhooks/:id/dead-letters
+export const webhookIdSchema = z.object({
+    params: idParamsSchema,
+});
+
+// POST /api/webhooks/:id/dead-letters/:deadLetterId/redeliver
+export const redeliverWebhookSchema = z.object({
+    params: idParamsSchema.extend({
+        deadLetterId: z.string().min(1, "deadLetterId is required"),
+    }),
+});
@@ -1,4 +1,5 @@
 import { z } from "zod";
+import { QR_ERROR_CORRECTION_LEVELS, QR_FORMATS } from "../services/qrCode.service";
 
 // Shared schemas
 const shortIdSchema = z.string().min(1, "shortId is required");
@@ -51,6 +52,19 @@ export const createZapSchema = z.object({
                 return !isNaN(num) && num >= 0;
             }, { message: "delayedAccessTime must be a non-negative integer." })
             .optional(),
+        encryptFile: z
+            .enum(["true", "false"], { message: "encryptFile must be true or false." })
+            .optional(),
+        e2e: z
+            .enum(["true", "false"], { message: "e2e must be true or false." })
+            .optional(),
+        e2eMetadata: z
+            .string()
+            .max(2048, "e2eMetadata must be at most 2048 characters.")
+            .optional(),
+        burnAfterReading: z
+            .enum(["true", "false"], { message: "burnAfterReading must be true or false." })
+            .optional(),
     }),
 });
 
@@ -71,6 +85,74 @@ export const verifyQuizForZapSchema = z.object({
     }),
 });
 
+// PATCH /api/zaps/:shortId
+// Mirrors createZapSchema; sending `null` clears a setting.
+export const updateZapSchema = z.object({
+    params: z.object({
+        shortId: shortIdSchema,
+    }),
+    body: z
+        .object({
+            name: z.string().optional(),
+            password: z.string().nullable().optional(),
+            viewLimit: z
+                .union([z.string(), z.number()])
+                .nullable()
+                .optional()
+                .refine((val) => {
+                    if (val === undefined || val === null) return true;
+                    const num = Number(val);
+                    return Number.isInteger(num) && num >= 1;
+                }, { message: "viewLimit must be a positive integer." }),
+            expiresAt: z
+                .string()
+                .nullable()
+                .refine(
+                    (val) => {
+                        if (val === null) return true;
+                        const date = new Date(val);
+                        return !isNaN(date.getTime()) && date.getTime() > Date.now();
+                    },
+                    { message: "expiresAt must be a valid future datetime." }
+                )
+                .optional(),
+            quizQuestion: z.string().min(1, "quizQuestion cannot be empty").nullable().optional(),
+            quizAnswer: z.string().min(1, "quizAnswer cannot be empty").nullable().optional(),
+        })
+        .refine(
+            (body) =>
+                ["name", "password", "viewLimit", "expiresAt", "quizQuestion", "quizAnswer"]
+                    .some((field) => (body as Record<string, unknown>)[field] !== undefined),
+            { message: "Provide at least one setting to update." }
+        )
+        .refine(
+            (body) => typeof body.quizQuestion !== "string" || typeof body.quizAnswer === "string",
+            { message: "quizAnswer is required when changing quizQuestion.", path: ["quizAnswer"] }
+        ),
+});
+
+// POST /api/zaps/:shortId/versions, GET /api/zaps/:shortId/versions
+export const zapVersionsSchema = z.object({
+    params: z.object({
+        shortId: shortIdSchema,
+    }),
+});
+
+// POST /api/zaps/:shortId/versions/:version/restore
+export const restoreZapVersionSchema = z.object({
+    params: z.object({
+        shortId: shortIdSchema,
+        version: z.string().regex(/^[1-9]\d*$/, "version must be a positive integer."),
+    }),
+});
+
+// DELETE /api/zaps/:shortId
+export const deleteZapSchema = z.object({
+    params: z.object({
+        shortId: shortIdSchema,
+    }),
+});
+
 // GET /api/zaps/:shortId
 export const getZapByShortIdSchema = z.object({
     params: z.object({
@@ -81,3 +163,96 @@ export const getZapByShortIdSchema = z.object({
         quizAnswer: z.string().optional(),
     }),
 });
+
+// GET /api/zaps/:shortId/content
+export const getZapContentSchema = z.object({
+    params: z.object({
+        shortId: shortIdSchema,
+    }),
+    query: z.object({
+        view: z.string().regex(/^\d+$/, "view must be a non-negative integer.").optional(),
+        expires: z.string().regex(/^\d+$/, "expires must be a Unix timestamp.").optional(),
+        signature: z.string().regex(/^[a-f0-9]+$/i, "Invalid signature.").optional(),
+        download: z.enum(["0", "1", "true", "false"]).optional(),
+    }),
+});
+
+const qrColorSchema = (field: string) =>
+    z
+        .string()
+        .regex(
+            /^#?([0-9a-f]{6}|[0-9a-f]{8})$/i,
+            `${field} must be a hex color (RRGGBB or RRGGBBAA, optionally prefixed with #).`
+        );
+
+const integerInRange = (field: string, min: number, max: number) =>
+    z
+        .string()
+        .regex(/^\d+$/, `${field} must be an integer.`)
+        .refine((val) => {
+            const num = parseInt(val, 10);
+            return num >= min && num <= max;
+        }, { message: `${field} must be between ${min} and ${max}.` });
+
+// GET /api/zaps/:shortId/qr
+export const getZapQrCodeSchema = z.object({
+    params: z.object({
+        shortId: shortIdSchema,
+    }),
+    query: z.object({
+        format: z
+            .enum(QR_FORMATS, { message: "format must be svg, png or pdf." })
+            .optional(),
+        size: integerInRange("size", 64, 2048).optional(),
+        margin: integerInRange("margin", 0, 16).optional(),
+        ecc: z
+            .enum(QR_ERROR_CORRECTION_LEVELS, { message: "ecc must be L, M, Q or H." })
+            .optional(),
+        fg: qrColorSchema("fg").optional(),
+        bg: qrColorSchema("bg").optional(),
+        logo: z
+            .string()
+            .url("logo must be a valid URL.")
+            .max(2048, "logo must be at most 2048 characters.")
+            .refine((val) => /^https:\/\//i.test(val), { message: "logo must use https." })
+            .optional(),
+    }),
+});
+
+// GET /api/zaps
+export const listZapsSchema = z.object({
+    query: z.object({
+        page: z
+            .string()
+            .regex(/^\d+$/, "page must be a positive integer.")
+            .optional(),
+        limit: z
+            .string()
+            .regex(/^\d+$/, "limit must be a positive integer.")
+            .refine((val) => {
+                const num = parseInt(val, 10);
+                return num >= 1 && num <= 100;
+            }, { message: "limit must be between 1 and 100." })
+            .optional(),
+        type: z.enum([
+            "PDF",
+            "IMAGE",
+            "VIDEO",
+            "AUDIO",
+            "ZIP",
+            "URL",
+            "TEXT",
+            "WORD",
+            "PPT",
+            "UNIVERSAL",
+        ], { message: "Invalid type provided" }).optional(),
+        status: z.enum(["active", "expired", "exhausted", "burned"], {
+            message: "status must be one of active, expired, exhausted, burned.",
+        }).optional(),
+        search: z.string().max(100, "search must be at most 100 characters.").optional(),
+        sortBy: z.enum(["createdAt", "name", "viewCount", "expiresAt"], {
+            message: "sortBy must be one of createdAt, name, viewCount, expiresAt.",
+        }).optional(),
+        order: z.enum(["asc", "desc"], { message: "order must be asc or desc." }).optional(),
+    }),
+});